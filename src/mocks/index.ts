@@ -0,0 +1,173 @@
+import {
+  HttpMethod,
+  MessageResponse,
+  MessageStatus,
+  ChatResponse,
+  FileResponse,
+  FileType,
+  SendMessageRequest,
+  CreateChatRequest,
+  UploadChangesRequest,
+  UserStatus,
+  BatchRequest,
+  BatchResponseItem,
+} from '@/types/api';
+import { API_ENDPOINTS } from '@/services/ApiEndpoints';
+import { MockTransport, MockFixture, mockError, mockSuccess } from '@/services/MockTransport';
+import { setDefaultTransport } from '@/services/HttpTransport';
+import { BATCH_PATH } from '@/services/RequestBatcher';
+import { logger } from '@/utils';
+import { ENV_CONFIG } from '@/utils/Environment';
+import authFixtures from './fixtures/auth.json';
+import userFixtures from './fixtures/users.json';
+import chatFixtures from './fixtures/chats.json';
+import organizationFixtures from './fixtures/organization.json';
+import systemFixtures from './fixtures/system.json';
+
+const MOCK_USER_ID = 'user_001';
+const BATCH_ITEM_TIMEOUT = 30000;
+
+export const MOCK_FIXTURES = [
+  ...authFixtures,
+  ...userFixtures,
+  ...chatFixtures,
+  ...organizationFixtures,
+  ...systemFixtures,
+] as MockFixture[];
+
+// 创建加载了全部夹具的模拟传输；写操作由处理函数生成响应，发送的消息保存在内存中
+export function createMockTransport(): MockTransport {
+  const transport = new MockTransport().loadFixtures(MOCK_FIXTURES).setLatency(100, 400);
+  const messages: Map<string, MessageResponse[]> = new Map();
+  let sequence = 0;
+
+  transport.onEndpoint(API_ENDPOINTS.messages.send, request => {
+    const body = request.body as SendMessageRequest;
+    const message: MessageResponse = {
+      id: `msg_mock_${++sequence}`,
+      chatId: body.chatId,
+      senderId: MOCK_USER_ID,
+      type: body.type,
+      content: body.content,
+      timestamp: new Date().toISOString(),
+      status: MessageStatus.SENT,
+      readBy: [],
+      replyTo: body.replyTo,
+      metadata: body.metadata,
+      seq: sequence,
+    };
+
+    const chatMessages = messages.get(body.chatId) || [];
+    chatMessages.push(message);
+    messages.set(body.chatId, chatMessages);
+    return message;
+  });
+
+  transport.onEndpoint(API_ENDPOINTS.messages.list, request => {
+    const items = messages.get(request.query.chatId) || [];
+    const after = request.query.after;
+    const start = after ? items.findIndex(item => item.id === after) + 1 : 0;
+    const page = items.slice(start, start + Number(request.query.limit || 20));
+    return {
+      items: page,
+      total: items.length,
+      page: 1,
+      limit: Number(request.query.limit || 20),
+      hasNext: start + page.length < items.length,
+      hasPrev: start > 0,
+    };
+  });
+
+  transport.on(HttpMethod.PUT, API_ENDPOINTS.messages.markRead.path, () => ({ body: { success: true } }));
+  transport.on(HttpMethod.PUT, API_ENDPOINTS.messages.markManyRead.path, () => ({ body: { success: true } }));
+
+  transport.onEndpoint(API_ENDPOINTS.chats.create, request => {
+    const body = request.body as CreateChatRequest;
+    const now = new Date().toISOString();
+    const chat: ChatResponse = {
+      id: `chat_mock_${++sequence}`,
+      type: body.type,
+      name: body.name,
+      participants: [MOCK_USER_ID, ...body.participantIds].map(id => ({
+        id,
+        name: id,
+        status: UserStatus.ONLINE,
+        joinedAt: now,
+      })),
+      unreadCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    return chat;
+  });
+
+  transport.onEndpoint(API_ENDPOINTS.chats.get, request => {
+    const chats: ChatResponse[] = (chatFixtures[0].body.data.chats as unknown) as ChatResponse[];
+    const chat = chats.find(item => item.id === request.pathParams.chatId);
+    return chat || mockError(404, 'NOT_FOUND', '会话不存在');
+  });
+
+  transport.onEndpoint(API_ENDPOINTS.files.get, request => {
+    const file: FileResponse = {
+      id: request.pathParams.fileId,
+      name: `${request.pathParams.fileId}.png`,
+      size: 1024,
+      type: FileType.IMAGE,
+      mimeType: 'image/png',
+      url: `https://cdn.xiaoxiang.com/mock/${request.pathParams.fileId}.png`,
+      uploadedAt: new Date().toISOString(),
+      uploadedBy: MOCK_USER_ID,
+    };
+    return file;
+  });
+
+  // 所有本地更改都视为处理成功
+  transport.onEndpoint(API_ENDPOINTS.sync.upload, request => {
+    const body = request.body as UploadChangesRequest;
+    return {
+      conflicts: [],
+      processed: body.changes.map(change => change.clientId),
+    };
+  });
+
+  // 批量请求逐项交给对应的路由处理，延迟和故障注入对每一项分别生效；网络类故障使整个批量请求失败
+  transport.on(HttpMethod.POST, BATCH_PATH, async request => {
+    const body = request.body as BatchRequest;
+    const responses = await Promise.all(body.requests.map(async (item): Promise<BatchResponseItem> => {
+      const response = await transport.send({
+        method: item.method,
+        url: `${ENV_CONFIG.apiBaseUrl}${item.path}`,
+        headers: { ...request.headers, ...item.headers },
+        body: item.body === undefined ? undefined : JSON.stringify(item.body),
+        timeout: BATCH_ITEM_TIMEOUT,
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach?.((value, name) => {
+        headers[name] = value;
+      });
+      return { id: item.id, status: response.status, headers, body: parseBody(response.body) };
+    }));
+    return mockSuccess({ responses });
+  });
+
+  return transport;
+}
+
+// 响应体无法解析时原样返回（如注入了MALFORMED_JSON故障）
+function parseBody(body: string): any {
+  if (!body) return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+// 将模拟传输设为所有ApiClient的默认传输
+export function installMockApi(): MockTransport {
+  const transport = createMockTransport();
+  setDefaultTransport(transport);
+  logger.info('MockApi', `Mock API installed with ${MOCK_FIXTURES.length} fixtures`);
+  return transport;
+}
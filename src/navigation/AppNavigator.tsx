@@ -9,6 +9,8 @@ import LoginScreen from '@/screens/auth/LoginScreen';
 import MainTabNavigator from './MainTabNavigator';
 import ChatScreen from '@/screens/chat/ChatScreen';
 import ProfileScreen from '@/screens/profile/ProfileScreen';
+import ConflictsScreen from '@/screens/profile/ConflictsScreen';
+import NetworkInspectorScreen from '@/screens/profile/NetworkInspectorScreen';
 
 const Stack = createStackNavigator<RootStackParamList>();
 
@@ -52,6 +54,30 @@ export default function AppNavigator() {
                 headerBackTitleVisible: false,
               }}
             />
+            <Stack.Screen
+              name="Conflicts"
+              component={ConflictsScreen}
+              options={{
+                title: '同步冲突',
+                headerBackTitleVisible: false,
+              }}
+            />
+            <Stack.Screen
+              name="NetworkInspector"
+              component={NetworkInspectorScreen}
+              options={{
+                title: '网络调试',
+                headerBackTitleVisible: false,
+              }}
+            />
+            <Stack.Screen
+              name="AddAccount"
+              component={LoginScreen}
+              options={{
+                title: '添加账户',
+                headerBackTitleVisible: false,
+              }}
+            />
           </>
         ) : (
           // 未登录用户的导航栈
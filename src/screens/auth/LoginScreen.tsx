@@ -11,9 +11,14 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '@/types';
 import { useApp } from '@/store';
 
+// 同时用于未登录时的登录页和已登录时的“添加账户”页
 export default function LoginScreen() {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const { login } = useApp();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -28,6 +33,11 @@ export default function LoginScreen() {
     setIsLoading(true);
     try {
       await login(email.trim(), password);
+
+      // 添加账户后回到新账户的首页
+      if (navigation.canGoBack()) {
+        navigation.popToTop();
+      }
     } catch (error: any) {
       console.error('Login error:', error);
       Alert.alert('登录失败', error.message || '网络连接失败');
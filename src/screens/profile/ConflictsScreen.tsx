@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { offlineFirstSyncService, SyncEvent, PendingConflict, ManualResolution } from '@/services';
+import { ConflictType, SyncDataType } from '@/types/api';
+import { formatDateTime } from '@/utils';
+
+const DATA_TYPE_TEXT: Record<string, string> = {
+  [SyncDataType.MESSAGES]: '消息',
+  [SyncDataType.CHATS]: '会话',
+  [SyncDataType.USERS]: '用户',
+  [SyncDataType.DEPARTMENTS]: '部门',
+};
+
+const CONFLICT_TYPE_TEXT: Record<string, string> = {
+  [ConflictType.VERSION_CONFLICT]: '服务器上已被修改',
+  [ConflictType.DELETED_ON_SERVER]: '服务器上已被删除',
+  [ConflictType.PERMISSION_DENIED]: '没有修改权限',
+};
+
+interface FieldDiff {
+  field: string;
+  local: string;
+  server: string;
+  changed: boolean;
+}
+
+// 字段值转为可读文本
+const formatValue = (value: any): string => {
+  if (value === undefined || value === null) {
+    return '—';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// 逐字段对比本地和服务器数据
+const buildFieldDiffs = (localData: any, serverData: any): FieldDiff[] => {
+  const local = localData || {};
+  const server = serverData || {};
+  const fields = Array.from(new Set([...Object.keys(local), ...Object.keys(server)]));
+
+  return fields.map(field => {
+    const localText = formatValue(local[field]);
+    const serverText = formatValue(server[field]);
+    return { field, local: localText, server: serverText, changed: localText !== serverText };
+  });
+};
+
+export default function ConflictsScreen() {
+  const [conflicts, setConflicts] = useState<PendingConflict[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  const loadConflicts = useCallback(async () => {
+    const unresolved = await offlineFirstSyncService.getUnresolvedConflicts();
+    setConflicts(unresolved);
+  }, []);
+
+  useEffect(() => {
+    loadConflicts();
+
+    const unsubscribeDetected = offlineFirstSyncService.addEventListener(SyncEvent.CONFLICT_DETECTED, loadConflicts);
+    const unsubscribeResolved = offlineFirstSyncService.addEventListener(SyncEvent.CONFLICT_RESOLVED, loadConflicts);
+
+    return () => {
+      unsubscribeDetected();
+      unsubscribeResolved();
+    };
+  }, [loadConflicts]);
+
+  const resolve = async (conflict: PendingConflict, resolution: ManualResolution, mergedData?: any) => {
+    try {
+      await offlineFirstSyncService.resolveManualConflict(conflict.clientId, resolution, mergedData);
+      setEditingId(null);
+    } catch (error: any) {
+      Alert.alert('处理失败', error?.message || '请稍后重试');
+    }
+  };
+
+  const discard = async (conflict: PendingConflict) => {
+    try {
+      await offlineFirstSyncService.discardConflict(conflict.clientId);
+    } catch (error: any) {
+      Alert.alert('处理失败', error?.message || '请稍后重试');
+    }
+  };
+
+  const handleDiscard = (conflict: PendingConflict) => {
+    Alert.alert(
+      '放弃更改',
+      '将删除这条本地更改，且不会上传到服务器。',
+      [
+        { text: '取消', style: 'cancel' },
+        {
+          text: '放弃',
+          style: 'destructive',
+          onPress: () => discard(conflict),
+        },
+      ]
+    );
+  };
+
+  const handleStartEdit = (conflict: PendingConflict) => {
+    // 以服务器数据为底，覆盖本地修改作为编辑的初始内容
+    const initial = { ...(conflict.serverData || {}), ...(conflict.localData || {}) };
+    setEditText(JSON.stringify(initial, null, 2));
+    setEditingId(conflict.clientId);
+  };
+
+  const handleSaveEdit = (conflict: PendingConflict) => {
+    let mergedData: any;
+    try {
+      mergedData = JSON.parse(editText);
+    } catch (error) {
+      Alert.alert('格式错误', '合并后的内容不是有效的JSON');
+      return;
+    }
+    resolve(conflict, 'merged', mergedData);
+  };
+
+  const renderConflict = ({ item }: { item: PendingConflict }) => {
+    const diffs = buildFieldDiffs(item.localData, item.serverData);
+    const isEditing = editingId === item.clientId;
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>
+            {DATA_TYPE_TEXT[item.dataType] || item.dataType} · {CONFLICT_TYPE_TEXT[item.type] || item.type}
+          </Text>
+          <Text style={styles.cardTime}>{formatDateTime(new Date(item.detectedAt))}</Text>
+        </View>
+
+        {/* 本地与服务器数据对比 */}
+        <View style={styles.diffHeader}>
+          <Text style={[styles.diffCell, styles.diffField]}>字段</Text>
+          <Text style={styles.diffCell}>我的版本</Text>
+          <Text style={styles.diffCell}>服务器版本</Text>
+        </View>
+        {diffs.map(diff => (
+          <View key={diff.field} style={[styles.diffRow, diff.changed && styles.diffRowChanged]}>
+            <Text style={[styles.diffCell, styles.diffField]}>{diff.field}</Text>
+            <Text style={styles.diffCell} numberOfLines={3}>{diff.local}</Text>
+            <Text style={styles.diffCell} numberOfLines={3}>{diff.server}</Text>
+          </View>
+        ))}
+
+        {isEditing ? (
+          <View style={styles.editor}>
+            <TextInput
+              style={styles.editorInput}
+              value={editText}
+              onChangeText={setEditText}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.actionButton} onPress={() => setEditingId(null)}>
+                <Text style={styles.actionText}>取消</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.actionButton, styles.primaryButton]} onPress={() => handleSaveEdit(item)}>
+                <Text style={[styles.actionText, styles.primaryText]}>保存合并</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.actionButton} onPress={() => resolve(item, 'client')}>
+              <Text style={styles.actionText}>保留我的</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => resolve(item, 'server')}>
+              <Text style={styles.actionText}>采用服务器</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleStartEdit(item)}>
+              <Text style={styles.actionText}>编辑合并</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleDiscard(item)}>
+              <Text style={[styles.actionText, styles.destructiveText]}>放弃</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons name="checkmark-circle-outline" size={64} color="#C7C7CC" />
+      <Text style={styles.emptyText}>没有待处理的同步冲突</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={conflicts}
+        renderItem={renderConflict}
+        keyExtractor={item => item.clientId}
+        ListEmptyComponent={renderEmptyState}
+        contentContainerStyle={conflicts.length === 0 && styles.emptyContainer}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  card: {
+    backgroundColor: '#fff',
+    marginTop: 12,
+    paddingVertical: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cardTime: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  diffHeader: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    backgroundColor: '#F2F2F7',
+  },
+  diffRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  diffRowChanged: {
+    backgroundColor: '#FFF4E5',
+  },
+  diffCell: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+    paddingRight: 8,
+  },
+  diffField: {
+    flex: 0.6,
+    color: '#8E8E93',
+  },
+  editor: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  editorInput: {
+    minHeight: 160,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 13,
+    color: '#333',
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+  },
+  actionText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  primaryText: {
+    color: '#fff',
+  },
+  destructiveText: {
+    color: '#FF3B30',
+  },
+  emptyContainer: {
+    flex: 1,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 100,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#8E8E93',
+    marginTop: 16,
+  },
+});
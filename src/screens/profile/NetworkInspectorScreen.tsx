@@ -0,0 +1,413 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Share,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { networkRecorder, NetworkRecord, HttpRecord, WebSocketFrameRecord } from '@/services';
+import { formatTime, formatFileSize } from '@/utils';
+
+type TypeFilter = 'all' | 'http' | 'websocket';
+type StatusFilter = 'all' | 'failed' | 'retried';
+
+const TYPE_FILTERS: { value: TypeFilter; label: string }[] = [
+  { value: 'all', label: '全部' },
+  { value: 'http', label: 'HTTP' },
+  { value: 'websocket', label: 'WebSocket' },
+];
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: '全部状态' },
+  { value: 'failed', label: '失败' },
+  { value: 'retried', label: '有重试' },
+];
+
+const isFailed = (record: HttpRecord): boolean =>
+  !!record.error || (record.status !== undefined && record.status >= 400);
+
+// 按关键字、类型和状态筛选，关键字匹配URL、方法、状态码和WebSocket事件名
+const matchesFilter = (
+  record: NetworkRecord,
+  keyword: string,
+  typeFilter: TypeFilter,
+  statusFilter: StatusFilter
+): boolean => {
+  if (typeFilter !== 'all' && record.type !== typeFilter) {
+    return false;
+  }
+
+  if (statusFilter !== 'all') {
+    if (record.type !== 'http') return false;
+    if (statusFilter === 'failed' && !isFailed(record)) return false;
+    if (statusFilter === 'retried' && record.attempts.length <= 1) return false;
+  }
+
+  if (!keyword) {
+    return true;
+  }
+
+  const text = record.type === 'http'
+    ? `${record.method} ${record.url} ${record.status ?? ''} ${record.error?.code ?? ''}`
+    : `${record.direction} ${record.event ?? ''} ${record.data}`;
+  return text.toLowerCase().includes(keyword.toLowerCase());
+};
+
+// 去掉域名，列表中只显示路径和查询参数
+const shortenUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+};
+
+export default function NetworkInspectorScreen() {
+  const [records, setRecords] = useState<NetworkRecord[]>(networkRecorder.getRecords());
+  const [enabled, setEnabled] = useState(networkRecorder.isEnabled());
+  const [keyword, setKeyword] = useState('');
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => networkRecorder.addListener(setRecords), []);
+
+  // 最新的记录显示在最前面
+  const visibleRecords = useMemo(
+    () => records.filter(record => matchesFilter(record, keyword, typeFilter, statusFilter)).reverse(),
+    [records, keyword, typeFilter, statusFilter]
+  );
+
+  const handleToggle = async (value: boolean) => {
+    setEnabled(value);
+    try {
+      await networkRecorder.setEnabled(value);
+    } catch (error: any) {
+      setEnabled(!value);
+      Alert.alert('设置失败', error?.message || '请稍后重试');
+    }
+  };
+
+  const handleExport = async () => {
+    if (records.length === 0) {
+      Alert.alert('提示', '没有可导出的记录');
+      return;
+    }
+
+    try {
+      await Share.share({ title: 'network.har', message: networkRecorder.exportHar() });
+    } catch (error: any) {
+      Alert.alert('导出失败', error?.message || '请稍后重试');
+    }
+  };
+
+  const handleClear = () => {
+    networkRecorder.clear();
+    setExpandedId(null);
+  };
+
+  const renderHttpDetail = (record: HttpRecord) => (
+    <View style={styles.detail}>
+      <Text style={styles.detailText} selectable>{record.url}</Text>
+      {record.error && (
+        <Text style={[styles.detailText, styles.errorText]}>
+          {record.error.code}: {record.error.message}
+        </Text>
+      )}
+      {record.attempts.map((attempt, index) => (
+        <View key={index} style={styles.attempt}>
+          <Text style={styles.attemptTitle}>
+            第{index + 1}次 · {formatTime(new Date(attempt.startedAt))} · {attempt.duration}ms · {attempt.status ?? attempt.error}
+          </Text>
+          <Text style={styles.detailLabel}>请求头</Text>
+          <Text style={styles.detailText} selectable>{JSON.stringify(attempt.requestHeaders, null, 2)}</Text>
+          {attempt.requestBody !== undefined && (
+            <>
+              <Text style={styles.detailLabel}>请求体</Text>
+              <Text style={styles.detailText} selectable>{attempt.requestBody}</Text>
+            </>
+          )}
+          {attempt.responseHeaders && (
+            <>
+              <Text style={styles.detailLabel}>响应头</Text>
+              <Text style={styles.detailText} selectable>{JSON.stringify(attempt.responseHeaders, null, 2)}</Text>
+            </>
+          )}
+          {attempt.responseBody !== undefined && (
+            <>
+              <Text style={styles.detailLabel}>响应体</Text>
+              <Text style={styles.detailText} selectable>{attempt.responseBody}</Text>
+            </>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderFrameDetail = (record: WebSocketFrameRecord) => (
+    <View style={styles.detail}>
+      <Text style={styles.detailText}>{record.transport} · {record.url}</Text>
+      <Text style={styles.detailText} selectable>{record.data}</Text>
+    </View>
+  );
+
+  const renderHttpRecord = (record: HttpRecord) => {
+    const pending = record.duration === undefined;
+    const failed = isFailed(record);
+
+    return (
+      <>
+        <View style={styles.recordHeader}>
+          <Text style={styles.method}>{record.method}</Text>
+          <Text style={styles.recordTitle} numberOfLines={1}>{shortenUrl(record.url)}</Text>
+          <Text style={[styles.status, failed && styles.errorText]}>
+            {pending ? '…' : record.status ?? record.error?.code}
+          </Text>
+        </View>
+        <Text style={styles.recordMeta}>
+          {formatTime(new Date(record.startedAt))}
+          {!pending && ` · ${record.duration}ms`}
+          {record.attempts.length > 1 && ` · 重试${record.attempts.length - 1}次`}
+        </Text>
+      </>
+    );
+  };
+
+  const renderFrameRecord = (record: WebSocketFrameRecord) => (
+    <>
+      <View style={styles.recordHeader}>
+        <Ionicons
+          name={record.direction === 'sent' ? 'arrow-up' : 'arrow-down'}
+          size={14}
+          color={record.direction === 'sent' ? '#007AFF' : '#34C759'}
+        />
+        <Text style={styles.recordTitle} numberOfLines={1}>{record.event || '(无法解析)'}</Text>
+        <Text style={styles.status}>{formatFileSize(record.size)}</Text>
+      </View>
+      <Text style={styles.recordMeta}>{formatTime(new Date(record.timestamp))} · {record.transport}</Text>
+    </>
+  );
+
+  const renderRecord = ({ item }: { item: NetworkRecord }) => {
+    const expanded = expandedId === item.id;
+
+    return (
+      <TouchableOpacity style={styles.record} onPress={() => setExpandedId(expanded ? null : item.id)}>
+        {item.type === 'http' ? renderHttpRecord(item) : renderFrameRecord(item)}
+        {expanded && (item.type === 'http' ? renderHttpDetail(item) : renderFrameDetail(item))}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons name="pulse-outline" size={64} color="#C7C7CC" />
+      <Text style={styles.emptyText}>{enabled ? '暂无网络记录' : '开启记录后可查看网络请求'}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* 记录开关和操作 */}
+      <View style={styles.toolbar}>
+        <Text style={styles.toolbarLabel}>记录网络请求</Text>
+        <Switch value={enabled} onValueChange={handleToggle} />
+        <TouchableOpacity style={styles.toolbarButton} onPress={handleClear}>
+          <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.toolbarButton} onPress={handleExport}>
+          <Ionicons name="share-outline" size={20} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      {/* 筛选 */}
+      <View style={styles.filters}>
+        <TextInput
+          style={styles.searchInput}
+          value={keyword}
+          onChangeText={setKeyword}
+          placeholder="按URL、状态码或事件筛选"
+          autoCapitalize="none"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+        <View style={styles.chips}>
+          {TYPE_FILTERS.map(filter => (
+            <TouchableOpacity
+              key={filter.value}
+              style={[styles.chip, typeFilter === filter.value && styles.chipActive]}
+              onPress={() => setTypeFilter(filter.value)}
+            >
+              <Text style={[styles.chipText, typeFilter === filter.value && styles.chipTextActive]}>
+                {filter.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {STATUS_FILTERS.map(filter => (
+            <TouchableOpacity
+              key={filter.value}
+              style={[styles.chip, statusFilter === filter.value && styles.chipActive]}
+              onPress={() => setStatusFilter(filter.value)}
+            >
+              <Text style={[styles.chipText, statusFilter === filter.value && styles.chipTextActive]}>
+                {filter.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <FlatList
+        data={visibleRecords}
+        renderItem={renderRecord}
+        keyExtractor={item => item.id}
+        extraData={expandedId}
+        ListEmptyComponent={renderEmptyState}
+        contentContainerStyle={visibleRecords.length === 0 && styles.emptyContainer}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  toolbarLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+  },
+  toolbarButton: {
+    marginLeft: 16,
+    padding: 4,
+  },
+  filters: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  searchInput: {
+    height: 36,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+    paddingHorizontal: 12,
+    fontSize: 14,
+    color: '#333',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 8,
+    marginBottom: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#C7C7CC',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  record: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  recordHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  method: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#007AFF',
+    width: 56,
+  },
+  recordTitle: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginHorizontal: 4,
+  },
+  status: {
+    fontSize: 13,
+    color: '#34C759',
+  },
+  recordMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  detail: {
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#E5E5EA',
+  },
+  attempt: {
+    marginTop: 8,
+  },
+  attemptTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detailLabel: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 6,
+  },
+  detailText: {
+    fontSize: 12,
+    color: '#333',
+    fontFamily: 'Courier',
+  },
+  errorText: {
+    color: '#FF3B30',
+  },
+  emptyContainer: {
+    flex: 1,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 100,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#8E8E93',
+    marginTop: 16,
+  },
+});
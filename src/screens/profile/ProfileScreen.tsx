@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -7,18 +7,49 @@ import {
   TouchableOpacity,
   Alert,
 } from 'react-native';
-import { useRoute, RouteProp, useNavigation } from '@react-navigation/native';
+import { useRoute, RouteProp, useNavigation, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { Ionicons } from '@expo/vector-icons';
 import { RootStackParamList } from '@/types';
 import { useApp } from '@/store';
+import { offlineFirstSyncService, SyncEvent, accountService, AccountProfile } from '@/services';
 
 type ProfileScreenRouteProp = RouteProp<RootStackParamList, 'Profile'>;
+type ProfileScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Profile'>;
+
+// 连续点击版本号的次数和间隔，用于打开隐藏的网络调试页面
+const DEVELOPER_TAP_COUNT = 7;
+const DEVELOPER_TAP_INTERVAL = 500;
 
 export default function ProfileScreen() {
   const route = useRoute<ProfileScreenRouteProp>();
-  const navigation = useNavigation();
-  const { state, dispatch } = useApp();
+  const navigation = useNavigation<ProfileScreenNavigationProp>();
+  const { state, logout, switchAccount } = useApp();
   const { userId } = route.params;
+  const [conflictCount, setConflictCount] = useState(0);
+  const [accounts, setAccounts] = useState<AccountProfile[]>([]);
+  const versionTaps = useRef({ count: 0, lastTap: 0 });
+
+  // 同步冲突数量，用于显示角标
+  const refreshConflictCount = useCallback(() => {
+    setConflictCount(offlineFirstSyncService.getSyncState().conflictCount);
+  }, []);
+
+  useFocusEffect(refreshConflictCount);
+
+  useFocusEffect(useCallback(() => {
+    setAccounts(accountService.getAccounts());
+  }, [state.currentUser]));
+
+  useEffect(() => {
+    const unsubscribeDetected = offlineFirstSyncService.addEventListener(SyncEvent.CONFLICT_DETECTED, refreshConflictCount);
+    const unsubscribeResolved = offlineFirstSyncService.addEventListener(SyncEvent.CONFLICT_RESOLVED, refreshConflictCount);
+
+    return () => {
+      unsubscribeDetected();
+      unsubscribeResolved();
+    };
+  }, [refreshConflictCount]);
 
   // 获取用户信息（这里简化为当前用户）
   const user = state.currentUser;
@@ -35,6 +66,50 @@ export default function ProfileScreen() {
     Alert.alert('提示', '设置功能开发中');
   };
 
+  const handleConflicts = () => {
+    navigation.navigate('Conflicts');
+  };
+
+  const handleSwitchAccount = (account: AccountProfile) => {
+    if (account.id === accountService.getActiveAccount()?.id) return;
+
+    Alert.alert(
+      '切换账户',
+      `确定要切换到 ${account.name} 吗？`,
+      [
+        { text: '取消', style: 'cancel' },
+        {
+          text: '切换',
+          onPress: async () => {
+            // 不保留上一个账户打开的页面
+            navigation.popToTop();
+            try {
+              await switchAccount(account.id);
+            } catch (error: any) {
+              Alert.alert('切换失败', error.message || '请稍后重试');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleAddAccount = () => {
+    navigation.navigate('AddAccount');
+  };
+
+  const handleVersionPress = () => {
+    const now = Date.now();
+    const taps = versionTaps.current;
+    taps.count = now - taps.lastTap < DEVELOPER_TAP_INTERVAL ? taps.count + 1 : 1;
+    taps.lastTap = now;
+
+    if (taps.count >= DEVELOPER_TAP_COUNT) {
+      taps.count = 0;
+      navigation.navigate('NetworkInspector');
+    }
+  };
+
   const handleLogout = () => {
     Alert.alert(
       '确认退出',
@@ -45,8 +120,8 @@ export default function ProfileScreen() {
           text: '退出',
           style: 'destructive',
           onPress: () => {
-            dispatch({ type: 'LOGOUT' });
             navigation.goBack();
+            logout();
           },
         },
       ]
@@ -166,6 +241,49 @@ export default function ProfileScreen() {
           <Text style={styles.actionText}>应用设置</Text>
           <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
         </TouchableOpacity>
+
+        <TouchableOpacity style={styles.actionItem} onPress={handleConflicts}>
+          <Ionicons name="git-compare-outline" size={20} color="#007AFF" />
+          <Text style={styles.actionText}>同步冲突</Text>
+          {conflictCount > 0 && (
+            <View style={styles.badge}>
+              <Text style={styles.badgeText}>
+                {conflictCount > 99 ? '99+' : conflictCount}
+              </Text>
+            </View>
+          )}
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+      </View>
+
+      {/* 多账户 */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>切换账户</Text>
+
+        {accounts.map(account => {
+          const isActive = account.id === accountService.getActiveAccount()?.id;
+          return (
+            <TouchableOpacity
+              key={account.id}
+              style={styles.actionItem}
+              onPress={() => handleSwitchAccount(account)}
+              disabled={isActive}
+            >
+              <Ionicons name="person-circle-outline" size={20} color="#007AFF" />
+              <View style={styles.accountInfo}>
+                <Text style={styles.accountName}>{account.name}</Text>
+                <Text style={styles.accountEmail}>{account.email}</Text>
+              </View>
+              {isActive && <Ionicons name="checkmark" size={20} color="#34C759" />}
+            </TouchableOpacity>
+          );
+        })}
+
+        <TouchableOpacity style={styles.actionItem} onPress={handleAddAccount}>
+          <Ionicons name="add-circle-outline" size={20} color="#007AFF" />
+          <Text style={styles.actionText}>添加账户</Text>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
       </View>
 
       {/* 退出登录 */}
@@ -178,7 +296,9 @@ export default function ProfileScreen() {
 
       {/* 版本信息 */}
       <View style={styles.footer}>
-        <Text style={styles.versionText}>小象聊天 v1.0.0</Text>
+        <Text style={styles.versionText} onPress={handleVersionPress} suppressHighlighting>
+          小象聊天 v1.0.0
+        </Text>
       </View>
     </ScrollView>
   );
@@ -297,6 +417,34 @@ const styles = StyleSheet.create({
     color: '#333',
     marginLeft: 12,
   },
+  accountInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  accountName: {
+    fontSize: 16,
+    color: '#333',
+  },
+  accountEmail: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  badge: {
+    backgroundColor: '#FF3B30',
+    borderRadius: 10,
+    minWidth: 20,
+    height: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 6,
+    marginRight: 8,
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   logoutButton: {
     flexDirection: 'row',
     alignItems: 'center',
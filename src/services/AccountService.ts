@@ -0,0 +1,281 @@
+import { UserProfile } from '@/types/api';
+import { StorageService } from './StorageService';
+import { SecureStorageService } from './SecureStorageService';
+import { DatabaseService } from './DatabaseService';
+import { JWTAuthService } from './JWTAuthService';
+import { WebSocketService, WebSocketState } from './WebSocketService';
+import { OfflineFirstSyncService } from './OfflineFirstSyncService';
+import { DownloadManager, DEFAULT_ATTACHMENT_DIRECTORY } from './DownloadManager';
+import { FileUploadService } from './FileUploadService';
+import { ResponseCache } from './ResponseCache';
+import { APP_CONFIG, STORAGE_KEYS } from '@/utils/Constants';
+import { logger } from '@/utils';
+
+// 未登录时使用的数据库和附件目录。迁移自旧版本的账户沿用默认位置，未登录状态不能再打开它们；
+// 账户的位置以"_"加用户ID结尾，这里用"."避免与任何账户重名
+const SIGNED_OUT_DATABASE_NAME = APP_CONFIG.DATABASE_NAME.replace(/\.db$/, '.signed_out.db');
+const SIGNED_OUT_ATTACHMENT_DIRECTORY = `${DEFAULT_ATTACHMENT_DIRECTORY}.signed_out`;
+
+// 设备上登录过的账户，每个账户有独立的存储命名空间、数据库文件、附件目录和tokens
+export interface AccountProfile {
+  id: string; // 服务器上的用户ID，同时作为存储命名空间
+  email: string;
+  name: string;
+  avatar?: string;
+  databaseName: string;
+  attachmentDirectory: string;
+  lastActiveAt: number;
+  signedOut?: boolean; // 已退出的账户保留存储位置，再次登录时继续使用
+}
+
+// 切换账户前正在运行的服务，切换完成后恢复
+interface SuspendedServices {
+  websocket: boolean;
+  sync: boolean;
+}
+
+// 账户管理：保存账户列表并在账户之间切换。切换时先停止属于旧账户的连接和后台任务，
+// 再切换存储命名空间、数据库和tokens，最后用新账户的身份恢复这些服务
+export class AccountService {
+  private static instance: AccountService;
+  private storageService: StorageService;
+  private secureStorageService: SecureStorageService;
+  private dbService: DatabaseService;
+  private authService: JWTAuthService;
+  private webSocketService: WebSocketService;
+  private syncService: OfflineFirstSyncService;
+  private downloadManager: DownloadManager;
+  private fileUploadService: FileUploadService;
+  private accounts: AccountProfile[] = [];
+  private activeAccountId: string | null = null;
+  private suspended: SuspendedServices | null = null;
+  private switching: Promise<void> = Promise.resolve();
+
+  private constructor() {
+    this.storageService = StorageService.getInstance();
+    this.secureStorageService = SecureStorageService.getInstance();
+    this.dbService = DatabaseService.getInstance();
+    this.authService = JWTAuthService.getInstance();
+    this.webSocketService = WebSocketService.getInstance();
+    this.syncService = OfflineFirstSyncService.getInstance();
+    this.downloadManager = DownloadManager.getInstance();
+    this.fileUploadService = FileUploadService.getInstance();
+  }
+
+  public static getInstance(): AccountService {
+    if (!AccountService.instance) {
+      AccountService.instance = new AccountService();
+    }
+    return AccountService.instance;
+  }
+
+  // 恢复上次使用的账户并打开它的数据库；没有账户时使用未登录状态的数据库
+  public async initialize(): Promise<void> {
+    try {
+      this.accounts = await this.storageService.getItem<AccountProfile[]>(STORAGE_KEYS.ACCOUNTS) || [];
+      this.activeAccountId = await this.storageService.getItem<string>(STORAGE_KEYS.ACTIVE_ACCOUNT_ID);
+
+      if (this.accounts.length === 0) {
+        await this.migrateLegacyAccount();
+      }
+
+      await this.openAccount(this.getActiveAccount());
+      logger.info('AccountService', `Initialized with ${this.accounts.length} accounts`, {
+        activeAccountId: this.activeAccountId,
+      });
+    } catch (error) {
+      logger.error('AccountService', 'Failed to initialize accounts', error);
+      throw error;
+    }
+  }
+
+  // 已登录的账户，按最近使用时间排序
+  public getAccounts(): AccountProfile[] {
+    return this.accounts
+      .filter(account => !account.signedOut)
+      .sort((a, b) => b.lastActiveAt - a.lastActiveAt);
+  }
+
+  public getActiveAccount(): AccountProfile | null {
+    return this.accounts.find(account => account.id === this.activeAccountId) || null;
+  }
+
+  // 登录成功、保存tokens之前调用：切换到该用户的账户，首次登录的用户创建新账户。
+  // 登录完成后需调用resumeServices恢复切换前运行的服务
+  public async activateAccount(user: UserProfile): Promise<AccountProfile> {
+    const existing = this.accounts.find(account => account.id === user.id);
+    const account: AccountProfile = {
+      ...(existing || this.createAccount(user.id)),
+      email: user.email,
+      name: user.name,
+      avatar: user.avatar,
+      signedOut: false,
+    };
+
+    await this.switchTo(account);
+    return account;
+  }
+
+  // 切换到已登录过的账户，该账户的tokens仍有效时恢复WebSocket连接和同步
+  public async switchAccount(accountId: string): Promise<AccountProfile> {
+    const account = this.accounts.find(item => item.id === accountId && !item.signedOut);
+    if (!account) {
+      throw new Error(`Account not found: ${accountId}`);
+    }
+
+    await this.switchTo(account);
+    await this.resumeServices();
+    return account;
+  }
+
+  // 用当前账户的身份重新启动切换前运行的服务；未认证时等到登录后再调用
+  public async resumeServices(): Promise<void> {
+    const suspended = this.suspended;
+    if (!suspended || !this.authService.isAuthenticated()) {
+      return;
+    }
+
+    this.suspended = null;
+    if (suspended.sync) {
+      await this.syncService.initialize();
+    }
+    if (suspended.websocket) {
+      await this.webSocketService.connect();
+    }
+  }
+
+  // 退出当前账户并回到未登录状态。账户从列表中隐藏但保留存储位置，
+  // 数据留在该账户的存储和数据库中，再次登录时恢复
+  public signOut(): Promise<void> {
+    return this.enqueue(() => this.performSignOut());
+  }
+
+  private switchTo(account: AccountProfile): Promise<void> {
+    return this.enqueue(() => this.performSwitch(account));
+  }
+
+  // 切换和退出按调用顺序依次执行
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.switching.then(task);
+    this.switching = run.catch(() => undefined);
+    return run;
+  }
+
+  private async performSignOut(): Promise<void> {
+    const accountId = this.activeAccountId;
+    if (!accountId) {
+      return;
+    }
+
+    logger.info('AccountService', `Signing out account ${accountId}`);
+    this.accounts = this.accounts.map(account =>
+      account.id === accountId ? { ...account, signedOut: true } : account
+    );
+
+    // 停止的服务在下次登录或切换账户后由resumeServices恢复
+    await this.suspendServices();
+    this.authService.reset();
+    ResponseCache.getInstance().reset();
+
+    await this.openAccount(null);
+    this.activeAccountId = null;
+    await this.saveAccounts();
+  }
+
+  private async performSwitch(account: AccountProfile): Promise<void> {
+    const updated: AccountProfile = { ...account, lastActiveAt: Date.now() };
+    this.accounts = [...this.accounts.filter(item => item.id !== account.id), updated];
+
+    if (account.id === this.activeAccountId) {
+      await this.saveAccounts();
+      return;
+    }
+
+    logger.info('AccountService', `Switching account: ${this.activeAccountId} -> ${account.id}`);
+
+    // 先停止仍以旧账户身份运行的服务，避免它们把数据写入新账户
+    await this.suspendServices();
+    this.authService.reset();
+    ResponseCache.getInstance().reset();
+
+    await this.openAccount(updated);
+    this.activeAccountId = account.id;
+    await this.saveAccounts();
+
+    // 加载新账户保存的tokens
+    await this.authService.initialize();
+    logger.info('AccountService', `Switched to account ${account.id}`);
+  }
+
+  private async suspendServices(): Promise<void> {
+    this.suspended = {
+      websocket: !!this.suspended?.websocket || this.webSocketService.getState() !== WebSocketState.DISCONNECTED,
+      sync: !!this.suspended?.sync || this.syncService.isRunning(),
+    };
+
+    await this.webSocketService.resetAccountState();
+    this.fileUploadService.cancelAll();
+    await this.syncService.stop();
+  }
+
+  // 将存储、安全存储、附件目录和数据库切换到指定账户；null为未登录任何账户
+  private async openAccount(account: AccountProfile | null): Promise<void> {
+    const accountId = account ? account.id : null;
+    this.storageService.setNamespace(accountId);
+    this.secureStorageService.setAccount(accountId);
+    await this.downloadManager.setDirectory(account ? account.attachmentDirectory : SIGNED_OUT_ATTACHMENT_DIRECTORY);
+    await this.dbService.initialize(account ? account.databaseName : SIGNED_OUT_DATABASE_NAME);
+  }
+
+  private createAccount(userId: string): AccountProfile {
+    const suffix = userId.replace(/[^\w.-]/g, '_');
+    return {
+      id: userId,
+      email: '',
+      name: userId,
+      databaseName: APP_CONFIG.DATABASE_NAME.replace(/\.db$/, `_${suffix}.db`),
+      attachmentDirectory: `${DEFAULT_ATTACHMENT_DIRECTORY}_${suffix}`,
+      lastActiveAt: Date.now(),
+    };
+  }
+
+  // 支持多账户之前的数据（无前缀的存储键、默认数据库、附件目录和auth_tokens）归入当时登录的用户
+  private async migrateLegacyAccount(): Promise<void> {
+    const userId = await this.storageService.getCurrentUserId();
+    if (!userId) {
+      return;
+    }
+
+    await this.dbService.initialize(APP_CONFIG.DATABASE_NAME);
+    const user = await this.dbService.getUser(userId);
+
+    await this.storageService.adoptLegacyData(userId);
+    await this.secureStorageService.adoptLegacyAuthTokens(userId);
+
+    this.accounts = [{
+      id: userId,
+      email: user?.email || '',
+      name: user?.name || userId,
+      avatar: user?.avatar,
+      databaseName: APP_CONFIG.DATABASE_NAME,
+      attachmentDirectory: DEFAULT_ATTACHMENT_DIRECTORY,
+      lastActiveAt: Date.now(),
+    }];
+    this.activeAccountId = userId;
+    await this.saveAccounts();
+
+    logger.info('AccountService', `Migrated legacy data to account ${userId}`);
+  }
+
+  private async saveAccounts(): Promise<void> {
+    await this.storageService.setItem(STORAGE_KEYS.ACCOUNTS, this.accounts);
+    if (this.activeAccountId) {
+      await this.storageService.setItem(STORAGE_KEYS.ACTIVE_ACCOUNT_ID, this.activeAccountId);
+    } else {
+      await this.storageService.removeItem(STORAGE_KEYS.ACTIVE_ACCOUNT_ID);
+    }
+  }
+}
+
+// 创建默认实例
+export const accountService = AccountService.getInstance();
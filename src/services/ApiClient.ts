@@ -5,7 +5,18 @@ import {
   RequestOptions,
   HttpMethod,
   RequestConfig,
+  UploadConfig,
+  CacheConfig,
+  CacheItem,
+  CacheMetadata,
+  CacheValidators,
+  ResponseSource,
 } from '@/types/api';
+import { ResponseCache, CacheSetOptions } from './ResponseCache';
+import { CircuitBreaker, CircuitBreakerRegistry } from './CircuitBreaker';
+import { HttpTransport, TransportRequest, TransportResponse, getDefaultTransport } from './HttpTransport';
+import { NetworkRecorder } from './NetworkRecorder';
+import { RequestBatcher, BATCH_PATH } from './RequestBatcher';
 import { logger } from '@/utils';
 import { ENV_CONFIG } from '@/utils/Environment';
 
@@ -16,6 +27,12 @@ export interface ApiClientConfig {
   maxRetries: number;
   retryDelay: number;
   retryCondition: (error: any) => boolean;
+  circuitBreaker: boolean; // 是否按主机熔断
+  maxRetryAfter: number; // Retry-After超过该时间（毫秒）时不在本次请求内等待重试
+  transport?: HttpTransport; // 不指定时使用默认传输（见setDefaultTransport）
+  batching: boolean; // 是否将batchWindow内的请求合并为一个POST /batch
+  batchWindow: number; // 毫秒
+  maxBatchSize: number;
   onRequest?: (config: RequestOptions) => Promise<RequestOptions>;
   onResponse?: (response: any) => Promise<any>;
   onError?: (error: ApiError) => Promise<void>;
@@ -26,6 +43,17 @@ export type RequestInterceptor = (config: RequestOptions) => Promise<RequestOpti
 export type ResponseInterceptor = (response: any) => Promise<any>;
 export type ErrorInterceptor = (error: ApiError) => Promise<ApiError>;
 
+const DEFAULT_CACHE_TTL = 300; // 秒
+// 条件请求使用的请求头，重新请求完整响应时需去掉
+const VALIDATOR_HEADERS = ['if-none-match', 'if-modified-since'];
+
+// 进行中的GET请求，相同请求的调用方共享；所有调用方都取消后才真正中止
+interface InflightRequest {
+  promise: Promise<ApiResponse<any>>;
+  controller: AbortController;
+  subscribers: number;
+}
+
 // 默认配置
 const DEFAULT_CONFIG: ApiClientConfig = {
   baseURL: ENV_CONFIG.apiBaseUrl,
@@ -33,14 +61,20 @@ const DEFAULT_CONFIG: ApiClientConfig = {
   maxRetries: 3,
   retryDelay: 1000,
   retryCondition: (error: any) => {
-    // 只对网络错误和5xx错误重试
+    // 只对网络错误、5xx错误和429重试
     return (
       !error.response ||
       (error.response.status >= 500 && error.response.status < 600) ||
+      error.response.status === 429 ||
       error.code === 'NETWORK_ERROR' ||
       error.code === 'TIMEOUT'
     );
   },
+  circuitBreaker: true,
+  maxRetryAfter: 30000,
+  batching: false,
+  batchWindow: 10,
+  maxBatchSize: 20,
 };
 
 export class ApiClient {
@@ -48,9 +82,25 @@ export class ApiClient {
   private requestInterceptors: RequestInterceptor[] = [];
   private responseInterceptors: ResponseInterceptor[] = [];
   private errorInterceptors: ErrorInterceptor[] = [];
+  private responseCache: ResponseCache;
+  private inflight: Map<string, InflightRequest> = new Map();
+  private breakers: CircuitBreakerRegistry;
+  private recorder: NetworkRecorder;
+  private batcher: RequestBatcher;
 
   constructor(config: Partial<ApiClientConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.responseCache = ResponseCache.getInstance();
+    this.breakers = CircuitBreakerRegistry.getInstance();
+    this.recorder = NetworkRecorder.getInstance();
+    this.batcher = new RequestBatcher(
+      () => ({
+        baseURL: this.config.baseURL,
+        window: this.config.batchWindow,
+        maxBatchSize: this.config.maxBatchSize,
+      }),
+      () => this.getTransport()
+    );
   }
 
   // 添加请求拦截器
@@ -84,7 +134,25 @@ export class ApiClient {
       },
     };
 
+    const breaker = this.getCircuitBreaker(requestConfig.url);
+    const recordId = this.recorder.beginRequest(
+      requestConfig.method,
+      this.buildUrl(requestConfig.url, requestConfig.params)
+    );
+
     while (attempt <= this.config.maxRetries) {
+      if (requestConfig.signal?.aborted) {
+        lastError = this.createCancelledError();
+        break;
+      }
+
+      // 熔断中直接失败，不再请求
+      const permit = breaker ? breaker.acquire() : { allowed: true as const };
+      if (!permit.allowed) {
+        lastError = this.createCircuitOpenError(breaker!.host, permit.retryAt);
+        break;
+      }
+
       try {
         // 应用请求拦截器
         let processedConfig = requestConfig;
@@ -99,7 +167,8 @@ export class ApiClient {
         });
 
         // 发送HTTP请求
-        const response = await this.performRequest(processedConfig);
+        const response = await this.performRequest(processedConfig, recordId);
+        breaker?.recordSuccess();
 
         // 应用响应拦截器
         let processedResponse = response;
@@ -116,11 +185,43 @@ export class ApiClient {
           attempts: attempt + 1,
         });
 
-        return this.parseResponse<T>(processedResponse);
+        // 304：内容未变化，由调用方使用本地保存的响应
+        if (processedResponse.status === 304) {
+          this.recorder.finishRequest(recordId, { status: 304 });
+          return {
+            success: true,
+            cacheInfo: { source: 'not_modified', validators: this.readValidators(processedResponse.headers) },
+          };
+        }
+
+        const parsed = this.parseResponse<T>(processedResponse);
+        const validators = this.readValidators(processedResponse.headers);
+        if (validators) {
+          parsed.cacheInfo = { source: 'network', validators };
+        }
+
+        // 写操作成功后清除相关缓存
+        if (options.invalidates && options.invalidates.length > 0) {
+          await this.responseCache.invalidateTags(options.invalidates).catch(cacheError => {
+            logger.warn('ApiClient', 'Failed to invalidate cache', cacheError);
+          });
+        }
+
+        this.recorder.finishRequest(recordId, { status: processedResponse.status });
+        return parsed;
       } catch (error: any) {
         lastError = error;
         attempt++;
 
+        const retryAfter = this.getRetryAfter(error);
+        if (breaker) {
+          if (this.isServerFailure(error)) {
+            breaker.recordFailure(retryAfter);
+          } else {
+            breaker.release();
+          }
+        }
+
         const duration = Date.now() - startTime;
         logger.warn('ApiClient', `Request attempt ${attempt} failed`, {
           method: requestConfig.method,
@@ -129,11 +230,21 @@ export class ApiClient {
           duration,
         });
 
-        // 检查是否需要重试
+        // 调用方已取消，不再重试
+        if (requestConfig.signal?.aborted) {
+          break;
+        }
+
+        // 服务器要求等待的时间过长时不在本次请求内重试
+        if (retryAfter !== undefined && retryAfter > this.config.maxRetryAfter) {
+          break;
+        }
+
+        // 检查是否需要重试，优先使用服务器给出的Retry-After
         if (attempt <= this.config.maxRetries && this.config.retryCondition(error)) {
-          const delay = this.calculateRetryDelay(attempt);
+          const delay = retryAfter ?? this.calculateRetryDelay(attempt);
           logger.info('ApiClient', `Retrying in ${delay}ms`, { attempt, delay });
-          await this.sleep(delay);
+          await this.sleep(delay, requestConfig.signal);
           continue;
         }
 
@@ -151,6 +262,8 @@ export class ApiClient {
       processedError = await interceptor(processedError);
     }
 
+    this.recorder.finishRequest(recordId, { error: processedError });
+
     // 调用错误处理回调
     if (this.config.onError) {
       await this.config.onError(processedError);
@@ -159,13 +272,234 @@ export class ApiClient {
     throw processedError;
   }
 
-  // GET请求
+  // GET请求，指定config.cache时使用缓存；响应带有验证器时自动发送条件请求
   public async get<T = any>(url: string, config: RequestConfig = {}): Promise<ApiResponse<T>> {
-    return this.request<T>({
+    const key = this.getCacheKey(url, config);
+
+    if (config.cache) {
+      return this.cachedGet<T>(key, url, config, config.cache);
+    }
+
+    return this.fetchAndStore<T>(key, url, config);
+  }
+
+  // 手动清除带有这些标签的缓存
+  public async invalidateCache(tags: string[]): Promise<void> {
+    await this.responseCache.invalidateTags(tags);
+  }
+
+  // 查询GET请求的缓存状态和验证器
+  public async getCacheMetadata(url: string, config: RequestConfig = {}): Promise<CacheMetadata | null> {
+    const key = this.getCacheKey(url, config);
+    const item = await this.responseCache.get(key);
+    if (!item) {
+      return null;
+    }
+
+    return {
+      key,
+      cachedAt: item.timestamp,
+      ttl: item.ttl,
+      tags: item.tags,
+      validators: item.validators,
+      isFresh: this.responseCache.isFresh(item),
+    };
+  }
+
+  // 有效期内直接返回缓存；过期但在staleWhileRevalidate内时返回旧数据并在后台刷新
+  private async cachedGet<T>(
+    key: string,
+    url: string,
+    config: RequestConfig,
+    cache: CacheConfig
+  ): Promise<ApiResponse<T>> {
+    const item = await this.responseCache.get<ApiResponse<T>>(key);
+
+    if (item) {
+      if (this.responseCache.isFresh(item)) {
+        logger.debug('ApiClient', 'Cache hit', { key });
+        return this.fromCache(item, 'cache');
+      }
+
+      const staleFor = Date.now() - item.timestamp - item.ttl * 1000;
+      if (cache.staleWhileRevalidate && staleFor < cache.staleWhileRevalidate * 1000) {
+        logger.debug('ApiClient', 'Serving stale cache while revalidating', { key });
+        this.fetchAndStore<T>(key, url, config).catch(error => {
+          logger.warn('ApiClient', 'Background revalidation failed', { key, error });
+        });
+        return this.fromCache(item, 'cache');
+      }
+    }
+
+    return this.fetchAndStore<T>(key, url, config);
+  }
+
+  // 请求并更新缓存，相同的并发GET只发出一个请求。
+  // 已有验证器时发送条件请求，304时沿用本地保存的响应
+  private fetchAndStore<T>(key: string, url: string, config: RequestConfig): Promise<ApiResponse<T>> {
+    const { signal, ...sharedConfig } = config;
+    const inflightKey = this.getInflightKey(url, sharedConfig);
+
+    let entry = this.inflight.get(inflightKey);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InflightRequest = {
+        controller,
+        subscribers: 0,
+        promise: this.performConditionalGet<T>(key, url, { ...sharedConfig, signal: controller.signal })
+          .finally(() => {
+            if (this.inflight.get(inflightKey) === created) {
+              this.inflight.delete(inflightKey);
+            }
+          }),
+      };
+      entry = created;
+      this.inflight.set(inflightKey, entry);
+    } else {
+      logger.debug('ApiClient', 'Joining in-flight request', { key });
+    }
+
+    return this.subscribe<T>(entry, signal);
+  }
+
+  // 调用方的signal只取消自己的等待，最后一个调用方取消时中止共享的请求
+  private subscribe<T>(entry: InflightRequest, signal?: AbortSignal): Promise<ApiResponse<T>> {
+    if (signal?.aborted) {
+      return Promise.reject(this.createCancelledError());
+    }
+
+    entry.subscribers++;
+    if (!signal) {
+      return entry.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        entry.subscribers--;
+        if (entry.subscribers === 0) {
+          entry.controller.abort();
+        }
+        reject(this.createCancelledError());
+      };
+
+      signal.addEventListener('abort', onAbort);
+      entry.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  // conditional为false时不带验证器请求完整响应
+  private async performConditionalGet<T>(
+    key: string,
+    url: string,
+    config: RequestConfig,
+    conditional: boolean = true
+  ): Promise<ApiResponse<T>> {
+    const { cache, ...requestConfig } = config;
+    // 响应返回前切换了账户时不写入新账户的缓存
+    const generation = this.responseCache.getGeneration();
+    const stored = conditional ? await this.responseCache.get<ApiResponse<T>>(key) : null;
+    const validators = stored?.validators;
+
+    const headers: Record<string, string> = { ...requestConfig.headers };
+    if (!conditional) {
+      Object.keys(headers)
+        .filter(name => VALIDATOR_HEADERS.includes(name.toLowerCase()))
+        .forEach(name => delete headers[name]);
+    }
+    if (validators?.etag) {
+      headers['If-None-Match'] = validators.etag;
+    }
+    if (validators?.lastModified) {
+      headers['If-Modified-Since'] = validators.lastModified;
+    }
+
+    const response = await this.request<T>({
       method: HttpMethod.GET,
       url,
-      ...config,
+      ...requestConfig,
+      headers,
     });
+
+    const ttl = cache?.ttl ?? (cache ? DEFAULT_CACHE_TTL : 0);
+    const tags = cache?.tags;
+
+    if (response.cacheInfo?.source === 'not_modified') {
+      if (!stored) {
+        // 本地没有可用的缓存（如已被淘汰或重置），不带验证器重新请求一次
+        if (conditional) {
+          logger.debug('ApiClient', 'Not modified without a cached response, refetching', { key });
+          return this.performConditionalGet<T>(key, url, config, false);
+        }
+        throw this.createUnexpectedNotModifiedError();
+      }
+
+      logger.debug('ApiClient', 'Not modified, using cached response', { key });
+      const refreshed = await this.storeResponse(key, stored.data, {
+        ttl,
+        tags: tags ?? stored.tags,
+        validators: response.cacheInfo.validators || validators,
+        generation,
+      });
+      return this.fromCache(refreshed, 'not_modified');
+    }
+
+    // 开启缓存，或响应带有验证器可用于下次条件请求时保存
+    const responseValidators = response.cacheInfo?.validators;
+    if (cache || responseValidators) {
+      await this.storeResponse(key, response, { ttl, tags, validators: responseValidators, generation });
+    }
+
+    return response;
+  }
+
+  private async storeResponse<T>(
+    key: string,
+    response: ApiResponse<T>,
+    options: CacheSetOptions
+  ): Promise<CacheItem<ApiResponse<T>>> {
+    const { cacheInfo, ...data } = response;
+    await this.responseCache.set(key, data, options);
+    return {
+      data,
+      timestamp: Date.now(),
+      ttl: options.ttl,
+      tags: options.tags || [],
+      validators: options.validators,
+    };
+  }
+
+  private fromCache<T>(item: CacheItem<ApiResponse<T>>, source: ResponseSource): ApiResponse<T> {
+    return {
+      ...item.data,
+      cacheInfo: {
+        source,
+        cachedAt: item.timestamp,
+        validators: item.validators,
+      },
+    };
+  }
+
+  private getCacheKey(url: string, config: RequestConfig): string {
+    return config.cache?.key || this.buildUrl(url, config.params);
+  }
+
+  // 只有地址、请求头、缓存配置和重试设置都相同的并发GET才共享请求
+  private getInflightKey(url: string, config: RequestConfig): string {
+    const headers = Object.entries(config.headers || {})
+      .map(([name, value]) => [name.toLowerCase(), value])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const { cache } = config;
+
+    return JSON.stringify([
+      this.buildUrl(url, config.params),
+      headers,
+      cache ? [cache.key, cache.ttl, cache.tags && [...cache.tags].sort(), cache.staleWhileRevalidate] : null,
+      config.timeout ?? null,
+      config.retries ?? null,
+      config.retryDelay ?? null,
+    ]);
   }
 
   // POST请求
@@ -219,47 +553,151 @@ export class ApiClient {
     });
   }
 
-  // 执行实际的HTTP请求
-  private async performRequest(config: RequestOptions): Promise<any> {
-    const { method, url, data, headers, timeout, params } = config;
-    const fullUrl = this.buildUrl(url, params);
-
-    // 创建AbortController用于超时控制
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+  // 上传multipart表单或二进制数据，通过XMLHttpRequest报告上传进度。
+  // 不自动重试，失败后由调用方决定从哪里续传
+  public async upload<T = any>(
+    url: string,
+    body: FormData | Blob,
+    config: UploadConfig = {}
+  ): Promise<ApiResponse<T>> {
+    let options: RequestOptions = {
+      method: config.method || HttpMethod.POST,
+      url,
+      headers: { ...config.headers },
+      params: config.params,
+      timeout: config.timeout || this.config.timeout,
+      signal: config.signal,
+    };
+    const recordId = this.recorder.beginRequest(options.method, this.buildUrl(url, config.params));
 
     try {
-      const fetchOptions: RequestInit = {
-        method,
-        headers: headers as HeadersInit,
-        body: data ? JSON.stringify(data) : undefined,
-        signal: controller.signal,
-      };
-
-      const response = await fetch(fullUrl, fetchOptions);
-      clearTimeout(timeoutId);
+      for (const interceptor of this.requestInterceptors) {
+        options = await interceptor(options);
+      }
 
-      // 检查响应状态
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      let response = await this.performUpload(options, body, config.onProgress, recordId);
+      for (const interceptor of this.responseInterceptors) {
+        response = await interceptor(response);
       }
 
-      const responseData = await response.json();
-      return {
+      logger.info('ApiClient', 'Upload completed successfully', {
+        method: options.method,
+        url: options.url,
         status: response.status,
-        statusText: response.statusText,
-        headers: response.headers,
-        data: responseData,
-      };
-    } catch (error: any) {
-      clearTimeout(timeoutId);
-      
-      if (error?.name === 'AbortError') {
-        throw new Error('Request timeout');
+      });
+
+      const parsed = this.parseResponse<T>(response);
+      this.recorder.finishRequest(recordId, { status: response.status });
+      return parsed;
+    } catch (error) {
+      logger.warn('ApiClient', 'Upload failed', { url: options.url, error });
+
+      let apiError = this.normalizeError(error, options);
+      for (const interceptor of this.errorInterceptors) {
+        apiError = await interceptor(apiError);
       }
-      
+      this.recorder.finishRequest(recordId, { error: apiError });
+      throw apiError;
+    }
+  }
+
+  private async performUpload(
+    options: RequestOptions,
+    body: FormData | Blob,
+    onProgress?: (loaded: number, total: number) => void,
+    recordId: string | null = null
+  ): Promise<any> {
+    return this.send({
+      method: options.method,
+      url: this.buildUrl(options.url, options.params),
+      headers: options.headers || {},
+      body,
+      timeout: options.timeout || this.config.timeout,
+      signal: options.signal,
+      onUploadProgress: onProgress,
+    }, recordId);
+  }
+
+  // 执行实际的HTTP请求
+  private async performRequest(config: RequestOptions, recordId: string | null = null): Promise<any> {
+    const { method, url, data, headers, timeout, params, signal } = config;
+
+    return this.send({
+      method,
+      url: this.buildUrl(url, params),
+      headers: headers || {},
+      body: data ? JSON.stringify(data) : undefined,
+      timeout: timeout || this.config.timeout,
+      signal,
+    }, recordId, this.isBatchable(config) ? this.batcher : this.getTransport());
+  }
+
+  // 开启合并时，相对路径的请求默认参与合并
+  private isBatchable(config: RequestOptions): boolean {
+    return (
+      this.config.batching &&
+      config.batch !== false &&
+      !config.url.startsWith('http') &&
+      config.url !== BATCH_PATH
+    );
+  }
+
+  // 通过传输层发出一次请求；开启网络记录时记录本次尝试
+  private async send(
+    request: TransportRequest,
+    recordId: string | null,
+    transport: HttpTransport = this.getTransport()
+  ): Promise<any> {
+    const startedAt = Date.now();
+    let response: TransportResponse;
+
+    try {
+      response = await transport.send(request);
+    } catch (error) {
+      this.recorder.recordAttempt(recordId, request, startedAt, { error });
       throw error;
     }
+
+    this.recorder.recordAttempt(recordId, request, startedAt, { response });
+    return this.toHttpResponse(response);
+  }
+
+  private getTransport(): HttpTransport {
+    return this.config.transport || getDefaultTransport();
+  }
+
+  // 检查状态码并解析JSON响应体
+  private toHttpResponse(response: TransportResponse): any {
+    const { status, statusText, headers } = response;
+
+    // 304表示条件请求命中，没有响应体
+    if (status === 304) {
+      return { status, statusText, headers, data: null };
+    }
+
+    // 检查响应状态，保留状态码和响应头供重试和熔断判断
+    if (status < 200 || status >= 300) {
+      const httpError: any = new Error(`HTTP ${status}: ${statusText}`);
+      httpError.response = { status, headers };
+      throw httpError;
+    }
+
+    try {
+      return { status, statusText, headers, data: JSON.parse(response.body) };
+    } catch (error) {
+      throw new Error('Invalid response format');
+    }
+  }
+
+  // 读取响应头中的ETag/Last-Modified
+  private readValidators(headers: any): CacheValidators | undefined {
+    if (!headers || typeof headers.get !== 'function') {
+      return undefined;
+    }
+
+    const etag = headers.get('ETag') || undefined;
+    const lastModified = headers.get('Last-Modified') || undefined;
+    return etag || lastModified ? { etag, lastModified } : undefined;
   }
 
   // 构建完整URL
@@ -311,6 +749,10 @@ export class ApiClient {
       return error as ApiError;
     }
 
+    if (error.message === 'Request cancelled') {
+      return this.createCancelledError();
+    }
+
     // 网络错误
     if (error.message === 'Request timeout') {
       return {
@@ -322,7 +764,11 @@ export class ApiClient {
       };
     }
 
-    if (error.message === 'Failed to fetch' || error.code === 'NETWORK_ERROR') {
+    if (
+      error.message === 'Failed to fetch' ||
+      error.message === 'Network request failed' ||
+      error.code === 'NETWORK_ERROR'
+    ) {
       return {
         code: ApiErrorCode.NETWORK_ERROR,
         message: '网络连接失败，请检查网络设置',
@@ -334,7 +780,7 @@ export class ApiClient {
 
     // HTTP错误
     if (error.message && error.message.startsWith('HTTP ')) {
-      const status = parseInt(error.message.match(/HTTP (\\d+)/)?.[1] || '500');
+      const status = error.response?.status || parseInt(error.message.match(/HTTP (\d+)/)?.[1] || '500');
       let code: ApiErrorCode;
       let message: string;
 
@@ -368,12 +814,14 @@ export class ApiClient {
           message = '服务器内部错误';
       }
 
+      const retryAfter = this.getRetryAfter(error);
       return {
         code,
         message,
         details: [],
         requestId: this.generateRequestId(),
         timestamp: new Date().toISOString(),
+        retryAt: retryAfter !== undefined ? new Date(Date.now() + retryAfter).toISOString() : undefined,
       };
     }
 
@@ -387,6 +835,78 @@ export class ApiClient {
     };
   }
 
+  private getCircuitBreaker(url: string): CircuitBreaker | null {
+    if (!this.config.circuitBreaker) {
+      return null;
+    }
+
+    try {
+      return this.breakers.get(new URL(this.buildUrl(url)).host);
+    } catch {
+      return null;
+    }
+  }
+
+  // 网络错误、超时、5xx和429说明服务端不可用，计入熔断
+  private isServerFailure(error: any): boolean {
+    const status = error?.response?.status;
+    if (status) {
+      return status >= 500 || status === 429;
+    }
+
+    return error?.message === 'Request timeout' ||
+      error?.message === 'Failed to fetch' ||
+      error?.message === 'Network request failed';
+  }
+
+  // 解析Retry-After响应头（秒数或HTTP日期），返回需要等待的毫秒数
+  private getRetryAfter(error: any): number | undefined {
+    const value = error?.response?.headers?.get?.('Retry-After');
+    if (!value) {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private createCancelledError(): ApiError {
+    return {
+      code: ApiErrorCode.CANCELLED,
+      message: '请求已取消',
+      details: [],
+      requestId: this.generateRequestId(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private createUnexpectedNotModifiedError(): ApiError {
+    return {
+      code: ApiErrorCode.SERVER_ERROR,
+      message: '服务器返回了无法使用的响应',
+      details: [],
+      requestId: this.generateRequestId(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private createCircuitOpenError(host: string, retryAt: number): ApiError {
+    const retryTime = new Date(retryAt);
+    return {
+      code: ApiErrorCode.CIRCUIT_OPEN,
+      message: `服务暂时不可用，请在${retryTime.toLocaleTimeString('zh-CN')}后重试`,
+      details: [{ field: 'host', message: host }],
+      requestId: this.generateRequestId(),
+      timestamp: new Date().toISOString(),
+      retryAt: retryTime.toISOString(),
+    };
+  }
+
   // 计算重试延迟（指数退避）
   private calculateRetryDelay(attempt: number): number {
     return Math.min(this.config.retryDelay * Math.pow(2, attempt - 1), 30000);
@@ -397,9 +917,17 @@ export class ApiClient {
     return `req_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
 
-  // 延迟函数
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // 延迟函数，signal取消时提前结束
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      signal?.addEventListener('abort', done);
+    });
   }
 
   // 更新配置
@@ -0,0 +1,323 @@
+import {
+  ApiError,
+  ApiErrorCode,
+  ApiMeta,
+  ApiResponse,
+  CacheConfig,
+  HttpMethod,
+  PaginationRequest,
+  PaginationResponse,
+  UploadConfig,
+  LoginRequest,
+  LoginResponse,
+  RefreshTokenRequest,
+  LogoutRequest,
+  UserProfile,
+  UpdateUserRequest,
+  SearchUsersRequest,
+  SendMessageRequest,
+  MessageResponse,
+  GetMessagesRequest,
+  MarkMessageReadRequest,
+  MarkMessagesReadRequest,
+  ChatResponse,
+  GetChatsRequest,
+  GetChatRequest,
+  CreateChatRequest,
+  DepartmentResponse,
+  DepartmentMember,
+  GetDepartmentMembersRequest,
+  MultipartUploadRequest,
+  CreateUploadSessionRequest,
+  UploadSessionRequest,
+  UploadChunkRequest,
+  UploadSessionResponse,
+  GetFileRequest,
+  FileResponse,
+  RealtimePollRequest,
+  RealtimePollResponse,
+  RealtimeSendRequest,
+  SyncChangesRequest,
+  SyncChangesResponse,
+  UploadChangesRequest,
+  UploadChangesResponse,
+  HealthResponse,
+} from '@/types/api';
+import { ApiClient } from './ApiClient';
+
+// 接口声明。Req/Res只用于类型推断，运行时只使用method、path和选项
+export interface Endpoint<Req = void, Res = void> {
+  method: HttpMethod;
+  path: string; // 路径参数写作{name}，取请求对象中的同名字段
+  query?: string[]; // 非GET请求中作为查询参数而不放进请求体的字段
+  listKey?: string; // 数据包在data的某个字段中时，如{ chats: [...] }
+  paginated?: boolean; // 响应统一转换为PaginationResponse
+  upload?: boolean; // 请求体为request.body（FormData或Blob），通过ApiClient.upload发送
+  noContent?: boolean; // 成功时不返回data
+  envelope?: boolean; // 响应是否为{ success, data }格式，默认是
+  cache?: CacheConfig | ((request: Req) => CacheConfig);
+  invalidates?: (request: Req) => string[];
+  readonly types?: { request: Req; response: Res };
+}
+
+type EndpointOptions<Req> = Omit<Endpoint<Req, unknown>, 'method' | 'path' | 'types'>;
+
+export type EndpointRequest<E> = E extends Endpoint<infer Req, any> ? Req : never;
+export type EndpointResponse<E> = E extends Endpoint<any, infer Res> ? Res : never;
+
+function endpoint<Req = void, Res = void>(
+  method: HttpMethod,
+  path: string,
+  options: EndpointOptions<Req> = {}
+): Endpoint<Req, Res> {
+  return { method, path, ...options };
+}
+
+// 所有HTTP接口，与docs/API_SPECIFICATION.md一一对应
+export const API_ENDPOINTS = {
+  auth: {
+    login: endpoint<LoginRequest, LoginResponse>(HttpMethod.POST, '/auth/login'),
+    refresh: endpoint<RefreshTokenRequest, LoginResponse>(HttpMethod.POST, '/auth/refresh'),
+    logout: endpoint<LogoutRequest>(HttpMethod.POST, '/auth/logout', { noContent: true }),
+  },
+  users: {
+    me: endpoint<void, UserProfile>(HttpMethod.GET, '/users/me'),
+    updateMe: endpoint<UpdateUserRequest, UserProfile>(HttpMethod.PUT, '/users/me'),
+    search: endpoint<SearchUsersRequest, PaginationResponse<UserProfile>>(HttpMethod.GET, '/users/search', {
+      paginated: true,
+    }),
+  },
+  messages: {
+    send: endpoint<SendMessageRequest, MessageResponse>(HttpMethod.POST, '/messages', {
+      invalidates: request => [`chat:${request.chatId}`],
+    }),
+    list: endpoint<GetMessagesRequest, PaginationResponse<MessageResponse>>(HttpMethod.GET, '/messages', {
+      paginated: true,
+    }),
+    markRead: endpoint<MarkMessageReadRequest>(HttpMethod.PUT, '/messages/{messageId}/read', {
+      noContent: true,
+      invalidates: () => ['chats'],
+    }),
+    markManyRead: endpoint<MarkMessagesReadRequest>(HttpMethod.PUT, '/messages/read', {
+      noContent: true,
+      invalidates: () => ['chats'],
+    }),
+  },
+  chats: {
+    list: endpoint<GetChatsRequest, PaginationResponse<ChatResponse>>(HttpMethod.GET, '/chats', {
+      listKey: 'chats',
+      paginated: true,
+      cache: { ttl: 60, tags: ['chats'], staleWhileRevalidate: 300 },
+    }),
+    create: endpoint<CreateChatRequest, ChatResponse>(HttpMethod.POST, '/chats', {
+      invalidates: () => ['chats'],
+    }),
+    get: endpoint<GetChatRequest, ChatResponse>(HttpMethod.GET, '/chats/{chatId}', {
+      cache: request => ({ ttl: 60, tags: ['chats', `chat:${request.chatId}`], staleWhileRevalidate: 300 }),
+    }),
+  },
+  organization: {
+    departments: endpoint<void, DepartmentResponse[]>(HttpMethod.GET, '/organization/departments', {
+      listKey: 'departments',
+      // 组织架构变化很少，过期后先用旧数据并在后台刷新
+      cache: { ttl: 3600, tags: ['organization'], staleWhileRevalidate: 24 * 3600 },
+    }),
+    members: endpoint<GetDepartmentMembersRequest, PaginationResponse<DepartmentMember>>(
+      HttpMethod.GET,
+      '/organization/departments/{departmentId}/members',
+      {
+        paginated: true,
+        cache: request => ({ ttl: 600, tags: ['organization', `department:${request.departmentId}`] }),
+      }
+    ),
+  },
+  files: {
+    upload: endpoint<MultipartUploadRequest, FileResponse>(HttpMethod.POST, '/files/upload', { upload: true }),
+    createUpload: endpoint<CreateUploadSessionRequest, UploadSessionResponse>(HttpMethod.POST, '/files/uploads'),
+    uploadChunk: endpoint<UploadChunkRequest, UploadSessionResponse>(
+      HttpMethod.PUT,
+      '/files/uploads/{uploadId}/chunks',
+      { upload: true }
+    ),
+    getUpload: endpoint<UploadSessionRequest, UploadSessionResponse>(HttpMethod.GET, '/files/uploads/{uploadId}'),
+    completeUpload: endpoint<UploadSessionRequest, FileResponse>(HttpMethod.POST, '/files/uploads/{uploadId}/complete'),
+    get: endpoint<GetFileRequest, FileResponse>(HttpMethod.GET, '/files/{fileId}'),
+  },
+  realtime: {
+    poll: endpoint<RealtimePollRequest, RealtimePollResponse>(HttpMethod.GET, '/realtime/poll'),
+    send: endpoint<RealtimeSendRequest>(HttpMethod.POST, '/realtime/send', {
+      query: ['deviceId'],
+      noContent: true,
+    }),
+  },
+  sync: {
+    changes: endpoint<SyncChangesRequest, SyncChangesResponse>(HttpMethod.GET, '/sync/changes'),
+    upload: endpoint<UploadChangesRequest, UploadChangesResponse>(HttpMethod.POST, '/sync/upload'),
+  },
+  health: {
+    check: endpoint<void, HealthResponse>(HttpMethod.GET, '/health', { envelope: false }),
+  },
+};
+
+// 用请求中的字段替换路径参数，返回剩余字段
+export function resolveEndpointPath(
+  path: string,
+  request: Record<string, any> = {}
+): { url: string; rest: Record<string, any> } {
+  const rest = { ...request };
+  const url = path.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = rest[name];
+    if (value === undefined || value === null || value === '') {
+      throw createEndpointError(ApiErrorCode.VALIDATION_ERROR, `缺少路径参数${name}`, name);
+    }
+    delete rest[name];
+    return encodeURIComponent(String(value));
+  });
+  return { url, rest };
+}
+
+// 通过指定的ApiClient调用接口；成功时返回data，任何失败都以ApiError抛出
+export async function callEndpoint<Req, Res>(
+  client: ApiClient,
+  endpoint: Endpoint<Req, Res>,
+  request: Req,
+  config: UploadConfig = {}
+): Promise<Res> {
+  try {
+    const { url, rest } = resolveEndpointPath(endpoint.path, (request ?? {}) as Record<string, any>);
+    const { body, ...fields } = rest;
+    const sendsQuery = endpoint.method === HttpMethod.GET || endpoint.method === HttpMethod.DELETE;
+
+    const params: Record<string, any> = {};
+    const data: Record<string, any> = {};
+    Object.entries(endpoint.upload ? fields : rest).forEach(([key, value]) => {
+      if (sendsQuery || endpoint.upload || endpoint.query?.includes(key)) {
+        params[key] = value;
+      } else {
+        data[key] = value;
+      }
+    });
+
+    const cache = typeof endpoint.cache === 'function' ? endpoint.cache(request) : endpoint.cache;
+    const requestConfig: UploadConfig = {
+      ...config,
+      params: { ...params, ...config.params },
+      cache: config.cache ?? cache,
+      invalidates: [...(endpoint.invalidates?.(request) || []), ...(config.invalidates || [])],
+    };
+
+    let response: ApiResponse<any>;
+    if (endpoint.upload) {
+      response = await client.upload(url, body, {
+        ...requestConfig,
+        method: endpoint.method as HttpMethod.POST | HttpMethod.PUT,
+      });
+    } else {
+      switch (endpoint.method) {
+        case HttpMethod.GET:
+          response = await client.get(url, requestConfig);
+          break;
+        case HttpMethod.DELETE:
+          response = await client.delete(url, requestConfig);
+          break;
+        case HttpMethod.POST:
+          response = await client.post(url, data, requestConfig);
+          break;
+        case HttpMethod.PUT:
+          response = await client.put(url, data, requestConfig);
+          break;
+        default:
+          response = await client.patch(url, data, requestConfig);
+      }
+    }
+
+    return unwrapResponse(endpoint, request, response);
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
+
+function unwrapResponse<Req, Res>(endpoint: Endpoint<Req, Res>, request: Req, response: ApiResponse<any>): Res {
+  if (endpoint.envelope === false) {
+    return response as unknown as Res;
+  }
+
+  if (!response.success) {
+    throw response.error || createEndpointError(ApiErrorCode.SERVER_ERROR, '服务器返回了无效的响应');
+  }
+
+  if (endpoint.noContent) {
+    return undefined as unknown as Res;
+  }
+
+  let data = response.data;
+  if (endpoint.listKey && data && typeof data === 'object' && endpoint.listKey in data) {
+    data = data[endpoint.listKey];
+  }
+
+  if (data === undefined || data === null) {
+    throw createEndpointError(ApiErrorCode.SERVER_ERROR, '服务器返回了无效的响应');
+  }
+
+  if (endpoint.paginated) {
+    return toPaginationResponse(data, response.meta, request as PaginationRequest) as unknown as Res;
+  }
+  return data as Res;
+}
+
+// 列表接口可能直接返回PaginationResponse，也可能返回数组并把分页信息放在meta.pagination中
+export function toPaginationResponse<T>(
+  data: PaginationResponse<T> | T[],
+  meta?: ApiMeta,
+  request: PaginationRequest = {}
+): PaginationResponse<T> {
+  if (!Array.isArray(data)) {
+    return data;
+  }
+
+  const pagination = meta?.pagination;
+  const limit = pagination?.limit ?? request.limit ?? data.length;
+  const page = pagination?.page ?? request.page ?? (limit > 0 ? Math.floor((request.offset ?? 0) / limit) + 1 : 1);
+
+  return {
+    items: data,
+    total: pagination?.total ?? data.length,
+    page,
+    limit,
+    hasNext: pagination?.hasNext ?? false,
+    hasPrev: page > 1,
+  };
+}
+
+// 下一页的请求参数，没有更多数据时返回null。请求带page时按页码翻页，否则按offset
+export function getNextPageRequest<Req extends PaginationRequest>(
+  request: Req,
+  page: PaginationResponse<unknown>
+): Req | null {
+  if (!page.hasNext || page.items.length === 0) {
+    return null;
+  }
+
+  if (request.page !== undefined) {
+    return { ...request, page: request.page + 1 };
+  }
+  return { ...request, offset: (request.offset ?? 0) + page.items.length };
+}
+
+// 统一的错误出口：ApiClient抛出的ApiError原样返回，其他异常包装为ApiError
+export function toApiError(error: any): ApiError {
+  if (error && typeof error.code === 'string' && typeof error.message === 'string' && error.requestId) {
+    return error as ApiError;
+  }
+  return createEndpointError(ApiErrorCode.SERVER_ERROR, error?.message || String(error));
+}
+
+function createEndpointError(code: string, message: string, field?: string): ApiError {
+  return {
+    code,
+    message,
+    details: field ? [{ field, message }] : [],
+    requestId: `req_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,112 @@
+import {
+  PaginationRequest,
+  PaginationResponse,
+  SearchUsersRequest,
+  UploadConfig,
+  UserProfile,
+} from '@/types/api';
+import { ApiClient } from './ApiClient';
+import { createAuthenticatedApiClient } from './AuthenticatedApiClient';
+import { LatestRequest } from './LatestRequest';
+import { API_ENDPOINTS, Endpoint, callEndpoint, getNextPageRequest } from './ApiEndpoints';
+
+type EndpointFunction<E> = E extends Endpoint<infer Req, infer Res>
+  ? (request: Req, config?: UploadConfig) => Promise<Res>
+  : never;
+
+// 由接口声明生成的调用方法，如apiService.chats.get({ chatId })
+export type EndpointGroupClient<G> = { [K in keyof G]: EndpointFunction<G[K]> };
+
+const MAX_PAGES = 100; // fetchAllPages的安全上限，防止服务器分页异常时无限循环
+
+// 带认证的接口调用入口。认证接口由JWTAuthService负责，长轮询由LongPollingTransport负责，不在这里暴露
+export class ApiService {
+  private static instance: ApiService;
+  private apiClient: ApiClient;
+  private userSearch: LatestRequest<[SearchUsersRequest], PaginationResponse<UserProfile>>;
+
+  public readonly users: EndpointGroupClient<typeof API_ENDPOINTS.users>;
+  public readonly messages: EndpointGroupClient<typeof API_ENDPOINTS.messages>;
+  public readonly chats: EndpointGroupClient<typeof API_ENDPOINTS.chats>;
+  public readonly organization: EndpointGroupClient<typeof API_ENDPOINTS.organization>;
+  public readonly files: EndpointGroupClient<typeof API_ENDPOINTS.files>;
+  public readonly sync: EndpointGroupClient<typeof API_ENDPOINTS.sync>;
+  public readonly health: EndpointGroupClient<typeof API_ENDPOINTS.health>;
+
+  private constructor() {
+    // 页面打开时的多个小请求合并发送，如聊天详情、消息列表和已读状态
+    this.apiClient = createAuthenticatedApiClient({ batching: true });
+
+    this.users = this.bindGroup(API_ENDPOINTS.users);
+    this.messages = this.bindGroup(API_ENDPOINTS.messages);
+    this.chats = this.bindGroup(API_ENDPOINTS.chats);
+    this.organization = this.bindGroup(API_ENDPOINTS.organization);
+    this.files = this.bindGroup(API_ENDPOINTS.files);
+    this.sync = this.bindGroup(API_ENDPOINTS.sync);
+    this.health = this.bindGroup(API_ENDPOINTS.health);
+
+    this.userSearch = new LatestRequest((signal, request: SearchUsersRequest) =>
+      this.call(API_ENDPOINTS.users.search, request, { signal })
+    );
+  }
+
+  public static getInstance(): ApiService {
+    if (!ApiService.instance) {
+      ApiService.instance = new ApiService();
+    }
+    return ApiService.instance;
+  }
+
+  // 调用任意接口，失败时抛出ApiError
+  public call<Req, Res>(endpoint: Endpoint<Req, Res>, request: Req, config?: UploadConfig): Promise<Res> {
+    return this.callEndpoint(endpoint, request, config);
+  }
+
+  // 边输入边搜索：新的搜索会取消上一次未完成的搜索（以CANCELLED错误结束）
+  public searchUsers(request: SearchUsersRequest): Promise<PaginationResponse<UserProfile>> {
+    return this.userSearch.run(request);
+  }
+
+  public cancelUserSearch(): void {
+    this.userSearch.cancel();
+  }
+
+  // 逐页获取直到没有更多数据或达到maxItems
+  public async fetchAllPages<Req extends PaginationRequest, T>(
+    endpoint: Endpoint<Req, PaginationResponse<T>>,
+    request: Req,
+    options: { maxItems?: number; config?: UploadConfig } = {}
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let next: Req | null = request;
+
+    for (let pages = 0; next && pages < MAX_PAGES; pages++) {
+      const page: PaginationResponse<T> = await this.call(endpoint, next, options.config);
+      items.push(...page.items);
+
+      if (options.maxItems !== undefined && items.length >= options.maxItems) {
+        return items.slice(0, options.maxItems);
+      }
+      next = getNextPageRequest(next, page);
+    }
+
+    return items;
+  }
+
+  // 清除接口缓存，如组织架构变更通知到达时
+  public invalidateCache(tags: string[]): Promise<void> {
+    return this.apiClient.invalidateCache(tags);
+  }
+
+  private callEndpoint<Req, Res>(endpoint: Endpoint<Req, Res>, request: Req, config?: UploadConfig): Promise<Res> {
+    return callEndpoint(this.apiClient, endpoint, request, config);
+  }
+
+  private bindGroup<G extends Record<string, Endpoint<any, any>>>(group: G): EndpointGroupClient<G> {
+    const client: Record<string, (request: any, config?: UploadConfig) => Promise<any>> = {};
+    Object.entries(group).forEach(([name, endpoint]) => {
+      client[name] = (request, config) => this.callEndpoint(endpoint, request, config);
+    });
+    return client as EndpointGroupClient<G>;
+  }
+}
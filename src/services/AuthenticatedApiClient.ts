@@ -0,0 +1,17 @@
+import { ApiClient, ApiClientConfig } from './ApiClient';
+import { JWTAuthService } from './JWTAuthService';
+
+// 创建带认证的ApiClient：每个请求发出时附加当前账户的access token
+export function createAuthenticatedApiClient(config: Partial<ApiClientConfig> = {}): ApiClient {
+  const authService = JWTAuthService.getInstance();
+  const client = new ApiClient(config);
+
+  client.addRequestInterceptor(async request => {
+    const token = authService.getAccessToken();
+    return token
+      ? { ...request, headers: { ...request.headers, Authorization: `Bearer ${token}` } }
+      : request;
+  });
+
+  return client;
+}
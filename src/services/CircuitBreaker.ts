@@ -0,0 +1,185 @@
+import { logger } from '@/utils';
+
+// 熔断器状态
+export enum CircuitState {
+  CLOSED = 'closed', // 正常放行
+  OPEN = 'open', // 快速失败，直到retryAt
+  HALF_OPEN = 'half_open', // 放行少量试探请求，成功则恢复
+}
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // 连续失败多少次后熔断
+  openDuration: number; // 熔断持续时间（毫秒）
+  halfOpenMaxRequests: number; // 半开状态下同时允许的试探请求数
+}
+
+export interface CircuitStateChange {
+  host: string;
+  state: CircuitState;
+  previousState: CircuitState;
+  retryAt?: number; // OPEN时下次允许请求的时间
+}
+
+export type CircuitStateListener = (change: CircuitStateChange) => void;
+
+// 检查结果：不允许时给出下次允许请求的时间
+export type CircuitPermit = { allowed: true } | { allowed: false; retryAt: number };
+
+const DEFAULT_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  openDuration: 30000,
+  halfOpenMaxRequests: 1,
+};
+
+// 单个主机的熔断器
+export class CircuitBreaker {
+  private state: CircuitState = CircuitState.CLOSED;
+  private failures = 0;
+  private retryAt = 0;
+  private halfOpenRequests = 0;
+
+  constructor(
+    public readonly host: string,
+    private getConfig: () => CircuitBreakerConfig,
+    private onChange: (change: CircuitStateChange) => void
+  ) {}
+
+  public getState(): CircuitState {
+    return this.state;
+  }
+
+  public getRetryAt(): number | undefined {
+    return this.state === CircuitState.OPEN ? this.retryAt : undefined;
+  }
+
+  // 请求前调用，允许时会占用一个半开试探名额
+  public acquire(now: number = Date.now()): CircuitPermit {
+    if (this.state === CircuitState.OPEN) {
+      if (now < this.retryAt) {
+        return { allowed: false, retryAt: this.retryAt };
+      }
+      this.transition(CircuitState.HALF_OPEN);
+    }
+
+    if (this.state === CircuitState.HALF_OPEN) {
+      if (this.halfOpenRequests >= this.getConfig().halfOpenMaxRequests) {
+        // 试探请求尚未返回，稍后再试
+        return { allowed: false, retryAt: now + 1000 };
+      }
+      this.halfOpenRequests++;
+    }
+
+    return { allowed: true };
+  }
+
+  public recordSuccess(): void {
+    this.failures = 0;
+    if (this.state !== CircuitState.CLOSED) {
+      this.halfOpenRequests = 0;
+      this.transition(CircuitState.CLOSED);
+    }
+  }
+
+  // 记录失败；retryAfter为服务器通过Retry-After要求等待的毫秒数
+  public recordFailure(retryAfter?: number, now: number = Date.now()): void {
+    const config = this.getConfig();
+    this.failures++;
+
+    const shouldOpen =
+      this.state === CircuitState.HALF_OPEN ||
+      this.failures >= config.failureThreshold ||
+      retryAfter !== undefined;
+
+    if (!shouldOpen) return;
+
+    this.halfOpenRequests = 0;
+    const until = now + (retryAfter ?? config.openDuration);
+    this.retryAt = this.state === CircuitState.OPEN ? Math.max(this.retryAt, until) : until;
+    this.transition(CircuitState.OPEN);
+  }
+
+  // 请求被取消等未产生结果时释放半开名额
+  public release(): void {
+    if (this.state === CircuitState.HALF_OPEN && this.halfOpenRequests > 0) {
+      this.halfOpenRequests--;
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const previousState = this.state;
+    this.state = state;
+
+    if (previousState !== state || state === CircuitState.OPEN) {
+      this.onChange({
+        host: this.host,
+        state,
+        previousState,
+        retryAt: this.getRetryAt(),
+      });
+    }
+  }
+}
+
+// 按主机管理熔断器，所有ApiClient实例共享
+export class CircuitBreakerRegistry {
+  private static instance: CircuitBreakerRegistry;
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private listeners: Set<CircuitStateListener> = new Set();
+  private config: CircuitBreakerConfig = { ...DEFAULT_CONFIG };
+
+  private constructor() {}
+
+  public static getInstance(): CircuitBreakerRegistry {
+    if (!CircuitBreakerRegistry.instance) {
+      CircuitBreakerRegistry.instance = new CircuitBreakerRegistry();
+    }
+    return CircuitBreakerRegistry.instance;
+  }
+
+  public configure(config: Partial<CircuitBreakerConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  public get(host: string): CircuitBreaker {
+    let breaker = this.breakers.get(host);
+    if (!breaker) {
+      breaker = new CircuitBreaker(host, () => this.config, change => this.emit(change));
+      this.breakers.set(host, breaker);
+    }
+    return breaker;
+  }
+
+  // 当前处于非CLOSED状态的主机，用于UI显示“服务降级”
+  public getDegradedHosts(): CircuitStateChange[] {
+    return Array.from(this.breakers.values())
+      .filter(breaker => breaker.getState() !== CircuitState.CLOSED)
+      .map(breaker => ({
+        host: breaker.host,
+        state: breaker.getState(),
+        previousState: breaker.getState(),
+        retryAt: breaker.getRetryAt(),
+      }));
+  }
+
+  // 监听状态变化，返回取消监听的函数
+  public addListener(listener: CircuitStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(change: CircuitStateChange): void {
+    logger.info('CircuitBreaker', `${change.host}: ${change.previousState} -> ${change.state}`, {
+      retryAt: change.retryAt,
+    });
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        logger.error('CircuitBreaker', 'State listener error', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,192 @@
+import { SyncDataType, MessageStatus } from '@/types/api';
+
+// 合并上下文：用于按时间戳决定“最后写入者胜出”
+export interface MergeContext {
+  localTimestamp: number;
+  serverTimestamp: number;
+}
+
+// 无法自动解决的字段
+const UNRESOLVED = Symbol('unresolved');
+
+// 字段合并规则：在本地和服务器都修改了同一字段时调用
+type FieldRule = (base: any, local: any, server: any, context: MergeContext) => any;
+
+// 不参与合并的元数据字段，始终以服务器为准
+const SERVER_OWNED_FIELDS = ['id', 'version', 'createdAt', 'updatedAt'];
+
+const lastWriterWins: FieldRule = (_base, local, server, context) =>
+  context.localTimestamp >= context.serverTimestamp ? local : server;
+
+const maxValue: FieldRule = (_base, local, server) =>
+  Math.max(Number(local) || 0, Number(server) || 0);
+
+const anyTrue: FieldRule = (_base, local, server) => Boolean(local) || Boolean(server);
+
+// 取时间较新的一条记录（如最后一条消息）
+const latestByTimestamp: FieldRule = (_base, local, server) => {
+  if (!local) return server;
+  if (!server) return local;
+  return toTime(local.timestamp) >= toTime(server.timestamp) ? local : server;
+};
+
+// 消息状态只会向前推进，失败状态由服务器决定
+const MESSAGE_STATUS_ORDER: string[] = [
+  MessageStatus.SENDING,
+  MessageStatus.SENT,
+  MessageStatus.DELIVERED,
+  MessageStatus.READ,
+];
+
+const furthestMessageStatus: FieldRule = (_base, local, server) => {
+  const localRank = MESSAGE_STATUS_ORDER.indexOf(local);
+  const serverRank = MESSAGE_STATUS_ORDER.indexOf(server);
+  if (localRank === -1 || serverRank === -1) {
+    return server;
+  }
+  return localRank > serverRank ? local : server;
+};
+
+// 按key对数组做三方集合合并：保留服务器结果，叠加本地新增和删除
+const mergeSetBy = (key: string): FieldRule => (base, local, server) => {
+  const keyOf = (item: any) => (item && typeof item === 'object' ? item[key] : item);
+  const baseKeys = new Set((Array.isArray(base) ? base : []).map(keyOf));
+  const localItems: any[] = Array.isArray(local) ? local : [];
+  const localKeys = new Set(localItems.map(keyOf));
+
+  const result = (Array.isArray(server) ? server : []).filter(
+    item => !(baseKeys.has(keyOf(item)) && !localKeys.has(keyOf(item)))
+  );
+  const resultKeys = new Set(result.map(keyOf));
+
+  localItems.forEach(item => {
+    if (!baseKeys.has(keyOf(item)) && !resultKeys.has(keyOf(item))) {
+      result.push(item);
+    }
+  });
+
+  return result;
+};
+
+// 各数据类型的字段规则，未列出的字段发生冲突时无法自动合并
+const FIELD_RULES: Partial<Record<SyncDataType, Record<string, FieldRule>>> = {
+  [SyncDataType.CHATS]: {
+    name: lastWriterWins,
+    avatar: lastWriterWins,
+    unreadCount: maxValue,
+    lastMessage: latestByTimestamp,
+    participants: mergeSetBy('id'),
+  },
+  [SyncDataType.USERS]: {
+    name: lastWriterWins,
+    avatar: lastWriterWins,
+    email: lastWriterWins,
+    department: lastWriterWins,
+    position: lastWriterWins,
+    phone: lastWriterWins,
+    status: lastWriterWins,
+  },
+  [SyncDataType.MESSAGES]: {
+    content: lastWriterWins,
+    editedAt: lastWriterWins,
+    isRead: anyTrue,
+    status: furthestMessageStatus,
+    readBy: mergeSetBy('userId'),
+  },
+};
+
+// 三方合并：只有一方修改的字段直接采用，双方都修改的字段按规则处理。
+// 存在无法解决的字段时返回null，由调用方转为手动处理。
+export function mergeThreeWay(
+  type: SyncDataType,
+  base: any,
+  local: any,
+  server: any,
+  context: MergeContext
+): any | null {
+  const rules = FIELD_RULES[type];
+  if (!rules || !isPlainObject(local) || !isPlainObject(server)) {
+    return null;
+  }
+
+  const baseObject = isPlainObject(base) ? base : {};
+  const merged: Record<string, any> = {};
+  const fields = new Set([...Object.keys(local), ...Object.keys(server)]);
+
+  for (const field of fields) {
+    const baseValue = baseObject[field];
+    const localValue = local[field];
+    const serverValue = server[field];
+
+    let value: any;
+    if (SERVER_OWNED_FIELDS.includes(field)) {
+      value = field in server ? serverValue : localValue;
+    } else if (isEqual(localValue, serverValue)) {
+      value = serverValue;
+    } else if (base !== undefined && base !== null && isEqual(localValue, baseValue)) {
+      value = serverValue;
+    } else if (base !== undefined && base !== null && isEqual(serverValue, baseValue)) {
+      value = localValue;
+    } else {
+      const rule = rules[field];
+      value = rule ? rule(baseValue, localValue, serverValue, context) : UNRESOLVED;
+    }
+
+    if (value === UNRESOLVED) {
+      return null;
+    }
+    if (value !== undefined) {
+      merged[field] = value;
+    }
+  }
+
+  return merged;
+}
+
+// 从数据中提取用于比较先后的时间戳
+export function getDataTimestamp(data: any): number {
+  if (!isPlainObject(data)) {
+    return 0;
+  }
+  return toTime(data.updatedAt) || toTime(data.editedAt) || toTime(data.timestamp);
+}
+
+function toTime(value: any): number {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return isNaN(time) ? 0 : time;
+  }
+  return 0;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return toTime(a) === toTime(b) && toTime(a) !== 0;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!isEqual(a[key], b[key])) {
+        return false;
+      }
+    }
+    return true;
+  }
+  return false;
+}
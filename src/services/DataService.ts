@@ -1,19 +1,44 @@
 import { DatabaseService } from './DatabaseService';
 import { StorageService, UserSettings, AppConfig } from './StorageService';
-import { SecureStorageService, AuthTokens, UserCredentials } from './SecureStorageService';
+import { SecureStorageService, UserCredentials } from './SecureStorageService';
+import { JWTAuthService } from './JWTAuthService';
+import { MessageTransport } from './MessageTransport';
+import { DownloadManager } from './DownloadManager';
+import { ResponseCache } from './ResponseCache';
+import { NetworkRecorder } from './NetworkRecorder';
+import { AccountService, AccountProfile } from './AccountService';
 import { User, Message, Chat } from '@/types';
+import {
+  SearchFilter,
+  SearchResponse,
+  DepartmentResponse,
+  DepartmentMember,
+  MessageType,
+  UserProfile,
+  UserStatus,
+} from '@/types/api';
+import { APP_CONFIG, IS_IOS, IS_ANDROID } from '@/utils/Constants';
 
 export class DataService {
   private static instance: DataService;
   private dbService: DatabaseService;
   private storageService: StorageService;
   private secureStorageService: SecureStorageService;
+  private authService: JWTAuthService;
+  private messageTransport: MessageTransport;
+  private downloadManager: DownloadManager;
+  private accountService: AccountService;
   private isInitialized: boolean = false;
+  private offlineSync: Promise<void> | null = null;
 
   private constructor() {
     this.dbService = DatabaseService.getInstance();
     this.storageService = StorageService.getInstance();
     this.secureStorageService = SecureStorageService.getInstance();
+    this.authService = JWTAuthService.getInstance();
+    this.messageTransport = MessageTransport.getInstance();
+    this.downloadManager = DownloadManager.getInstance();
+    this.accountService = AccountService.getInstance();
   }
 
   public static getInstance(): DataService {
@@ -32,8 +57,11 @@ export class DataService {
 
       console.log('Initializing DataService...');
       
-      // 初始化数据库
-      await this.dbService.initialize();
+      // 恢复当前账户的存储命名空间并打开该账户的数据库
+      await this.accountService.initialize();
+
+      // 恢复网络调试记录的开关状态
+      await NetworkRecorder.getInstance().initialize();
       
       // 执行数据清理（可选）
       await this.performMaintenanceTasks();
@@ -52,15 +80,22 @@ export class DataService {
       // 清理30天前的旧消息
       await this.dbService.cleanupOldData(30);
       
+      const config = await this.storageService.getAppConfig();
+
+      // 附件缓存超过上限时按最近访问时间淘汰
+      const freed = await this.downloadManager.enforceCacheLimit(config.cacheMaxSize);
+      if (freed > 0) {
+        console.log(`Attachment cache cleanup freed ${freed} bytes`);
+      }
+      
       // 检查存储使用情况
       const storageInfo = await this.storageService.getStorageInfo();
       console.log(`Storage usage: ${storageInfo.size} bytes, ${storageInfo.keys.length} keys`);
       
-      // 如果存储使用超过限制，执行清理
-      const config = await this.storageService.getAppConfig();
+      // 如果存储使用超过限制，清空可重新获取的API响应缓存
       if (storageInfo.size > config.cacheMaxSize) {
-        console.log('Storage limit exceeded, performing cleanup...');
-        // 这里可以实现更精细的清理逻辑
+        console.log('Storage limit exceeded, clearing response cache...');
+        await ResponseCache.getInstance().clear();
       }
     } catch (error) {
       console.error('Maintenance tasks failed:', error);
@@ -71,26 +106,19 @@ export class DataService {
   
   public async login(email: string, password: string, rememberMe: boolean = false): Promise<User> {
     try {
-      // 这里应该调用API进行登录验证
-      // 暂时模拟登录成功
-      const user: User = {
-        id: 'user_' + Date.now(),
-        name: '测试用户',
-        email: email,
-        department: '技术部',
-        position: '软件工程师',
-        status: 'online'
-      };
-
-      // 模拟获取到的tokens
-      const tokens: AuthTokens = {
-        accessToken: 'mock_access_token',
-        refreshToken: 'mock_refresh_token',
-        expiresAt: Date.now() + (24 * 60 * 60 * 1000) // 24小时
-      };
-
-      // 保存认证信息
-      await this.secureStorageService.saveAuthTokens(tokens);
+      // 登录成功后先切换到该用户的账户，JWTAuthService再把tokens保存到这个账户下并负责刷新
+      const response = await this.authService.login({
+        email,
+        password,
+        deviceId: await this.authService.getDeviceId(),
+        deviceInfo: {
+          platform: IS_IOS ? 'ios' : IS_ANDROID ? 'android' : 'web',
+          version: APP_CONFIG.APP_VERSION,
+        },
+      }, async loginData => {
+        await this.accountService.activateAccount(loginData.user);
+      });
+      const user = this.toUser(response.user);
       
       if (rememberMe) {
         await this.secureStorageService.saveUserCredentials({
@@ -104,6 +132,9 @@ export class DataService {
       await this.storageService.setCurrentUserId(user.id);
       await this.storageService.setLastLoginTime();
 
+      // 从其他账户切换过来时恢复之前运行的连接和同步
+      await this.accountService.resumeServices();
+
       return user;
     } catch (error) {
       console.error('Login failed:', error);
@@ -111,14 +142,30 @@ export class DataService {
     }
   }
 
+  // 服务器返回的用户资料转换为本地User
+  private toUser(profile: UserProfile): User {
+    return {
+      id: profile.id,
+      name: profile.name,
+      avatar: profile.avatar,
+      email: profile.email,
+      department: profile.department,
+      position: profile.position,
+      // 本地没有“离开”状态，按忙碌显示
+      status: profile.status === UserStatus.AWAY ? 'busy' : profile.status,
+    };
+  }
+
   public async logout(): Promise<void> {
     try {
-      // 清理所有用户数据
+      // 清理所有用户数据，JWTAuthService会通知服务器并清除tokens
       await Promise.all([
-        this.secureStorageService.clearAuthTokens(),
+        this.authService.logout(),
         this.storageService.removeCurrentUserId(),
-        this.storageService.clearOfflineMessages()
+        this.storageService.clearOfflineMessages(),
+        this.downloadManager.clear()
       ]);
+      await this.accountService.signOut();
       
       console.log('User logged out successfully');
     } catch (error) {
@@ -127,6 +174,27 @@ export class DataService {
     }
   }
 
+  // === 多账户 ===
+
+  public getAccounts(): AccountProfile[] {
+    return this.accountService.getAccounts();
+  }
+
+  public getActiveAccount(): AccountProfile | null {
+    return this.accountService.getActiveAccount();
+  }
+
+  // 切换到其他已登录的账户，返回该账户的用户；登录已过期时返回null，需要重新登录
+  public async switchAccount(accountId: string): Promise<User | null> {
+    try {
+      await this.accountService.switchAccount(accountId);
+      return await this.isLoggedIn() ? await this.getCurrentUser() : null;
+    } catch (error) {
+      console.error('Switch account failed:', error);
+      throw error;
+    }
+  }
+
   public async isLoggedIn(): Promise<boolean> {
     try {
       const [hasValidTokens, currentUserId] = await Promise.all([
@@ -159,11 +227,18 @@ export class DataService {
   
   public async sendMessage(message: Omit<Message, 'id' | 'timestamp'>): Promise<Message> {
     try {
+      // 没有会话ID的消息无法投递，不保存也不加入离线队列
+      const chatId = message.chatId;
+      if (!chatId) {
+        throw new Error('Cannot send a message without chatId');
+      }
+
       const newMessage: Message = {
         ...message,
         id: 'msg_' + Date.now(),
         timestamp: new Date(),
-        isRead: false
+        isRead: false,
+        status: 'sending',
       };
 
       // 保存到本地数据库
@@ -176,15 +251,59 @@ export class DataService {
       const networkStatus = await this.storageService.getNetworkStatus();
       if (networkStatus === 'offline') {
         await this.storageService.addOfflineMessage(newMessage);
+        return newMessage;
       }
 
-      return newMessage;
+      // 通过消息通道发送（WebSocket优先，不可用时走HTTP），失败时标记为发送失败并加入离线队列，网络恢复后重试
+      try {
+        return await this.deliverMessage(newMessage);
+      } catch (error) {
+        console.error('Error delivering message, queued for retry:', error);
+        const failed = await this.markMessageFailed(newMessage);
+        await this.storageService.addOfflineMessage(failed);
+        return failed;
+      }
     } catch (error) {
       console.error('Error sending message:', error);
       throw error;
     }
   }
 
+  // 发送本地消息，成功后用服务器分配的ID替换本地临时消息。
+  // clientId固定为本地消息ID，重试时服务器据此去重
+  private async deliverMessage(message: Message): Promise<Message> {
+    const sent = await this.messageTransport.sendMessage({
+      chatId: message.chatId!,
+      type: message.type as MessageType,
+      content: message.content,
+      replyTo: message.replyTo,
+      metadata: {
+        clientId: message.id,
+        timestamp: message.timestamp.toISOString(),
+      },
+    });
+
+    const delivered: Message = {
+      ...message,
+      id: sent.id,
+      timestamp: new Date(sent.timestamp),
+      status: sent.status,
+    };
+    await this.dbService.deleteMessage(message.id);
+    await this.dbService.saveMessage(delivered);
+    return delivered;
+  }
+
+  private async markMessageFailed(message: Message): Promise<Message> {
+    const failed: Message = { ...message, status: 'failed' };
+    try {
+      await this.dbService.saveMessage(failed);
+    } catch (error) {
+      console.error('Error marking message as failed:', error);
+    }
+    return failed;
+  }
+
   public async getMessages(chatId: string, page: number = 0, pageSize: number = 20): Promise<Message[]> {
     try {
       const offset = page * pageSize;
@@ -195,6 +314,20 @@ export class DataService {
     }
   }
 
+  public async searchMessages(
+    query: string,
+    filters: SearchFilter[] = [],
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<SearchResponse<Message>> {
+    try {
+      return await this.dbService.searchMessages(query, filters, pageSize, page * pageSize);
+    } catch (error) {
+      console.error('Error searching messages:', error);
+      return { results: [], total: 0, took: 0, highlights: {} };
+    }
+  }
+
   public async markMessageAsRead(messageId: string): Promise<void> {
     try {
       // 这里需要实现标记消息为已读的逻辑
@@ -280,6 +413,36 @@ export class DataService {
     }
   }
 
+  public async getDepartmentTree(rootId?: string): Promise<DepartmentResponse[]> {
+    try {
+      return await this.dbService.getDepartmentTree(rootId);
+    } catch (error) {
+      console.error('Error getting department tree:', error);
+      return [];
+    }
+  }
+
+  public async getDepartmentBreadcrumb(departmentId: string): Promise<DepartmentResponse[]> {
+    try {
+      return await this.dbService.getDepartmentAncestors(departmentId);
+    } catch (error) {
+      console.error('Error getting department breadcrumb:', error);
+      return [];
+    }
+  }
+
+  public async getDepartmentMembers(
+    departmentId: string,
+    includeSubDepartments: boolean = false
+  ): Promise<DepartmentMember[]> {
+    try {
+      return await this.dbService.getDepartmentMembers(departmentId, includeSubDepartments);
+    } catch (error) {
+      console.error('Error getting department members:', error);
+      return [];
+    }
+  }
+
   // === 设置相关 ===
   
   public async getUserSettings(): Promise<UserSettings> {
@@ -310,18 +473,38 @@ export class DataService {
 
   // === 离线支持 ===
   
-  public async syncOfflineData(): Promise<void> {
+  // 重新发送离线队列中的消息，同时只运行一次
+  public syncOfflineData(): Promise<void> {
+    if (!this.offlineSync) {
+      this.offlineSync = this.sendOfflineMessages().finally(() => {
+        this.offlineSync = null;
+      });
+    }
+    return this.offlineSync;
+  }
+
+  // 逐条发送，送达后才从队列移除；仍未送达的消息标记为发送失败，留在队列中等待下次重试
+  private async sendOfflineMessages(): Promise<void> {
     try {
       const offlineMessages = await this.storageService.getOfflineMessages();
       
       if (offlineMessages.length > 0) {
         console.log(`Syncing ${offlineMessages.length} offline messages`);
+
+        let failedCount = 0;
+        for (const queued of offlineMessages) {
+          const message: Message = { ...queued, timestamp: new Date(queued.timestamp) };
+          try {
+            await this.deliverMessage(message);
+            await this.storageService.removeOfflineMessage(message.id);
+          } catch (error) {
+            console.error(`Error delivering offline message ${message.id}:`, error);
+            failedCount++;
+            await this.markMessageFailed(message);
+          }
+        }
         
-        // 这里应该将离线消息发送到服务器
-        // 暂时只是清理离线队列
-        await this.storageService.clearOfflineMessages();
-        
-        console.log('Offline data synced successfully');
+        console.log(`Offline messages synced, ${failedCount} still pending`);
       }
     } catch (error) {
       console.error('Error syncing offline data:', error);
@@ -366,11 +549,12 @@ export class DataService {
     }
   }
 
+  // 只清理当前账户的数据，其他账户的Token和设备级的密钥保留
   public async clearAllData(): Promise<void> {
     try {
       await Promise.all([
         this.storageService.clearAllData(),
-        this.secureStorageService.clearAllSecureData()
+        this.secureStorageService.clearAuthTokens()
         // 注意：这里没有清理数据库，因为可能需要重新初始化
       ]);
       
@@ -0,0 +1,255 @@
+import * as SQLite from 'expo-sqlite';
+import { tokenizeForIndex } from '@/utils/SearchTokenizer';
+
+// 数据库迁移定义
+export interface DatabaseMigration {
+  version: number;
+  description: string;
+  up: (tx: SQLite.SQLTransaction) => void;
+}
+
+// 按版本号升序排列，新增迁移只能追加到末尾，已发布的迁移不可修改
+export const DATABASE_MIGRATIONS: DatabaseMigration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    up: tx => {
+      // 用户表
+      tx.executeSql(`
+        CREATE TABLE IF NOT EXISTS users (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          avatar TEXT,
+          email TEXT,
+          department TEXT,
+          position TEXT,
+          phone TEXT,
+          status TEXT DEFAULT 'offline',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // 聊天会话表
+      tx.executeSql(`
+        CREATE TABLE IF NOT EXISTS chats (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL CHECK (type IN ('private', 'group')),
+          name TEXT,
+          avatar TEXT,
+          last_message_id TEXT,
+          unread_count INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // 会话参与者表
+      tx.executeSql(`
+        CREATE TABLE IF NOT EXISTS chat_participants (
+          chat_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          joined_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (chat_id, user_id),
+          FOREIGN KEY (chat_id) REFERENCES chats(id),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+      `);
+
+      // 消息表
+      tx.executeSql(`
+        CREATE TABLE IF NOT EXISTS messages (
+          id TEXT PRIMARY KEY,
+          chat_id TEXT NOT NULL,
+          sender_id TEXT NOT NULL,
+          receiver_id TEXT,
+          content TEXT NOT NULL,
+          type TEXT NOT NULL CHECK (type IN ('text', 'image', 'file')),
+          timestamp INTEGER NOT NULL,
+          is_read BOOLEAN DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (chat_id) REFERENCES chats(id),
+          FOREIGN KEY (sender_id) REFERENCES users(id)
+        );
+      `);
+
+      // 创建索引
+      tx.executeSql(`
+        CREATE INDEX IF NOT EXISTS idx_messages_chat_timestamp
+        ON messages(chat_id, timestamp DESC);
+      `);
+
+      tx.executeSql(`
+        CREATE INDEX IF NOT EXISTS idx_messages_sender
+        ON messages(sender_id);
+      `);
+
+      tx.executeSql(`
+        CREATE INDEX IF NOT EXISTS idx_chats_updated
+        ON chats(updated_at DESC);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Add reply_to, status and edited_at to messages',
+    up: tx => {
+      tx.executeSql('ALTER TABLE messages ADD COLUMN reply_to TEXT;');
+      tx.executeSql(`ALTER TABLE messages ADD COLUMN status TEXT DEFAULT 'sent';`);
+      tx.executeSql('ALTER TABLE messages ADD COLUMN edited_at INTEGER;');
+    },
+  },
+  {
+    version: 3,
+    description: 'Add full-text search index for messages',
+    up: tx => {
+      // rowid与messages表的rowid保持一致，内容为预先切分好的n-gram
+      tx.executeSql(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts
+        USING fts5(terms, chars, tokenize = 'unicode61');
+      `);
+
+      // 为已有消息建立索引
+      tx.executeSql('SELECT rowid, content FROM messages', [], (innerTx, { rows }) => {
+        for (let i = 0; i < rows.length; i++) {
+          const row = rows.item(i);
+          const indexed = tokenizeForIndex(row.content || '');
+          innerTx.executeSql(
+            'INSERT INTO messages_fts (rowid, terms, chars) VALUES (?, ?, ?)',
+            [row.rowid, indexed.terms, indexed.chars]
+          );
+        }
+      });
+    },
+  },
+  {
+    version: 4,
+    description: 'Add sync outbox table',
+    up: tx => {
+      // 待上传的本地更改，按自增id保持写入顺序
+      tx.executeSql(`
+        CREATE TABLE IF NOT EXISTS sync_outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          client_id TEXT NOT NULL UNIQUE,
+          type TEXT NOT NULL,
+          action TEXT NOT NULL,
+          data TEXT,
+          timestamp TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending'
+            CHECK (status IN ('pending', 'in_flight', 'failed', 'dead')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      tx.executeSql(`
+        CREATE INDEX IF NOT EXISTS idx_sync_outbox_status
+        ON sync_outbox(status, next_attempt_at, id);
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Track sync base versions for three-way merge',
+    up: tx => {
+      // 最近一次从服务器同步到的实体版本，作为三方合并的基准
+      tx.executeSql(`
+        CREATE TABLE IF NOT EXISTS sync_snapshots (
+          type TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          data TEXT,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (type, entity_id)
+        );
+      `);
+
+      // 本地更改产生时所基于的服务器版本
+      tx.executeSql('ALTER TABLE sync_outbox ADD COLUMN base_version INTEGER;');
+      tx.executeSql('ALTER TABLE sync_outbox ADD COLUMN base_data TEXT;');
+    },
+  },
+  {
+    version: 6,
+    description: 'Add sync tombstones for deleted entities',
+    up: tx => {
+      // 已删除实体的墓碑记录，避免晚到的创建/更新使其复活
+      tx.executeSql(`
+        CREATE TABLE IF NOT EXISTS sync_tombstones (
+          type TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          version INTEGER NOT NULL DEFAULT 0,
+          deleted_at INTEGER NOT NULL,
+          PRIMARY KEY (type, entity_id)
+        );
+      `);
+
+      tx.executeSql(`
+        CREATE INDEX IF NOT EXISTS idx_chat_participants_user
+        ON chat_participants(user_id);
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: 'Add departments and department members',
+    up: tx => {
+      // 组织架构，按parent_id组成树
+      tx.executeSql(`
+        CREATE TABLE IF NOT EXISTS departments (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          parent_id TEXT,
+          level INTEGER NOT NULL DEFAULT 0,
+          member_count INTEGER DEFAULT 0,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      tx.executeSql(`
+        CREATE TABLE IF NOT EXISTS department_members (
+          department_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          PRIMARY KEY (department_id, user_id),
+          FOREIGN KEY (department_id) REFERENCES departments(id),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+      `);
+
+      tx.executeSql(`
+        CREATE INDEX IF NOT EXISTS idx_departments_parent
+        ON departments(parent_id);
+      `);
+
+      tx.executeSql(`
+        CREATE INDEX IF NOT EXISTS idx_department_members_user
+        ON department_members(user_id);
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'Add attachment cache index',
+    up: tx => {
+      // 已下载附件的本地索引，按last_access做LRU淘汰
+      tx.executeSql(`
+        CREATE TABLE IF NOT EXISTS attachment_cache (
+          file_id TEXT PRIMARY KEY,
+          path TEXT NOT NULL,
+          size INTEGER NOT NULL DEFAULT 0,
+          mime_type TEXT,
+          last_access INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      tx.executeSql(`
+        CREATE INDEX IF NOT EXISTS idx_attachment_cache_last_access
+        ON attachment_cache(last_access);
+      `);
+    },
+  },
+];
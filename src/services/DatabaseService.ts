@@ -1,5 +1,66 @@
 import * as SQLite from 'expo-sqlite';
 import { Message, Chat, User } from '@/types';
+import {
+  SearchFilter,
+  SearchResponse,
+  FilterOperator,
+  LocalChange,
+  SyncDataType,
+  SyncAction,
+  DepartmentResponse,
+  DepartmentMember,
+} from '@/types/api';
+import { APP_CONFIG } from '@/utils/Constants';
+import {
+  tokenizeForIndex,
+  buildMatchQuery,
+  extractQueryTerms,
+  buildHighlightSnippets,
+} from '@/utils/SearchTokenizer';
+import { DATABASE_MIGRATIONS, DatabaseMigration } from './DatabaseMigrations';
+
+// 同步发件箱状态
+export enum OutboxStatus {
+  PENDING = 'pending',
+  IN_FLIGHT = 'in_flight',
+  FAILED = 'failed',
+  DEAD = 'dead',
+}
+
+// 同步发件箱条目
+export interface OutboxEntry extends LocalChange {
+  id: number;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  baseData?: any;
+}
+
+// 服务器版本快照
+export interface SyncSnapshot {
+  type: SyncDataType;
+  entityId: string;
+  version: number;
+  data: any;
+}
+
+// 已删除实体的墓碑记录
+export interface SyncTombstone {
+  type: SyncDataType;
+  entityId: string;
+  version: number;
+  deletedAt: number;
+}
+
+// 附件缓存索引条目
+export interface AttachmentCacheEntry {
+  fileId: string;
+  path: string;
+  size: number;
+  mimeType?: string;
+  lastAccess: number;
+}
 
 export class DatabaseService {
   private static instance: DatabaseService;
@@ -14,18 +75,79 @@ export class DatabaseService {
     return DatabaseService.instance;
   }
 
-  public async initialize(): Promise<void> {
+  // 每个账户使用单独的数据库文件
+  public async initialize(databaseName: string = APP_CONFIG.DATABASE_NAME): Promise<void> {
     try {
-      this.db = SQLite.openDatabase('xiaoxiang_chat.db');
-      await this.createTables();
-      console.log('Database initialized successfully');
+      await this.close();
+      this.db = SQLite.openDatabase(databaseName);
+      await this.runMigrations();
+      console.log(`Database ${databaseName} initialized successfully`);
     } catch (error) {
       console.error('Database initialization failed:', error);
       throw error;
     }
   }
 
-  private createTables(): Promise<void> {
+  // 关闭当前数据库，之后的操作会因未初始化而失败，直到重新initialize
+  public async close(): Promise<void> {
+    if (!this.db) return;
+
+    const db = this.db;
+    this.db = null;
+    try {
+      // 等待关闭完成，再打开或删除同一个数据库文件
+      await db.closeAsync();
+    } catch (error) {
+      console.error('Error closing database:', error);
+    }
+  }
+
+  // 删除数据库文件（移除账户时），不能是当前打开的数据库
+  public async deleteDatabase(databaseName: string): Promise<void> {
+    try {
+      const db = SQLite.openDatabase(databaseName);
+      await db.closeAsync();
+      await db.deleteAsync();
+      console.log(`Database ${databaseName} deleted`);
+    } catch (error) {
+      console.error(`Error deleting database ${databaseName}:`, error);
+      throw error;
+    }
+  }
+
+  // 执行数据库迁移
+  private async runMigrations(): Promise<void> {
+    const targetVersion = APP_CONFIG.DATABASE_VERSION;
+    const latestMigration = DATABASE_MIGRATIONS[DATABASE_MIGRATIONS.length - 1];
+
+    if (!latestMigration || latestMigration.version < targetVersion) {
+      throw new Error(`No migration defined for database version ${targetVersion}`);
+    }
+
+    const currentVersion = await this.getSchemaVersion();
+
+    // 数据库由更新版本的应用创建，拒绝打开以免破坏数据
+    if (currentVersion > targetVersion) {
+      throw new Error(
+        `Database version ${currentVersion} is newer than supported version ${targetVersion}`
+      );
+    }
+
+    const pendingMigrations = DATABASE_MIGRATIONS
+      .filter(migration => migration.version > currentVersion && migration.version <= targetVersion)
+      .sort((a, b) => a.version - b.version);
+
+    for (const migration of pendingMigrations) {
+      await this.applyMigration(migration);
+    }
+
+    if (pendingMigrations.length > 0) {
+      console.log(`Database migrated from version ${currentVersion} to ${targetVersion}`);
+    }
+  }
+
+  // 在单个事务中执行迁移并更新版本号
+  private applyMigration(migration: DatabaseMigration): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not initialized'));
@@ -33,92 +155,42 @@ export class DatabaseService {
       }
 
       this.db.transaction(tx => {
-        // 用户表
-        tx.executeSql(`
-          CREATE TABLE IF NOT EXISTS users (
-            id TEXT PRIMARY KEY,
-            name TEXT NOT NULL,
-            avatar TEXT,
-            email TEXT,
-            department TEXT,
-            position TEXT,
-            phone TEXT,
-            status TEXT DEFAULT 'offline',
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-          );
-        `);
-
-        // 聊天会话表
-        tx.executeSql(`
-          CREATE TABLE IF NOT EXISTS chats (
-            id TEXT PRIMARY KEY,
-            type TEXT NOT NULL CHECK (type IN ('private', 'group')),
-            name TEXT,
-            avatar TEXT,
-            last_message_id TEXT,
-            unread_count INTEGER DEFAULT 0,
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-          );
-        `);
-
-        // 会话参与者表
-        tx.executeSql(`
-          CREATE TABLE IF NOT EXISTS chat_participants (
-            chat_id TEXT NOT NULL,
-            user_id TEXT NOT NULL,
-            joined_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            PRIMARY KEY (chat_id, user_id),
-            FOREIGN KEY (chat_id) REFERENCES chats(id),
-            FOREIGN KEY (user_id) REFERENCES users(id)
-          );
-        `);
-
-        // 消息表
-        tx.executeSql(`
-          CREATE TABLE IF NOT EXISTS messages (
-            id TEXT PRIMARY KEY,
-            chat_id TEXT NOT NULL,
-            sender_id TEXT NOT NULL,
-            receiver_id TEXT,
-            content TEXT NOT NULL,
-            type TEXT NOT NULL CHECK (type IN ('text', 'image', 'file')),
-            timestamp INTEGER NOT NULL,
-            is_read BOOLEAN DEFAULT 0,
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            FOREIGN KEY (chat_id) REFERENCES chats(id),
-            FOREIGN KEY (sender_id) REFERENCES users(id)
-          );
-        `);
-
-        // 创建索引
-        tx.executeSql(`
-          CREATE INDEX IF NOT EXISTS idx_messages_chat_timestamp 
-          ON messages(chat_id, timestamp DESC);
-        `);
-
-        tx.executeSql(`
-          CREATE INDEX IF NOT EXISTS idx_messages_sender 
-          ON messages(sender_id);
-        `);
-
-        tx.executeSql(`
-          CREATE INDEX IF NOT EXISTS idx_chats_updated 
-          ON chats(updated_at DESC);
-        `);
-      }, 
+        migration.up(tx);
+        tx.executeSql(`PRAGMA user_version = ${migration.version}`);
+      },
       error => {
-        console.error('Transaction failed:', error);
+        console.error(`Migration ${migration.version} failed:`, error);
         reject(error);
       },
       () => {
-        console.log('Tables created successfully');
+        console.log(`Applied migration ${migration.version}: ${migration.description}`);
         resolve();
       });
     });
   }
 
+  // 读取当前数据库版本
+  public getSchemaVersion(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db.transaction(tx => {
+        tx.executeSql(
+          'PRAGMA user_version',
+          [],
+          (_, { rows }) => resolve(rows.length > 0 ? Number(rows.item(0).user_version) || 0 : 0),
+          (_, error) => {
+            reject(error);
+            return false;
+          }
+        );
+      });
+    });
+  }
+
   // 用户相关操作
   public async saveUser(user: User): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -189,20 +261,89 @@ export class DatabaseService {
         return;
       }
 
+      const indexed = tokenizeForIndex(message.content);
+
       this.db.transaction(tx => {
+        // REPLACE会分配新的rowid，先移除旧的索引记录
+        tx.executeSql(
+          'DELETE FROM messages_fts WHERE rowid IN (SELECT rowid FROM messages WHERE id = ?)',
+          [message.id]
+        );
         tx.executeSql(
           `INSERT OR REPLACE INTO messages 
-           (id, chat_id, sender_id, receiver_id, content, type, timestamp, is_read) 
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-          [message.id, message.senderId, message.senderId, message.receiverId, 
-           message.content, message.type, message.timestamp.getTime(), message.isRead ? 1 : 0],
-          () => resolve(),
-          (_, error) => {
-            reject(error);
-            return false;
-          }
+           (id, chat_id, sender_id, receiver_id, content, type, timestamp, is_read, reply_to, status, edited_at) 
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [message.id, message.chatId || message.senderId, message.senderId, message.receiverId, 
+           message.content, message.type, message.timestamp.getTime(), message.isRead ? 1 : 0,
+           message.replyTo || null, message.status || 'sent',
+           message.editedAt ? message.editedAt.getTime() : null]
         );
-      });
+        tx.executeSql(
+          `INSERT INTO messages_fts (rowid, terms, chars)
+           SELECT rowid, ?, ? FROM messages WHERE id = ?`,
+          [indexed.terms, indexed.chars, message.id]
+        );
+      },
+      error => reject(error),
+      () => resolve());
+    });
+  }
+
+  public async deleteMessage(messageId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db.transaction(tx => {
+        tx.executeSql(
+          'DELETE FROM messages_fts WHERE rowid IN (SELECT rowid FROM messages WHERE id = ?)',
+          [messageId]
+        );
+        tx.executeSql('DELETE FROM messages WHERE id = ?', [messageId]);
+      },
+      error => reject(error),
+      () => resolve());
+    });
+  }
+
+  // 删除会话及其参与者和消息
+  public async deleteChat(chatId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db.transaction(tx => {
+        tx.executeSql(
+          'DELETE FROM messages_fts WHERE rowid IN (SELECT rowid FROM messages WHERE chat_id = ?)',
+          [chatId]
+        );
+        tx.executeSql('DELETE FROM messages WHERE chat_id = ?', [chatId]);
+        tx.executeSql('DELETE FROM chat_participants WHERE chat_id = ?', [chatId]);
+        tx.executeSql('DELETE FROM chats WHERE id = ?', [chatId]);
+      },
+      error => reject(error),
+      () => resolve());
+    });
+  }
+
+  // 删除用户及其会话参与记录，用户发送的消息保留
+  public async deleteUser(userId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db.transaction(tx => {
+        tx.executeSql('DELETE FROM chat_participants WHERE user_id = ?', [userId]);
+        tx.executeSql('DELETE FROM users WHERE id = ?', [userId]);
+      },
+      error => reject(error),
+      () => resolve());
     });
   }
 
@@ -223,16 +364,7 @@ export class DatabaseService {
           (_, { rows }) => {
             const messages: Message[] = [];
             for (let i = 0; i < rows.length; i++) {
-              const row = rows.item(i);
-              messages.push({
-                id: row.id,
-                senderId: row.sender_id,
-                receiverId: row.receiver_id,
-                content: row.content,
-                type: row.type,
-                timestamp: new Date(row.timestamp),
-                isRead: Boolean(row.is_read)
-              });
+              messages.push(this.mapMessageRow(rows.item(i)));
             }
             resolve(messages.reverse()); // 返回正序
           },
@@ -245,6 +377,153 @@ export class DatabaseService {
     });
   }
 
+  // 全文搜索消息，支持按会话、发送者和时间范围过滤
+  public async searchMessages(
+    query: string,
+    filters: SearchFilter[] = [],
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<SearchResponse<Message>> {
+    const startTime = Date.now();
+    const matchQuery = buildMatchQuery(query);
+
+    if (!matchQuery) {
+      return { results: [], total: 0, took: 0, highlights: {} };
+    }
+
+    const { clause, params } = this.buildMessageFilterClause(filters);
+    const whereClause = `messages_fts MATCH ?${clause ? ` AND ${clause}` : ''}`;
+
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      let total = 0;
+      const results: Message[] = [];
+
+      this.db.readTransaction(tx => {
+        tx.executeSql(
+          `SELECT COUNT(*) AS total
+           FROM messages_fts f
+           JOIN messages m ON m.rowid = f.rowid
+           WHERE ${whereClause}`,
+          [matchQuery, ...params],
+          (_, { rows }) => {
+            total = rows.length > 0 ? rows.item(0).total : 0;
+          }
+        );
+        tx.executeSql(
+          `SELECT m.*
+           FROM messages_fts f
+           JOIN messages m ON m.rowid = f.rowid
+           WHERE ${whereClause}
+           ORDER BY bm25(messages_fts), m.timestamp DESC
+           LIMIT ? OFFSET ?`,
+          [matchQuery, ...params, limit, offset],
+          (_, { rows }) => {
+            for (let i = 0; i < rows.length; i++) {
+              results.push(this.mapMessageRow(rows.item(i)));
+            }
+          }
+        );
+      },
+      error => reject(error),
+      () => {
+        const terms = extractQueryTerms(query);
+        const highlights: Record<string, string[]> = {};
+        results.forEach(message => {
+          highlights[message.id] = buildHighlightSnippets(message.content, terms);
+        });
+
+        resolve({
+          results,
+          total,
+          took: Date.now() - startTime,
+          highlights,
+        });
+      });
+    });
+  }
+
+  // 将搜索过滤条件转换为SQL条件
+  private buildMessageFilterClause(filters: SearchFilter[]): { clause: string; params: (string | number)[] } {
+    const columns: Record<string, string> = {
+      chatId: 'm.chat_id',
+      senderId: 'm.sender_id',
+      timestamp: 'm.timestamp',
+    };
+
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    filters.forEach(filter => {
+      const column = columns[filter.field];
+      if (!column) {
+        throw new Error(`Unsupported search filter field: ${filter.field}`);
+      }
+
+      const toParam = (value: any): string | number =>
+        filter.field === 'timestamp' ? new Date(value).getTime() : String(value);
+
+      switch (filter.operator) {
+        case FilterOperator.EQUALS:
+          conditions.push(`${column} = ?`);
+          params.push(toParam(filter.value));
+          break;
+        case FilterOperator.NOT_EQUALS:
+          conditions.push(`${column} != ?`);
+          params.push(toParam(filter.value));
+          break;
+        case FilterOperator.GREATER_THAN:
+          conditions.push(`${column} > ?`);
+          params.push(toParam(filter.value));
+          break;
+        case FilterOperator.LESS_THAN:
+          conditions.push(`${column} < ?`);
+          params.push(toParam(filter.value));
+          break;
+        case FilterOperator.IN:
+        case FilterOperator.NOT_IN: {
+          const values: any[] = Array.isArray(filter.value) ? filter.value : [filter.value];
+          if (values.length === 0) {
+            // 空集合：IN永远不成立，NOT IN永远成立
+            if (filter.operator === FilterOperator.IN) {
+              conditions.push('0');
+            }
+            break;
+          }
+          const placeholders = values.map(() => '?').join(', ');
+          const operator = filter.operator === FilterOperator.IN ? 'IN' : 'NOT IN';
+          conditions.push(`${column} ${operator} (${placeholders})`);
+          params.push(...values.map(toParam));
+          break;
+        }
+        default:
+          throw new Error(`Unsupported search filter operator: ${filter.operator}`);
+      }
+    });
+
+    return { clause: conditions.join(' AND '), params };
+  }
+
+  private mapMessageRow(row: any): Message {
+    return {
+      id: row.id,
+      chatId: row.chat_id,
+      senderId: row.sender_id,
+      receiverId: row.receiver_id,
+      content: row.content,
+      type: row.type,
+      timestamp: new Date(row.timestamp),
+      isRead: Boolean(row.is_read),
+      replyTo: row.reply_to || undefined,
+      status: row.status || undefined,
+      editedAt: row.edited_at ? new Date(row.edited_at) : undefined
+    };
+  }
+
   // 聊天会话相关操作
   public async saveChat(chat: Chat): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -317,6 +596,560 @@ export class DatabaseService {
     });
   }
 
+  // 组织架构相关操作
+  // 保存部门；带members时同时替换该部门的成员列表
+  public async saveDepartment(department: DepartmentResponse): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db.transaction(tx => {
+        tx.executeSql(
+          `INSERT OR REPLACE INTO departments
+           (id, name, parent_id, level, member_count, updated_at)
+           VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+          [department.id, department.name, department.parentId || null, department.level,
+           department.memberCount ?? department.members?.length ?? 0]
+        );
+
+        if (department.members) {
+          tx.executeSql('DELETE FROM department_members WHERE department_id = ?', [department.id]);
+          department.members.forEach(member => {
+            tx.executeSql(
+              `INSERT OR REPLACE INTO users
+               (id, name, avatar, email, department, position, phone, status, updated_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+              [member.id, member.name, member.avatar || null, member.email,
+               department.name, member.position, member.phone || null, member.status]
+            );
+            tx.executeSql(
+              'INSERT OR IGNORE INTO department_members (department_id, user_id) VALUES (?, ?)',
+              [department.id, member.id]
+            );
+          });
+        }
+      },
+      error => reject(error),
+      () => resolve());
+    });
+  }
+
+  // 删除部门及其成员关系，子部门由服务器单独下发删除
+  public async deleteDepartment(departmentId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db.transaction(tx => {
+        tx.executeSql('DELETE FROM department_members WHERE department_id = ?', [departmentId]);
+        tx.executeSql('DELETE FROM departments WHERE id = ?', [departmentId]);
+      },
+      error => reject(error),
+      () => resolve());
+    });
+  }
+
+  public async getDepartment(departmentId: string): Promise<DepartmentResponse | null> {
+    const { rows } = await this.executeSql('SELECT * FROM departments WHERE id = ?', [departmentId]);
+    return rows.length > 0 ? this.mapDepartmentRow(rows.item(0)) : null;
+  }
+
+  // 获取部门树；指定rootId时只返回该部门及其子树
+  public async getDepartmentTree(rootId?: string): Promise<DepartmentResponse[]> {
+    const { rows } = await this.executeSql('SELECT * FROM departments ORDER BY level ASC, name ASC');
+
+    const departments = new Map<string, DepartmentResponse>();
+    for (let i = 0; i < rows.length; i++) {
+      const department = this.mapDepartmentRow(rows.item(i));
+      department.children = [];
+      departments.set(department.id, department);
+    }
+
+    const roots: DepartmentResponse[] = [];
+    departments.forEach(department => {
+      const parent = department.parentId ? departments.get(department.parentId) : undefined;
+      if (parent) {
+        parent.children!.push(department);
+      } else {
+        roots.push(department);
+      }
+    });
+
+    if (rootId) {
+      const root = departments.get(rootId);
+      return root ? [root] : [];
+    }
+    return roots;
+  }
+
+  // 获取直属子部门
+  public async getChildDepartments(parentId?: string): Promise<DepartmentResponse[]> {
+    const { rows } = parentId
+      ? await this.executeSql('SELECT * FROM departments WHERE parent_id = ? ORDER BY name ASC', [parentId])
+      : await this.executeSql('SELECT * FROM departments WHERE parent_id IS NULL ORDER BY name ASC');
+
+    const departments: DepartmentResponse[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      departments.push(this.mapDepartmentRow(rows.item(i)));
+    }
+    return departments;
+  }
+
+  // 获取从根部门到指定部门的路径（面包屑），包含部门本身
+  public async getDepartmentAncestors(departmentId: string): Promise<DepartmentResponse[]> {
+    const { rows } = await this.executeSql(
+      `WITH RECURSIVE ancestors(id, name, parent_id, level, member_count, depth) AS (
+         SELECT id, name, parent_id, level, member_count, 0 FROM departments WHERE id = ?
+         UNION ALL
+         SELECT d.id, d.name, d.parent_id, d.level, d.member_count, a.depth + 1
+         FROM departments d JOIN ancestors a ON d.id = a.parent_id
+         WHERE a.depth < 64
+       )
+       SELECT * FROM ancestors ORDER BY depth DESC`,
+      [departmentId]
+    );
+
+    const ancestors: DepartmentResponse[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      ancestors.push(this.mapDepartmentRow(rows.item(i)));
+    }
+    return ancestors;
+  }
+
+  // 获取部门成员；includeSubDepartments为true时包含整个子树的成员
+  public async getDepartmentMembers(
+    departmentId: string,
+    includeSubDepartments: boolean = false,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<DepartmentMember[]> {
+    const { rows } = includeSubDepartments
+      ? await this.executeSql(
+          `WITH RECURSIVE subtree(id, depth) AS (
+             SELECT id, 0 FROM departments WHERE id = ?
+             UNION
+             SELECT d.id, s.depth + 1 FROM departments d JOIN subtree s ON d.parent_id = s.id
+             WHERE s.depth < 64
+           )
+           SELECT DISTINCT u.* FROM users u
+           JOIN department_members dm ON dm.user_id = u.id
+           WHERE dm.department_id IN (SELECT id FROM subtree)
+           ORDER BY u.name ASC
+           LIMIT ? OFFSET ?`,
+          [departmentId, limit, offset]
+        )
+      : await this.executeSql(
+          `SELECT u.* FROM users u
+           JOIN department_members dm ON dm.user_id = u.id
+           WHERE dm.department_id = ?
+           ORDER BY u.name ASC
+           LIMIT ? OFFSET ?`,
+          [departmentId, limit, offset]
+        );
+
+    const members: DepartmentMember[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows.item(i);
+      members.push({
+        id: row.id,
+        name: row.name,
+        position: row.position,
+        avatar: row.avatar || undefined,
+        status: row.status,
+        email: row.email,
+        phone: row.phone || undefined,
+      });
+    }
+    return members;
+  }
+
+  private mapDepartmentRow(row: any): DepartmentResponse {
+    return {
+      id: row.id,
+      name: row.name,
+      parentId: row.parent_id || undefined,
+      level: row.level,
+      memberCount: row.member_count,
+    };
+  }
+
+  // 同步发件箱相关操作
+  public async enqueueOutboxChange(change: LocalChange, baseData?: any): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const data = JSON.stringify(change.data ?? null);
+
+      this.db.transaction(tx => {
+        // 同一clientId重复写入时覆盖内容并重新排队，但保留原有顺序和合并基准
+        tx.executeSql(
+          `INSERT OR IGNORE INTO sync_outbox
+           (client_id, type, action, data, timestamp, base_version, base_data)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [change.clientId, change.type, change.action, data, change.timestamp,
+           change.baseVersion ?? null, baseData === undefined ? null : JSON.stringify(baseData)]
+        );
+        tx.executeSql(
+          `UPDATE sync_outbox
+           SET type = ?, action = ?, data = ?, timestamp = ?, status = ?,
+               attempts = 0, next_attempt_at = 0, last_error = NULL, updated_at = CURRENT_TIMESTAMP
+           WHERE client_id = ?`,
+          [change.type, change.action, data, change.timestamp, OutboxStatus.PENDING, change.clientId]
+        );
+      },
+      error => reject(error),
+      () => resolve());
+    });
+  }
+
+  // 获取可以上传的更改（按写入顺序）
+  public async getReadyOutboxEntries(limit: number, now: number = Date.now()): Promise<OutboxEntry[]> {
+    const { rows } = await this.executeSql(
+      `SELECT * FROM sync_outbox
+       WHERE status IN (?, ?) AND next_attempt_at <= ?
+       ORDER BY id ASC
+       LIMIT ?`,
+      [OutboxStatus.PENDING, OutboxStatus.FAILED, now, limit]
+    );
+    return this.mapOutboxRows(rows);
+  }
+
+  // 查看发件箱内容，用于调试和诊断
+  public async getOutboxEntries(status?: OutboxStatus, limit: number = 100, offset: number = 0): Promise<OutboxEntry[]> {
+    const { rows } = status
+      ? await this.executeSql(
+          'SELECT * FROM sync_outbox WHERE status = ? ORDER BY id ASC LIMIT ? OFFSET ?',
+          [status, limit, offset]
+        )
+      : await this.executeSql(
+          'SELECT * FROM sync_outbox ORDER BY id ASC LIMIT ? OFFSET ?',
+          [limit, offset]
+        );
+    return this.mapOutboxRows(rows);
+  }
+
+  // 获取某类数据尚在排队（未在上传中）的更改
+  public async getQueuedOutboxEntries(type: SyncDataType): Promise<OutboxEntry[]> {
+    const { rows } = await this.executeSql(
+      'SELECT * FROM sync_outbox WHERE type = ? AND status IN (?, ?) ORDER BY id ASC',
+      [type, OutboxStatus.PENDING, OutboxStatus.FAILED]
+    );
+    return this.mapOutboxRows(rows);
+  }
+
+  public async getOutboxEntry(clientId: string): Promise<OutboxEntry | null> {
+    const { rows } = await this.executeSql('SELECT * FROM sync_outbox WHERE client_id = ?', [clientId]);
+    const entries = this.mapOutboxRows(rows);
+    return entries.length > 0 ? entries[0] : null;
+  }
+
+  public async getOutboxStats(): Promise<Record<OutboxStatus, number>> {
+    const stats: Record<OutboxStatus, number> = {
+      [OutboxStatus.PENDING]: 0,
+      [OutboxStatus.IN_FLIGHT]: 0,
+      [OutboxStatus.FAILED]: 0,
+      [OutboxStatus.DEAD]: 0,
+    };
+
+    const { rows } = await this.executeSql(
+      'SELECT status, COUNT(*) AS count FROM sync_outbox GROUP BY status'
+    );
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows.item(i);
+      stats[row.status as OutboxStatus] = row.count;
+    }
+    return stats;
+  }
+
+  public async markOutboxInFlight(clientIds: string[]): Promise<void> {
+    await this.updateOutboxStatus(clientIds, OutboxStatus.IN_FLIGHT);
+  }
+
+  // 标记上传失败：增加重试次数，超过上限的条目进入dead状态不再自动重试
+  public async markOutboxFailed(
+    clientIds: string[],
+    errorMessage: string,
+    maxAttempts: number,
+    retryDelay: number
+  ): Promise<void> {
+    if (clientIds.length === 0) return;
+
+    const placeholders = clientIds.map(() => '?').join(', ');
+    await this.executeSql(
+      `UPDATE sync_outbox
+       SET attempts = attempts + 1,
+           last_error = ?,
+           status = CASE WHEN attempts + 1 >= ? THEN ? ELSE ? END,
+           next_attempt_at = ? + ? * (attempts + 1),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE client_id IN (${placeholders})`,
+      [errorMessage, maxAttempts, OutboxStatus.DEAD, OutboxStatus.FAILED,
+       Date.now(), retryDelay, ...clientIds]
+    );
+  }
+
+  // 重新排队dead条目
+  public async requeueOutboxEntries(clientIds: string[]): Promise<void> {
+    if (clientIds.length === 0) return;
+
+    const placeholders = clientIds.map(() => '?').join(', ');
+    await this.executeSql(
+      `UPDATE sync_outbox
+       SET status = ?, attempts = 0, next_attempt_at = 0, last_error = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE client_id IN (${placeholders})`,
+      [OutboxStatus.PENDING, ...clientIds]
+    );
+  }
+
+  // 暂停上传等待手动处理的条目，处理完成后通过requeueOutboxEntries恢复
+  public async holdOutboxEntry(clientId: string, reason: string): Promise<void> {
+    await this.executeSql(
+      `UPDATE sync_outbox SET status = ?, last_error = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE client_id = ?`,
+      [OutboxStatus.DEAD, reason, clientId]
+    );
+  }
+
+  // 应用重启后，上次未完成的上传重新排队
+  public async resetInFlightOutboxEntries(): Promise<number> {
+    const result = await this.executeSql(
+      'UPDATE sync_outbox SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE status = ?',
+      [OutboxStatus.PENDING, OutboxStatus.IN_FLIGHT]
+    );
+    return result.rowsAffected;
+  }
+
+  public async updateOutboxData(clientId: string, data: any): Promise<void> {
+    await this.executeSql(
+      'UPDATE sync_outbox SET data = ?, updated_at = CURRENT_TIMESTAMP WHERE client_id = ?',
+      [JSON.stringify(data ?? null), clientId]
+    );
+  }
+
+  // 合并冲突后以新的服务器版本为基准重新排队
+  public async rebaseOutboxEntry(
+    clientId: string,
+    data: any,
+    baseData: any,
+    baseVersion: number | undefined,
+    maxAttempts: number
+  ): Promise<void> {
+    await this.executeSql(
+      `UPDATE sync_outbox
+       SET data = ?, base_data = ?, base_version = ?,
+           attempts = attempts + 1,
+           status = CASE WHEN attempts + 1 >= ? THEN ? ELSE ? END,
+           next_attempt_at = 0,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE client_id = ?`,
+      [JSON.stringify(data ?? null), JSON.stringify(baseData ?? null), baseVersion ?? null,
+       maxAttempts, OutboxStatus.DEAD, OutboxStatus.PENDING, clientId]
+    );
+  }
+
+  public async removeOutboxEntries(clientIds: string[]): Promise<void> {
+    if (clientIds.length === 0) return;
+
+    const placeholders = clientIds.map(() => '?').join(', ');
+    await this.executeSql(
+      `DELETE FROM sync_outbox WHERE client_id IN (${placeholders})`,
+      clientIds
+    );
+  }
+
+  private async updateOutboxStatus(clientIds: string[], status: OutboxStatus): Promise<void> {
+    if (clientIds.length === 0) return;
+
+    const placeholders = clientIds.map(() => '?').join(', ');
+    await this.executeSql(
+      `UPDATE sync_outbox SET status = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE client_id IN (${placeholders})`,
+      [status, ...clientIds]
+    );
+  }
+
+  private mapOutboxRows(rows: SQLite.SQLResultSetRowList): OutboxEntry[] {
+    const entries: OutboxEntry[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows.item(i);
+      let data: any = null;
+      let baseData: any;
+      try {
+        data = row.data ? JSON.parse(row.data) : null;
+        baseData = row.base_data ? JSON.parse(row.base_data) : undefined;
+      } catch (error) {
+        console.warn(`Invalid outbox data for ${row.client_id}:`, error);
+      }
+
+      entries.push({
+        id: row.id,
+        clientId: row.client_id,
+        type: row.type as SyncDataType,
+        action: row.action as SyncAction,
+        data,
+        timestamp: row.timestamp,
+        status: row.status as OutboxStatus,
+        attempts: row.attempts,
+        nextAttemptAt: row.next_attempt_at,
+        lastError: row.last_error || undefined,
+        baseVersion: row.base_version ?? undefined,
+        baseData,
+      });
+    }
+    return entries;
+  }
+
+  // 服务器版本快照相关操作
+  public async saveSyncSnapshot(snapshot: SyncSnapshot): Promise<void> {
+    await this.executeSql(
+      `INSERT OR REPLACE INTO sync_snapshots (type, entity_id, version, data, updated_at)
+       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [snapshot.type, snapshot.entityId, snapshot.version, JSON.stringify(snapshot.data ?? null)]
+    );
+  }
+
+  public async getSyncSnapshot(type: SyncDataType, entityId: string): Promise<SyncSnapshot | null> {
+    const { rows } = await this.executeSql(
+      'SELECT * FROM sync_snapshots WHERE type = ? AND entity_id = ?',
+      [type, entityId]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const row = rows.item(0);
+    return {
+      type: row.type as SyncDataType,
+      entityId: row.entity_id,
+      version: row.version,
+      data: row.data ? JSON.parse(row.data) : null,
+    };
+  }
+
+  public async removeSyncSnapshot(type: SyncDataType, entityId: string): Promise<void> {
+    await this.executeSql(
+      'DELETE FROM sync_snapshots WHERE type = ? AND entity_id = ?',
+      [type, entityId]
+    );
+  }
+
+  public async saveSyncTombstone(tombstone: SyncTombstone): Promise<void> {
+    await this.executeSql(
+      `INSERT OR REPLACE INTO sync_tombstones (type, entity_id, version, deleted_at)
+       VALUES (?, ?, ?, ?)`,
+      [tombstone.type, tombstone.entityId, tombstone.version, tombstone.deletedAt]
+    );
+  }
+
+  public async getSyncTombstone(type: SyncDataType, entityId: string): Promise<SyncTombstone | null> {
+    const { rows } = await this.executeSql(
+      'SELECT * FROM sync_tombstones WHERE type = ? AND entity_id = ?',
+      [type, entityId]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const row = rows.item(0);
+    return {
+      type: row.type as SyncDataType,
+      entityId: row.entity_id,
+      version: row.version,
+      deletedAt: row.deleted_at,
+    };
+  }
+
+  public async removeSyncTombstone(type: SyncDataType, entityId: string): Promise<void> {
+    await this.executeSql(
+      'DELETE FROM sync_tombstones WHERE type = ? AND entity_id = ?',
+      [type, entityId]
+    );
+  }
+
+  // 附件缓存索引相关操作
+  public async saveAttachment(entry: AttachmentCacheEntry): Promise<void> {
+    await this.executeSql(
+      `INSERT OR REPLACE INTO attachment_cache (file_id, path, size, mime_type, last_access)
+       VALUES (?, ?, ?, ?, ?)`,
+      [entry.fileId, entry.path, entry.size, entry.mimeType || null, entry.lastAccess]
+    );
+  }
+
+  public async getAttachment(fileId: string): Promise<AttachmentCacheEntry | null> {
+    const { rows } = await this.executeSql('SELECT * FROM attachment_cache WHERE file_id = ?', [fileId]);
+    return rows.length > 0 ? this.mapAttachmentRows(rows)[0] : null;
+  }
+
+  // 按最近访问时间从旧到新返回，用于LRU淘汰
+  public async getAttachmentsByLastAccess(): Promise<AttachmentCacheEntry[]> {
+    const { rows } = await this.executeSql('SELECT * FROM attachment_cache ORDER BY last_access ASC');
+    return this.mapAttachmentRows(rows);
+  }
+
+  public async getAttachmentCacheSize(): Promise<number> {
+    const { rows } = await this.executeSql('SELECT COALESCE(SUM(size), 0) AS total FROM attachment_cache');
+    return rows.item(0).total;
+  }
+
+  public async touchAttachment(fileId: string, lastAccess: number = Date.now()): Promise<void> {
+    await this.executeSql('UPDATE attachment_cache SET last_access = ? WHERE file_id = ?', [lastAccess, fileId]);
+  }
+
+  public async removeAttachments(fileIds: string[]): Promise<void> {
+    if (fileIds.length === 0) return;
+
+    const placeholders = fileIds.map(() => '?').join(', ');
+    await this.executeSql(`DELETE FROM attachment_cache WHERE file_id IN (${placeholders})`, fileIds);
+  }
+
+  public async clearAttachments(): Promise<void> {
+    await this.executeSql('DELETE FROM attachment_cache');
+  }
+
+  private mapAttachmentRows(rows: SQLite.SQLResultSetRowList): AttachmentCacheEntry[] {
+    const entries: AttachmentCacheEntry[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows.item(i);
+      entries.push({
+        fileId: row.file_id,
+        path: row.path,
+        size: row.size,
+        mimeType: row.mime_type || undefined,
+        lastAccess: row.last_access,
+      });
+    }
+    return entries;
+  }
+
+  // 执行单条SQL语句
+  private executeSql(sql: string, params: (string | number | null)[] = []): Promise<SQLite.SQLResultSet> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      this.db.transaction(tx => {
+        tx.executeSql(
+          sql,
+          params,
+          (_, result) => resolve(result),
+          (_, error) => {
+            reject(error);
+            return false;
+          }
+        );
+      });
+    });
+  }
+
   // 清理旧数据
   public async cleanupOldData(daysToKeep: number = 30): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -328,6 +1161,11 @@ export class DatabaseService {
       const cutoffTime = Date.now() - (daysToKeep * 24 * 60 * 60 * 1000);
 
       this.db.transaction(tx => {
+        tx.executeSql(
+          'DELETE FROM messages_fts WHERE rowid IN (SELECT rowid FROM messages WHERE timestamp < ?)',
+          [cutoffTime]
+        );
+        tx.executeSql('DELETE FROM sync_tombstones WHERE deleted_at < ?', [cutoffTime]);
         tx.executeSql(
           'DELETE FROM messages WHERE timestamp < ?',
           [cutoffTime],
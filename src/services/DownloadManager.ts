@@ -0,0 +1,296 @@
+import * as FileSystem from 'expo-file-system';
+import { FileResponse, ApiError } from '@/types/api';
+import { ApiClient } from './ApiClient';
+import { createAuthenticatedApiClient } from './AuthenticatedApiClient';
+import { API_ENDPOINTS, callEndpoint } from './ApiEndpoints';
+import { JWTAuthService } from './JWTAuthService';
+import { DatabaseService } from './DatabaseService';
+import { StorageService } from './StorageService';
+import { ERROR_CODES, ERROR_MESSAGES } from '@/utils/Constants';
+import { logger } from '@/utils';
+
+export interface DownloadProgress {
+  fileId: string;
+  loaded: number;
+  total: number; // 服务器未返回Content-Length时为-1
+}
+
+export type DownloadProgressListener = (progress: DownloadProgress) => void;
+
+export interface DownloadOptions {
+  url?: string; // 已知下载地址时可跳过GET /files/{fileId}
+  mimeType?: string;
+  onProgress?: DownloadProgressListener;
+}
+
+// 进行中的下载，同一文件的并发请求共享
+interface ActiveDownload {
+  promise: Promise<string>;
+  resumable: FileSystem.DownloadResumable | null;
+  listeners: Set<DownloadProgressListener>;
+  cancelled: boolean;
+}
+
+export const DEFAULT_ATTACHMENT_DIRECTORY = 'attachments';
+
+// 附件下载管理：文件保存在本地缓存目录，索引记录在SQLite中，总大小超过AppConfig.cacheMaxSize时按LRU淘汰
+export class DownloadManager {
+  private static instance: DownloadManager;
+  private apiClient: ApiClient;
+  private authService: JWTAuthService;
+  private dbService: DatabaseService;
+  private storageService: StorageService;
+  private downloads: Map<string, ActiveDownload> = new Map();
+  private directory = `${FileSystem.cacheDirectory}${DEFAULT_ATTACHMENT_DIRECTORY}/`;
+  private directoryReady: Promise<void> | null = null;
+
+  private constructor() {
+    this.authService = JWTAuthService.getInstance();
+    this.dbService = DatabaseService.getInstance();
+    this.storageService = StorageService.getInstance();
+    this.apiClient = createAuthenticatedApiClient();
+  }
+
+  public static getInstance(): DownloadManager {
+    if (!DownloadManager.instance) {
+      DownloadManager.instance = new DownloadManager();
+    }
+    return DownloadManager.instance;
+  }
+
+  // 返回附件的本地路径，未缓存时下载；同一文件的并发调用只下载一次
+  public async download(fileId: string, options: DownloadOptions = {}): Promise<string> {
+    const active = this.downloads.get(fileId);
+    if (active) {
+      if (options.onProgress) active.listeners.add(options.onProgress);
+      return active.promise;
+    }
+
+    const cachedPath = await this.getCachedPath(fileId);
+    if (cachedPath) {
+      return cachedPath;
+    }
+
+    // 检查缓存期间可能已有其他调用开始下载
+    const started = this.downloads.get(fileId);
+    if (started) {
+      if (options.onProgress) started.listeners.add(options.onProgress);
+      return started.promise;
+    }
+
+    const download: ActiveDownload = {
+      promise: Promise.resolve(''),
+      resumable: null,
+      listeners: new Set(options.onProgress ? [options.onProgress] : []),
+      cancelled: false,
+    };
+    download.promise = this.performDownload(fileId, download, options).finally(() => {
+      this.downloads.delete(fileId);
+    });
+    this.downloads.set(fileId, download);
+
+    return download.promise;
+  }
+
+  // 已缓存时返回本地路径并更新访问时间；文件被系统清理时同步删除索引
+  public async getCachedPath(fileId: string): Promise<string | null> {
+    const entry = await this.dbService.getAttachment(fileId);
+    if (!entry) {
+      return null;
+    }
+
+    const info = await FileSystem.getInfoAsync(entry.path);
+    if (!info.exists) {
+      await this.dbService.removeAttachments([fileId]);
+      return null;
+    }
+
+    await this.dbService.touchAttachment(fileId);
+    return entry.path;
+  }
+
+  public isDownloading(fileId: string): boolean {
+    return this.downloads.has(fileId);
+  }
+
+  // 取消下载，所有等待该文件的调用都会收到错误
+  public async cancel(fileId: string): Promise<void> {
+    const download = this.downloads.get(fileId);
+    if (!download) return;
+
+    download.cancelled = true;
+    await download.resumable?.cancelAsync().catch(error => {
+      logger.warn('DownloadManager', `Failed to cancel download ${fileId}`, error);
+    });
+  }
+
+  public async getCacheSize(): Promise<number> {
+    return this.dbService.getAttachmentCacheSize();
+  }
+
+  // 缓存超过上限时删除最久未访问的附件，返回释放的字节数
+  public async enforceCacheLimit(maxSize?: number): Promise<number> {
+    const limit = maxSize ?? (await this.storageService.getAppConfig()).cacheMaxSize;
+    const entries = await this.dbService.getAttachmentsByLastAccess();
+
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    if (total <= limit) return 0;
+
+    const evicted: string[] = [];
+    let freed = 0;
+    for (const entry of entries) {
+      if (total <= limit) break;
+      // 正在被下载覆盖的文件不删除
+      if (this.downloads.has(entry.fileId)) continue;
+
+      await FileSystem.deleteAsync(entry.path, { idempotent: true }).catch(error => {
+        logger.warn('DownloadManager', `Failed to delete cached file ${entry.fileId}`, error);
+      });
+      evicted.push(entry.fileId);
+      total -= entry.size;
+      freed += entry.size;
+    }
+
+    await this.dbService.removeAttachments(evicted);
+    logger.info('DownloadManager', `Evicted ${evicted.length} attachments, ${total} bytes remaining`);
+    return freed;
+  }
+
+  // 切换缓存目录（每个账户一个），进行中的下载会被取消
+  public async setDirectory(name: string): Promise<void> {
+    await this.cancelAll();
+    this.directory = `${FileSystem.cacheDirectory}${name}/`;
+    this.directoryReady = null;
+  }
+
+  // 删除某个缓存目录（移除账户时），不能是当前使用的目录
+  public async deleteDirectory(name: string): Promise<void> {
+    await FileSystem.deleteAsync(`${FileSystem.cacheDirectory}${name}/`, { idempotent: true });
+  }
+
+  public async cancelAll(): Promise<void> {
+    await Promise.all(Array.from(this.downloads.keys()).map(fileId => this.cancel(fileId)));
+  }
+
+  // 清空附件缓存（如退出登录时）
+  public async clear(): Promise<void> {
+    await this.cancelAll();
+    await FileSystem.deleteAsync(this.directory, { idempotent: true });
+    await this.dbService.clearAttachments();
+    this.directoryReady = null;
+  }
+
+  private async performDownload(
+    fileId: string,
+    download: ActiveDownload,
+    options: DownloadOptions
+  ): Promise<string> {
+    let url = options.url;
+    let mimeType = options.mimeType;
+
+    if (!url) {
+      const file = await this.getFileInfo(fileId);
+      url = file.url;
+      mimeType = mimeType || file.mimeType;
+    }
+
+    await this.ensureDirectory();
+    if (download.cancelled) {
+      throw createDownloadError(ERROR_CODES.DOWNLOAD_CANCELLED, fileId);
+    }
+
+    const path = `${this.directory}${encodeURIComponent(fileId)}`;
+    const token = this.authService.getAccessToken();
+
+    download.resumable = FileSystem.createDownloadResumable(
+      url,
+      path,
+      { headers: token ? { Authorization: `Bearer ${token}` } : {} },
+      data => this.emitProgress(download, {
+        fileId,
+        loaded: data.totalBytesWritten,
+        total: data.totalBytesExpectedToWrite,
+      })
+    );
+
+    let result: FileSystem.FileSystemDownloadResult | undefined;
+    try {
+      result = await download.resumable.downloadAsync();
+    } catch (error) {
+      await FileSystem.deleteAsync(path, { idempotent: true }).catch(() => undefined);
+      logger.error('DownloadManager', `Download failed: ${fileId}`, error);
+      throw createDownloadError(ERROR_CODES.NETWORK_ERROR, fileId);
+    }
+
+    // 被取消时downloadAsync返回undefined
+    if (!result || download.cancelled) {
+      await FileSystem.deleteAsync(path, { idempotent: true }).catch(() => undefined);
+      throw createDownloadError(ERROR_CODES.DOWNLOAD_CANCELLED, fileId);
+    }
+
+    if (result.status < 200 || result.status >= 300) {
+      await FileSystem.deleteAsync(path, { idempotent: true }).catch(() => undefined);
+      logger.error('DownloadManager', `Download failed: ${fileId}, HTTP ${result.status}`);
+      throw createDownloadError(ERROR_CODES.SERVER_ERROR, fileId);
+    }
+
+    const info = await FileSystem.getInfoAsync(path);
+    const size = info.exists ? info.size : 0;
+
+    await this.dbService.saveAttachment({
+      fileId,
+      path,
+      size,
+      mimeType: mimeType || result.mimeType || undefined,
+      lastAccess: Date.now(),
+    });
+
+    this.enforceCacheLimit().catch(error => {
+      logger.warn('DownloadManager', 'Failed to enforce cache limit', error);
+    });
+
+    logger.info('DownloadManager', `Downloaded ${fileId}`, { size });
+    return path;
+  }
+
+  private getFileInfo(fileId: string): Promise<FileResponse> {
+    return callEndpoint(this.apiClient, API_ENDPOINTS.files.get, { fileId });
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.directoryReady) {
+      const directory = this.directory;
+      this.directoryReady = FileSystem.getInfoAsync(directory)
+        .then(info => {
+          if (!info.exists) {
+            return FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+          }
+        })
+        .catch(error => {
+          this.directoryReady = null;
+          throw error;
+        });
+    }
+    return this.directoryReady;
+  }
+
+  private emitProgress(download: ActiveDownload, progress: DownloadProgress): void {
+    download.listeners.forEach(listener => {
+      try {
+        listener(progress);
+      } catch (error) {
+        logger.error('DownloadManager', 'Progress listener error', error);
+      }
+    });
+  }
+}
+
+function createDownloadError(code: string, fileId: string): ApiError {
+  return {
+    code,
+    message: ERROR_MESSAGES[code],
+    details: [{ field: 'fileId', message: fileId }],
+    requestId: `download_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,385 @@
+import {
+  UploadFileRequest,
+  FileResponse,
+  FileType,
+  ApiError,
+  ApiErrorCode,
+} from '@/types/api';
+import { ApiClient } from './ApiClient';
+import { API_ENDPOINTS, callEndpoint } from './ApiEndpoints';
+import { createAuthenticatedApiClient } from './AuthenticatedApiClient';
+import { NetworkManager } from '@/utils/NetworkManager';
+import { APP_CONFIG, ERROR_CODES, ERROR_MESSAGES } from '@/utils/Constants';
+import { logger } from '@/utils';
+
+// 上传状态
+export enum UploadStatus {
+  UPLOADING = 'uploading',
+  PAUSED = 'paused',
+  WAITING_FOR_NETWORK = 'waiting_for_network', // 网络断开，恢复后自动续传
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export interface UploadProgress {
+  uploadId: string;
+  status: UploadStatus;
+  loaded: number;
+  total: number;
+}
+
+export type UploadProgressListener = (progress: UploadProgress) => void;
+
+export interface UploadOptions {
+  onProgress?: UploadProgressListener;
+}
+
+// 各文件类型允许的MIME类型
+const ALLOWED_MIME_TYPES: Record<FileType, RegExp[]> = {
+  [FileType.IMAGE]: [/^image\/(jpeg|png|gif|webp|heic|heif)$/],
+  [FileType.DOCUMENT]: [
+    /^application\/pdf$/,
+    /^application\/(msword|vnd\.ms-excel|vnd\.ms-powerpoint)$/,
+    /^application\/vnd\.openxmlformats-officedocument\./,
+    /^application\/(zip|x-zip-compressed)$/,
+    /^text\/(plain|csv)$/,
+  ],
+  [FileType.AUDIO]: [/^audio\//],
+  [FileType.VIDEO]: [/^video\//],
+};
+
+const CHUNKED_UPLOAD_THRESHOLD = 2 * 1024 * 1024; // 超过该大小时分片上传
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+const MAX_CHUNK_ATTEMPTS = 3;
+
+// 单个文件的上传任务，可暂停、继续和取消
+export class UploadTask {
+  public readonly uploadId: string;
+  public readonly total: number;
+  public readonly promise: Promise<FileResponse>;
+
+  private status: UploadStatus = UploadStatus.UPLOADING;
+  private loaded = 0;
+  private listeners: UploadProgressListener[] = [];
+  private controller: AbortController | null = null;
+  private wakeUp: (() => void) | null = null;
+  private networkUnsubscribe: (() => void) | null = null;
+
+  constructor(
+    private request: UploadFileRequest,
+    private apiClient: ApiClient,
+    private networkManager: NetworkManager
+  ) {
+    this.uploadId = request.uploadId || generateUploadId();
+    this.total = request.file.size;
+    this.promise = this.run();
+  }
+
+  public getProgress(): UploadProgress {
+    return { uploadId: this.uploadId, status: this.status, loaded: this.loaded, total: this.total };
+  }
+
+  // 监听进度，返回取消监听的函数
+  public onProgress(listener: UploadProgressListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(item => item !== listener);
+    };
+  }
+
+  // 暂停：中止当前请求，已上传的分片保留在服务器
+  public pause(): void {
+    if (this.status !== UploadStatus.UPLOADING && this.status !== UploadStatus.WAITING_FOR_NETWORK) return;
+
+    this.setStatus(UploadStatus.PAUSED);
+    this.controller?.abort();
+  }
+
+  public resume(): void {
+    if (this.status !== UploadStatus.PAUSED) return;
+
+    this.setStatus(UploadStatus.UPLOADING);
+    this.wake();
+  }
+
+  public cancel(): void {
+    if (this.isFinished()) return;
+
+    this.setStatus(UploadStatus.CANCELLED);
+    this.controller?.abort();
+    this.wake();
+  }
+
+  private async run(): Promise<FileResponse> {
+    // 网络断开时中止当前请求，恢复后继续
+    this.networkUnsubscribe = this.networkManager.addListener(info => {
+      if (!info.isConnected && this.status === UploadStatus.UPLOADING) {
+        this.setStatus(UploadStatus.WAITING_FOR_NETWORK);
+        this.controller?.abort();
+      } else if (info.isConnected && this.status === UploadStatus.WAITING_FOR_NETWORK) {
+        this.setStatus(UploadStatus.UPLOADING);
+        this.wake();
+      }
+    });
+
+    try {
+      const file = this.total > CHUNKED_UPLOAD_THRESHOLD
+        ? await this.uploadInChunks()
+        : await this.uploadWhole();
+
+      this.loaded = this.total;
+      this.setStatus(UploadStatus.COMPLETED);
+      return file;
+    } catch (error) {
+      if (this.status !== UploadStatus.CANCELLED) {
+        this.setStatus(UploadStatus.FAILED);
+      }
+      throw error;
+    } finally {
+      this.networkUnsubscribe?.();
+      this.networkUnsubscribe = null;
+    }
+  }
+
+  // 小文件：一次multipart请求
+  private async uploadWhole(): Promise<FileResponse> {
+    return this.withRetry(async signal => {
+      const form = new FormData();
+      form.append('file', this.request.file, this.getFileName());
+      form.append('type', this.request.type);
+      form.append('uploadId', this.uploadId);
+
+      return callEndpoint(this.apiClient, API_ENDPOINTS.files.upload, { body: form }, {
+        headers: { 'Idempotency-Key': this.uploadId },
+        signal,
+        onProgress: loaded => this.updateLoaded(loaded),
+      });
+    });
+  }
+
+  // 大文件：创建（或恢复）上传会话后按偏移逐片上传
+  private async uploadInChunks(): Promise<FileResponse> {
+    let session = await this.withRetry(signal =>
+      callEndpoint(this.apiClient, API_ENDPOINTS.files.createUpload, {
+        uploadId: this.uploadId,
+        name: this.getFileName(),
+        size: this.total,
+        mimeType: this.request.file.type,
+        type: this.request.type,
+        chunkSize: DEFAULT_CHUNK_SIZE,
+      }, { signal })
+    );
+
+    while (session.receivedBytes < this.total) {
+      const offset = session.receivedBytes;
+      const chunk = this.request.file.slice(offset, Math.min(offset + session.chunkSize, this.total));
+
+      session = await this.withRetry(
+        signal =>
+          callEndpoint(this.apiClient, API_ENDPOINTS.files.uploadChunk, {
+            uploadId: this.uploadId,
+            offset,
+            body: chunk,
+          }, {
+            headers: { 'Content-Type': 'application/octet-stream' },
+            signal,
+            onProgress: loaded => this.updateLoaded(offset + loaded),
+          }),
+        // 重试前向服务器确认实际收到的位置，避免重复或遗漏
+        signal => callEndpoint(this.apiClient, API_ENDPOINTS.files.getUpload, { uploadId: this.uploadId }, { signal })
+      );
+
+      this.updateLoaded(session.receivedBytes);
+    }
+
+    return this.withRetry(signal =>
+      callEndpoint(this.apiClient, API_ENDPOINTS.files.completeUpload, { uploadId: this.uploadId }, { signal })
+    );
+  }
+
+  // 执行一步上传：暂停或断网导致的中止在恢复后重做，网络类错误最多尝试MAX_CHUNK_ATTEMPTS次。
+  // 提供recover时，重做改为调用recover从服务器获取最新状态（分片可能已部分写入）
+  private async withRetry<R>(
+    step: (signal: AbortSignal) => Promise<R>,
+    recover?: (signal: AbortSignal) => Promise<R>
+  ): Promise<R> {
+    let attempts = 0;
+    let action = step;
+
+    while (true) {
+      await this.waitUntilRunnable();
+
+      const controller = new AbortController();
+      this.controller = controller;
+
+      try {
+        return await action(controller.signal);
+      } catch (error) {
+        if (this.status === UploadStatus.CANCELLED) {
+          throw createUploadError(ApiErrorCode.CANCELLED, '上传已取消');
+        }
+
+        const interrupted = this.status === UploadStatus.PAUSED || this.status === UploadStatus.WAITING_FOR_NETWORK;
+        if (!interrupted) {
+          const code = (error as ApiError)?.code;
+          const retryable = code === ApiErrorCode.NETWORK_ERROR || code === ApiErrorCode.TIMEOUT_ERROR;
+          attempts++;
+          if (!retryable || attempts >= MAX_CHUNK_ATTEMPTS) {
+            throw error;
+          }
+
+          logger.warn('FileUploadService', `Upload step failed, retrying (${attempts}/${MAX_CHUNK_ATTEMPTS})`, error);
+          await new Promise(resolve => setTimeout(resolve, attempts * 1000));
+        }
+
+        if (recover) {
+          action = recover;
+        }
+      } finally {
+        if (this.controller === controller) {
+          this.controller = null;
+        }
+      }
+    }
+  }
+
+  private waitUntilRunnable(): Promise<void> {
+    if (this.status === UploadStatus.UPLOADING) {
+      return Promise.resolve();
+    }
+    if (this.status === UploadStatus.CANCELLED) {
+      return Promise.reject(createUploadError(ApiErrorCode.CANCELLED, '上传已取消'));
+    }
+
+    return new Promise<void>(resolve => {
+      this.wakeUp = resolve;
+    }).then(() => this.waitUntilRunnable());
+  }
+
+  private wake(): void {
+    const wakeUp = this.wakeUp;
+    this.wakeUp = null;
+    wakeUp?.();
+  }
+
+  private updateLoaded(loaded: number): void {
+    this.loaded = Math.min(loaded, this.total);
+    this.notify();
+  }
+
+  private setStatus(status: UploadStatus): void {
+    this.status = status;
+    this.notify();
+  }
+
+  private notify(): void {
+    const progress = this.getProgress();
+    this.listeners.forEach(listener => {
+      try {
+        listener(progress);
+      } catch (error) {
+        logger.error('FileUploadService', 'Progress listener error', error);
+      }
+    });
+  }
+
+  private isFinished(): boolean {
+    return [UploadStatus.COMPLETED, UploadStatus.FAILED, UploadStatus.CANCELLED].includes(this.status);
+  }
+
+  private getFileName(): string {
+    const { file } = this.request;
+    return this.request.name || ('name' in file ? file.name : '') || this.uploadId;
+  }
+}
+
+// 文件上传服务：校验大小和格式，小文件直接上传，大文件分片并支持续传
+export class FileUploadService {
+  private static instance: FileUploadService;
+  private apiClient: ApiClient;
+  private networkManager: NetworkManager;
+  private tasks: Map<string, UploadTask> = new Map();
+
+  private constructor() {
+    this.networkManager = NetworkManager.getInstance();
+    this.apiClient = createAuthenticatedApiClient();
+  }
+
+  public static getInstance(): FileUploadService {
+    if (!FileUploadService.instance) {
+      FileUploadService.instance = new FileUploadService();
+    }
+    return FileUploadService.instance;
+  }
+
+  // 取消所有进行中的上传（如切换账户时）
+  public cancelAll(): void {
+    this.tasks.forEach(task => task.cancel());
+  }
+
+  // 开始上传；同一uploadId的任务未结束时返回已有任务
+  public upload(request: UploadFileRequest, options: UploadOptions = {}): UploadTask {
+    const validationError = this.validate(request);
+    if (validationError) {
+      throw validationError;
+    }
+
+    const existing = request.uploadId ? this.tasks.get(request.uploadId) : undefined;
+    if (existing) {
+      if (options.onProgress) existing.onProgress(options.onProgress);
+      return existing;
+    }
+
+    const task = new UploadTask(request, this.apiClient, this.networkManager);
+    if (options.onProgress) {
+      task.onProgress(options.onProgress);
+    }
+
+    this.tasks.set(task.uploadId, task);
+    task.promise
+      .catch(() => undefined)
+      .finally(() => this.tasks.delete(task.uploadId));
+
+    logger.info('FileUploadService', `Upload started: ${task.uploadId}`, { size: task.total });
+    return task;
+  }
+
+  public getTask(uploadId: string): UploadTask | undefined {
+    return this.tasks.get(uploadId);
+  }
+
+  // 检查文件大小和格式，不符合时返回错误
+  public validate(request: UploadFileRequest): ApiError | null {
+    const { file, type } = request;
+    const maxSize = type === FileType.IMAGE ? APP_CONFIG.IMAGE_MAX_SIZE : APP_CONFIG.FILE_MAX_SIZE;
+
+    if (file.size > maxSize) {
+      return createUploadError(
+        ERROR_CODES.FILE_TOO_LARGE,
+        `${ERROR_MESSAGES[ERROR_CODES.FILE_TOO_LARGE]}（最大${Math.round(maxSize / 1024 / 1024)}MB）`
+      );
+    }
+
+    const allowed = ALLOWED_MIME_TYPES[type];
+    if (!allowed || !allowed.some(pattern => pattern.test(file.type))) {
+      return createUploadError(ERROR_CODES.UNSUPPORTED_FORMAT, ERROR_MESSAGES[ERROR_CODES.UNSUPPORTED_FORMAT]);
+    }
+
+    return null;
+  }
+}
+
+function generateUploadId(): string {
+  return `upload_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+function createUploadError(code: string, message: string): ApiError {
+  return {
+    code,
+    message,
+    details: [],
+    requestId: generateUploadId(),
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,162 @@
+import { HttpMethod } from '@/types/api';
+
+// 响应头，与fetch的Headers一致
+export interface ResponseHeaders {
+  get(name: string): string | null;
+  forEach?(callback: (value: string, name: string) => void): void; // 网络记录用于列出全部响应头
+}
+
+export interface TransportRequest {
+  method: HttpMethod;
+  url: string; // 含查询参数的完整URL
+  headers: Record<string, string>;
+  body?: string | FormData | Blob;
+  timeout: number;
+  signal?: AbortSignal;
+  onUploadProgress?: (loaded: number, total: number) => void;
+}
+
+// 原始响应，状态码检查和JSON解析由ApiClient完成
+export interface TransportResponse {
+  status: number;
+  statusText: string;
+  headers: ResponseHeaders;
+  body: string;
+}
+
+// HTTP传输层。失败时抛出以下错误，ApiClient据此归类：
+// 'Request timeout'、'Request cancelled'、'Network request failed'
+export interface HttpTransport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+// 默认传输：JSON请求走fetch，FormData/Blob和需要上传进度的请求走XMLHttpRequest
+export class FetchTransport implements HttpTransport {
+  public send(request: TransportRequest): Promise<TransportResponse> {
+    const isBinary = typeof request.body === 'object' && request.body !== null;
+    return isBinary || request.onUploadProgress ? this.sendWithXhr(request) : this.sendWithFetch(request);
+  }
+
+  private async sendWithFetch(request: TransportRequest): Promise<TransportResponse> {
+    const { signal } = request;
+
+    // 创建AbortController用于超时控制和调用方取消
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), request.timeout);
+    const onAbort = () => controller.abort();
+
+    if (signal?.aborted) {
+      clearTimeout(timeoutId);
+      throw new Error('Request cancelled');
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers as HeadersInit,
+        body: request.body as string | undefined,
+        signal: controller.signal,
+      });
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        body: await response.text(),
+      };
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw new Error(signal?.aborted ? 'Request cancelled' : 'Request timeout');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private sendWithXhr(request: TransportRequest): Promise<TransportResponse> {
+    return new Promise((resolve, reject) => {
+      const { signal, body } = request;
+      if (signal?.aborted) {
+        reject(new Error('Request cancelled'));
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      const onAbort = () => xhr.abort();
+      const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+      xhr.open(request.method, request.url);
+      xhr.timeout = request.timeout;
+      // FormData的Content-Type（含boundary）由XMLHttpRequest生成
+      Object.entries(request.headers).forEach(([name, value]) => {
+        if (!(body instanceof FormData && name.toLowerCase() === 'content-type')) {
+          xhr.setRequestHeader(name, value);
+        }
+      });
+
+      const { onUploadProgress } = request;
+      if (onUploadProgress) {
+        xhr.upload.onprogress = event => {
+          if (event.lengthComputable) {
+            onUploadProgress(event.loaded, event.total);
+          }
+        };
+      }
+
+      xhr.onload = () => {
+        cleanup();
+        resolve({
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: {
+            get: (name: string) => xhr.getResponseHeader(name),
+            forEach: callback => parseHeaderLines(xhr.getAllResponseHeaders()).forEach(([name, value]) => {
+              callback(value, name);
+            }),
+          },
+          body: xhr.responseText,
+        });
+      };
+      xhr.onerror = () => {
+        cleanup();
+        reject(new Error('Network request failed'));
+      };
+      xhr.ontimeout = () => {
+        cleanup();
+        reject(new Error('Request timeout'));
+      };
+      xhr.onabort = () => {
+        cleanup();
+        reject(new Error('Request cancelled'));
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      xhr.send(body ?? null);
+    });
+  }
+}
+
+// 解析getAllResponseHeaders返回的"name: value"行
+function parseHeaderLines(raw: string): [string, string][] {
+  return raw
+    .split(/\r?\n/)
+    .filter(line => line.includes(':'))
+    .map(line => {
+      const index = line.indexOf(':');
+      return [line.substring(0, index).trim().toLowerCase(), line.substring(index + 1).trim()];
+    });
+}
+
+let defaultTransport: HttpTransport = new FetchTransport();
+
+// 未在ApiClientConfig中指定transport的客户端都使用默认传输，模拟模式下替换为MockTransport
+export function getDefaultTransport(): HttpTransport {
+  return defaultTransport;
+}
+
+export function setDefaultTransport(transport: HttpTransport): void {
+  defaultTransport = transport;
+}
@@ -7,6 +7,8 @@ import {
   ApiErrorCode,
 } from '@/types/api';
 import { ApiClient } from './ApiClient';
+import { API_ENDPOINTS, callEndpoint } from './ApiEndpoints';
+import { ResponseCache } from './ResponseCache';
 import { SecureStorageService } from './SecureStorageService';
 import { logger } from '@/utils';
 
@@ -96,8 +98,11 @@ export class JWTAuthService {
     }
   }
 
-  // 用户登录
-  public async login(request: LoginRequest): Promise<LoginResponse> {
+  // 用户登录；onAuthenticated在登录成功、保存token之前调用（如切换到该用户的账户存储）
+  public async login(
+    request: LoginRequest,
+    onAuthenticated?: (response: LoginResponse) => Promise<void>
+  ): Promise<LoginResponse> {
     try {
       logger.info('JWTAuthService', 'Attempting user login', { email: request.email });
 
@@ -105,14 +110,11 @@ export class JWTAuthService {
       this.validateLoginRequest(request);
 
       // 发送登录请求
-      const response = await this.apiClient.post<LoginResponse>('/auth/login', request);
-      
-      if (!response.success || !response.data) {
-        throw new Error('Login response is invalid');
+      const loginData = await callEndpoint(this.apiClient, API_ENDPOINTS.auth.login, request);
+      if (onAuthenticated) {
+        await onAuthenticated(loginData);
       }
 
-      const loginData = response.data;
-
       // 创建token信息
       const tokenInfo: JWTTokenInfo = {
         accessToken: loginData.accessToken,
@@ -158,7 +160,7 @@ export class JWTAuthService {
           const request: LogoutRequest = { 
             deviceId: deviceId || await this.getDeviceId() 
           };
-          await this.apiClient.post('/auth/logout', request);
+          await callEndpoint(this.apiClient, API_ENDPOINTS.auth.logout, request);
         } catch (error) {
           // 登出API失败不应该阻止本地清理
           logger.warn('JWTAuthService', 'Logout API failed, continuing local cleanup', error);
@@ -167,6 +169,9 @@ export class JWTAuthService {
 
       // 清理本地状态
       await this.clearAuthState();
+      await ResponseCache.getInstance().clear().catch(error => {
+        logger.warn('JWTAuthService', 'Failed to clear response cache', error);
+      });
       
       logger.info('JWTAuthService', 'Logout completed');
       this.emitEvent(AuthEvent.LOGOUT);
@@ -195,8 +200,8 @@ export class JWTAuthService {
 
   // 执行实际的token刷新
   private async performTokenRefresh(): Promise<boolean> {
+    const currentTokenInfo = this.authState.tokenInfo;
     try {
-      const currentTokenInfo = this.authState.tokenInfo;
       if (!currentTokenInfo?.refreshToken) {
         logger.warn('JWTAuthService', 'No refresh token available');
         return false;
@@ -208,13 +213,12 @@ export class JWTAuthService {
         refreshToken: currentTokenInfo.refreshToken,
       };
 
-      const response = await this.apiClient.post<LoginResponse>('/auth/refresh', request);
-      
-      if (!response.success || !response.data) {
-        throw new Error('Token refresh response is invalid');
-      }
+      const refreshData = await callEndpoint(this.apiClient, API_ENDPOINTS.auth.refresh, request);
 
-      const refreshData = response.data;
+      // 刷新期间已登出或切换了账户，结果不能写入当前账户
+      if (this.authState.tokenInfo !== currentTokenInfo) {
+        return false;
+      }
 
       // 更新token信息
       const newTokenInfo: JWTTokenInfo = {
@@ -241,6 +245,9 @@ export class JWTAuthService {
       return true;
     } catch (error) {
       logger.error('JWTAuthService', 'Token refresh failed', error);
+      if (this.authState.tokenInfo !== currentTokenInfo) {
+        return false;
+      }
       
       // 如果是认证错误，清理状态
       if (this.isAuthError(error)) {
@@ -443,8 +450,24 @@ export class JWTAuthService {
     }
   }
 
+  // 丢弃内存中的认证状态，不删除已保存的token；切换账户后调用initialize重新加载
+  public reset(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    this.refreshPromise = null;
+    this.authState = {
+      isAuthenticated: false,
+      user: null,
+      tokenInfo: null,
+      lastRefreshTime: 0,
+    };
+  }
+
   // 获取设备ID
-  private async getDeviceId(): Promise<string> {
+  public async getDeviceId(): Promise<string> {
     let deviceId = await this.secureStorage.getDeviceId();
     if (!deviceId) {
       deviceId = this.generateDeviceId();
@@ -0,0 +1,53 @@
+import { ApiError, ApiErrorCode } from '@/types/api';
+
+// 请求是否因取消而失败（被新请求取代或调用方主动取消）
+export function isCancelledError(error: any): boolean {
+  return (error as ApiError)?.code === ApiErrorCode.CANCELLED;
+}
+
+// “最后一次生效”：每次run都会取消上一次尚未完成的请求，适用于边输入边搜索。
+// 被取代的调用以CANCELLED错误结束，调用方可用isCancelledError忽略
+export class LatestRequest<A extends any[], R> {
+  private controller: AbortController | null = null;
+
+  constructor(private execute: (signal: AbortSignal, ...args: A) => Promise<R>) {}
+
+  public run(...args: A): Promise<R> {
+    this.cancel();
+
+    const controller = new AbortController();
+    this.controller = controller;
+
+    return this.execute(controller.signal, ...args)
+      .then(result => {
+        // 结果在取消后才返回时同样丢弃
+        if (controller.signal.aborted) {
+          throw this.createCancelledError();
+        }
+        return result;
+      })
+      .finally(() => {
+        if (this.controller === controller) {
+          this.controller = null;
+        }
+      });
+  }
+
+  private createCancelledError(): ApiError {
+    return {
+      code: ApiErrorCode.CANCELLED,
+      message: '请求已取消',
+      details: [],
+      requestId: `req_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // 取消当前请求（如组件卸载时）
+  public cancel(): void {
+    if (this.controller) {
+      this.controller.abort();
+      this.controller = null;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { WebSocketMessage } from '@/types/api';
+import { ApiClient } from './ApiClient';
+import { API_ENDPOINTS, callEndpoint } from './ApiEndpoints';
+import { logger } from '@/utils';
+
+export interface LongPollingConfig {
+  pollTimeout: number; // 服务器挂起一次轮询的最长时间
+}
+
+// 轮询连接的回调，与WebSocket的onopen/onmessage/onerror对应
+export interface LongPollingHandlers {
+  onOpen: () => void;
+  onFrame: (frame: any) => void; // 未经校验的原始帧
+  onError: (error: any) => void;
+}
+
+export interface LongPollingSession {
+  token: string;
+  deviceId: string;
+}
+
+// 通过HTTP长轮询收发与WebSocket相同格式的消息，用于WebSocket被网络屏蔽时
+export class LongPollingTransport {
+  private apiClient: ApiClient;
+  private session: LongPollingSession | null = null;
+  private cursor: string | undefined;
+  private generation = 0;
+
+  constructor(private config: LongPollingConfig, private handlers: LongPollingHandlers) {
+    // 请求超时需大于服务器挂起时间；失败由调用方决定何时重连，这里不重试
+    this.apiClient = new ApiClient({
+      timeout: config.pollTimeout + 10000,
+      maxRetries: 0,
+    });
+  }
+
+  // 开始轮询，第一次轮询立即返回，成功后触发onOpen
+  public start(session: LongPollingSession): void {
+    this.stop();
+    this.session = session;
+    this.cursor = undefined;
+    this.pollLoop(++this.generation);
+  }
+
+  public stop(): void {
+    this.generation++;
+    this.session = null;
+  }
+
+  public isActive(): boolean {
+    return this.session !== null;
+  }
+
+  // 发送一帧，Promise在服务器接收后结束
+  public async send(frame: WebSocketMessage): Promise<void> {
+    if (!this.session) {
+      throw new Error('Long polling is not active');
+    }
+
+    await callEndpoint(this.apiClient, API_ENDPOINTS.realtime.send, {
+      deviceId: this.session.deviceId,
+      messages: [frame],
+    }, {
+      headers: this.getHeaders(this.session),
+    });
+  }
+
+  private async pollLoop(generation: number): Promise<void> {
+    let opened = false;
+
+    while (generation === this.generation && this.session) {
+      const session = this.session;
+      try {
+        const response = await callEndpoint(this.apiClient, API_ENDPOINTS.realtime.poll, {
+          deviceId: session.deviceId,
+          cursor: this.cursor,
+          wait: opened ? this.config.pollTimeout : 0,
+        }, {
+          headers: this.getHeaders(session),
+        });
+
+        // 期间已停止或重新开始，丢弃本次结果
+        if (generation !== this.generation) return;
+
+        if (!opened) {
+          opened = true;
+          this.handlers.onOpen();
+        }
+
+        this.cursor = response.cursor ?? this.cursor;
+        (response.messages || []).forEach(frame => this.handlers.onFrame(frame));
+      } catch (error) {
+        if (generation !== this.generation) return;
+
+        logger.warn('LongPollingTransport', 'Poll failed', error);
+        this.stop();
+        this.handlers.onError(error);
+        return;
+      }
+    }
+  }
+
+  private getHeaders(session: LongPollingSession): Record<string, string> {
+    return { Authorization: `Bearer ${session.token}` };
+  }
+}
@@ -0,0 +1,91 @@
+// 会话消息序列号状态
+export interface ChatSequenceState {
+  lastSeq: number; // 已连续收到的最大序列号
+  lastMessageId?: string; // lastSeq对应的消息ID，用于补拉
+  pending: Record<number, string>; // 缺口之后已收到的序列号 -> 消息ID
+}
+
+export enum SequenceResult {
+  IN_ORDER = 'in_order',
+  DUPLICATE = 'duplicate',
+  GAP = 'gap',
+}
+
+export interface SequenceCheck {
+  result: SequenceResult;
+  missingFrom?: number;
+  missingTo?: number;
+}
+
+// 按会话跟踪服务器下发的消息序列号，识别重复和缺口
+export class MessageSequenceTracker {
+  private states: Map<string, ChatSequenceState> = new Map();
+
+  constructor(saved?: Record<string, ChatSequenceState> | null) {
+    if (saved) {
+      Object.entries(saved).forEach(([chatId, state]) => {
+        this.states.set(chatId, { ...state, pending: { ...(state.pending || {}) } });
+      });
+    }
+  }
+
+  // 记录收到的消息并返回检查结果
+  public accept(chatId: string, seq: number, messageId: string): SequenceCheck {
+    const state = this.states.get(chatId);
+
+    // 第一次收到该会话的消息，以此为起点
+    if (!state) {
+      this.states.set(chatId, { lastSeq: seq, lastMessageId: messageId, pending: {} });
+      return { result: SequenceResult.IN_ORDER };
+    }
+
+    if (seq <= state.lastSeq || state.pending[seq] !== undefined) {
+      return { result: SequenceResult.DUPLICATE };
+    }
+
+    if (seq === state.lastSeq + 1) {
+      state.lastSeq = seq;
+      state.lastMessageId = messageId;
+      this.absorbPending(state);
+      return { result: SequenceResult.IN_ORDER };
+    }
+
+    state.pending[seq] = messageId;
+    return { result: SequenceResult.GAP, missingFrom: state.lastSeq + 1, missingTo: seq - 1 };
+  }
+
+  // 是否存在尚未补齐的缺口
+  public hasGap(chatId: string): boolean {
+    const state = this.states.get(chatId);
+    return !!state && Object.keys(state.pending).length > 0;
+  }
+
+  public getState(chatId: string): ChatSequenceState | undefined {
+    return this.states.get(chatId);
+  }
+
+  public getChatIds(): string[] {
+    return Array.from(this.states.keys());
+  }
+
+  public toJSON(): Record<string, ChatSequenceState> {
+    const result: Record<string, ChatSequenceState> = {};
+    this.states.forEach((state, chatId) => {
+      result[chatId] = state;
+    });
+    return result;
+  }
+
+  public clear(): void {
+    this.states.clear();
+  }
+
+  // 缺口补齐后，把后续已收到的序列号并入连续区间
+  private absorbPending(state: ChatSequenceState): void {
+    while (state.pending[state.lastSeq + 1] !== undefined) {
+      state.lastSeq += 1;
+      state.lastMessageId = state.pending[state.lastSeq];
+      delete state.pending[state.lastSeq];
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { SendMessageRequest, MessageResponse, ApiError, ApiErrorCode } from '@/types/api';
+import { ApiClient } from './ApiClient';
+import { createAuthenticatedApiClient } from './AuthenticatedApiClient';
+import { API_ENDPOINTS, callEndpoint } from './ApiEndpoints';
+import { WebSocketService } from './WebSocketService';
+import { logger } from '@/utils';
+
+// 消息发送通道
+export enum TransportChannel {
+  WEBSOCKET = 'websocket',
+  HTTP = 'http',
+}
+
+// 这些错误说明请求可能没有到达服务器，可以改走HTTP重发（服务器按metadata.clientId去重）
+const FALLBACK_ERROR_CODES: string[] = [ApiErrorCode.NETWORK_ERROR, ApiErrorCode.TIMEOUT_ERROR];
+
+// 统一的消息发送入口：WebSocket已连接时通过RPC发送，否则回退到HTTP接口
+export class MessageTransport {
+  private static instance: MessageTransport;
+  private webSocketService: WebSocketService;
+  private apiClient: ApiClient;
+
+  private constructor() {
+    this.webSocketService = WebSocketService.getInstance();
+    this.apiClient = createAuthenticatedApiClient();
+  }
+
+  public static getInstance(): MessageTransport {
+    if (!MessageTransport.instance) {
+      MessageTransport.instance = new MessageTransport();
+    }
+    return MessageTransport.instance;
+  }
+
+  // 当前会使用的发送通道
+  public getChannel(): TransportChannel {
+    return this.webSocketService.isConnected() ? TransportChannel.WEBSOCKET : TransportChannel.HTTP;
+  }
+
+  // 发送消息，失败时抛出ApiError
+  public async sendMessage(request: SendMessageRequest): Promise<MessageResponse> {
+    if (this.getChannel() === TransportChannel.WEBSOCKET) {
+      try {
+        const message = await this.webSocketService.rpc('messages.send', request);
+        this.apiClient.invalidateCache([`chat:${request.chatId}`]).catch(error => {
+          logger.warn('MessageTransport', 'Failed to invalidate chat cache', error);
+        });
+        return message;
+      } catch (error) {
+        if (!FALLBACK_ERROR_CODES.includes((error as ApiError).code)) {
+          throw error;
+        }
+        logger.warn('MessageTransport', 'WebSocket send failed, falling back to HTTP', error);
+      }
+    }
+
+    return this.sendViaHttp(request);
+  }
+
+  private sendViaHttp(request: SendMessageRequest): Promise<MessageResponse> {
+    return callEndpoint(this.apiClient, API_ENDPOINTS.messages.send, request);
+  }
+}
@@ -0,0 +1,363 @@
+import { HttpMethod } from '@/types/api';
+import { HttpTransport, TransportRequest, TransportResponse, ResponseHeaders } from './HttpTransport';
+import { Endpoint } from './ApiEndpoints';
+import { ENV_CONFIG } from '@/utils/Environment';
+import { logger } from '@/utils';
+
+// 路由处理函数收到的请求
+export interface MockRequest {
+  method: HttpMethod;
+  url: string;
+  path: string; // 去掉baseURL后的路径，如/chats/chat_1
+  pathParams: Record<string, string>; // 路由中{name}匹配到的值
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: any; // JSON请求体已解析；FormData/Blob原样保留
+}
+
+export interface MockResponse {
+  status?: number; // 默认200
+  headers?: Record<string, string>;
+  body?: any; // 序列化为JSON
+  rawBody?: string; // 原样返回，优先于body
+}
+
+export type MockRouteHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+// 夹具：固定返回内容的路由，可写在JSON文件中
+export interface MockFixture {
+  method: HttpMethod;
+  path: string;
+  status?: number;
+  headers?: Record<string, string>;
+  body?: any;
+}
+
+export enum MockFaultType {
+  TIMEOUT = 'timeout', // 挂起直到请求超时
+  NETWORK_ERROR = 'network_error',
+  SERVER_ERROR = 'server_error', // 返回5xx
+  MALFORMED_JSON = 'malformed_json', // 返回无法解析的响应体
+}
+
+export interface MockFault {
+  type: MockFaultType;
+  method?: HttpMethod; // 不指定时匹配所有方法
+  path?: string; // 路由格式，不指定时匹配所有路径
+  status?: number; // SERVER_ERROR的状态码，默认500
+  retryAfter?: number; // SERVER_ERROR附带的Retry-After（秒）
+  times?: number; // 生效次数，不指定时一直生效
+  probability?: number; // 0-1，默认1
+}
+
+// 记录的请求，供断言使用
+export interface RecordedRequest extends MockRequest {
+  timestamp: number;
+  status?: number; // 未得到响应（超时、网络错误、取消）时为空
+  error?: string;
+}
+
+interface MockRoute {
+  method: HttpMethod;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: MockRouteHandler;
+}
+
+interface ActiveFault extends MockFault {
+  pattern?: RegExp;
+  remaining: number;
+}
+
+const MAX_RECORDED_REQUESTS = 500;
+
+export function mockSuccess<T>(data: T, meta?: Record<string, any>): MockResponse {
+  return { status: 200, body: { success: true, data, meta } };
+}
+
+export function mockError(status: number, code: string, message: string): MockResponse {
+  return {
+    status,
+    body: {
+      success: false,
+      error: {
+        code,
+        message,
+        details: [],
+        requestId: `mock_${Date.now()}`,
+        timestamp: new Date().toISOString(),
+      },
+    },
+  };
+}
+
+// 内存中的HTTP传输，按路由返回模拟数据，用于离线开发和测试
+export class MockTransport implements HttpTransport {
+  private routes: MockRoute[] = [];
+  private faults: ActiveFault[] = [];
+  private requests: RecordedRequest[] = [];
+  private latency: { min: number; max: number } = { min: 0, max: 0 };
+  private basePath: string;
+
+  constructor(baseURL: string = ENV_CONFIG.apiBaseUrl) {
+    this.basePath = new URL(baseURL).pathname.replace(/\/$/, '');
+  }
+
+  // 注册路由，路径参数写作{name}；后注册的路由优先
+  public on(method: HttpMethod, path: string, handler: MockRouteHandler): this {
+    const { pattern, paramNames } = compilePath(path);
+    this.routes.unshift({ method, pattern, paramNames, handler });
+    return this;
+  }
+
+  // 按接口声明注册路由
+  public onEndpoint<Req, Res>(
+    endpoint: Endpoint<Req, Res>,
+    handler: (request: MockRequest) => Res | MockResponse | Promise<Res | MockResponse>
+  ): this {
+    return this.on(endpoint.method, endpoint.path, async request => {
+      const result = await handler(request);
+      return isMockResponse(result) ? result : mockSuccess(result);
+    });
+  }
+
+  public loadFixtures(fixtures: MockFixture[]): this {
+    fixtures.forEach(fixture => {
+      this.on(fixture.method, fixture.path, () => ({
+        status: fixture.status,
+        headers: fixture.headers,
+        body: fixture.body,
+      }));
+    });
+    return this;
+  }
+
+  // 每个请求的模拟延迟（毫秒），在min和max之间随机
+  public setLatency(min: number, max: number = min): this {
+    this.latency = { min, max: Math.max(min, max) };
+    return this;
+  }
+
+  // 注入故障，返回移除故障的函数
+  public injectFault(fault: MockFault): () => void {
+    const active: ActiveFault = {
+      ...fault,
+      pattern: fault.path ? compilePath(fault.path).pattern : undefined,
+      remaining: fault.times ?? Infinity,
+    };
+    this.faults.push(active);
+    return () => {
+      this.faults = this.faults.filter(item => item !== active);
+    };
+  }
+
+  public clearFaults(): void {
+    this.faults = [];
+  }
+
+  public getRequests(filter?: { method?: HttpMethod; path?: string }): RecordedRequest[] {
+    if (!filter) {
+      return [...this.requests];
+    }
+
+    const pattern = filter.path ? compilePath(filter.path).pattern : undefined;
+    return this.requests.filter(request =>
+      (!filter.method || request.method === filter.method) &&
+      (!pattern || pattern.test(request.path))
+    );
+  }
+
+  public getLastRequest(): RecordedRequest | undefined {
+    return this.requests[this.requests.length - 1];
+  }
+
+  public clearRequests(): void {
+    this.requests = [];
+  }
+
+  // 清除路由、故障、记录和延迟设置
+  public reset(): void {
+    this.routes = [];
+    this.faults = [];
+    this.requests = [];
+    this.latency = { min: 0, max: 0 };
+  }
+
+  public async send(request: TransportRequest): Promise<TransportResponse> {
+    const mockRequest = this.toMockRequest(request);
+    const recorded: RecordedRequest = { ...mockRequest, timestamp: Date.now() };
+    this.record(recorded);
+
+    try {
+      const response = await this.respond(request, mockRequest);
+      recorded.status = response.status;
+      return response;
+    } catch (error: any) {
+      recorded.error = error?.message || String(error);
+      throw error;
+    }
+  }
+
+  private async respond(request: TransportRequest, mockRequest: MockRequest): Promise<TransportResponse> {
+    const fault = this.takeFault(mockRequest);
+
+    if (fault?.type === MockFaultType.TIMEOUT) {
+      await this.wait(request.timeout, request.signal);
+      throw new Error('Request timeout');
+    }
+
+    const delay = this.latency.min + Math.random() * (this.latency.max - this.latency.min);
+    if (delay >= request.timeout) {
+      await this.wait(request.timeout, request.signal);
+      throw new Error('Request timeout');
+    }
+    await this.wait(delay, request.signal);
+
+    switch (fault?.type) {
+      case MockFaultType.NETWORK_ERROR:
+        throw new Error('Network request failed');
+      case MockFaultType.SERVER_ERROR:
+        return this.toTransportResponse({
+          ...mockError(fault.status || 500, 'SERVER_ERROR', '模拟的服务器错误'),
+          headers: fault.retryAfter !== undefined ? { 'Retry-After': String(fault.retryAfter) } : undefined,
+        });
+      case MockFaultType.MALFORMED_JSON:
+        return this.toTransportResponse({ status: 200, rawBody: '{"success": true, "data": ' });
+    }
+
+    const route = this.routes.find(item =>
+      item.method === mockRequest.method && item.pattern.test(mockRequest.path)
+    );
+    if (!route) {
+      logger.warn('MockTransport', `No mock route for ${mockRequest.method} ${mockRequest.path}`);
+      return this.toTransportResponse(mockError(404, 'NOT_FOUND', '请求的资源不存在'));
+    }
+
+    const match = route.pattern.exec(mockRequest.path);
+    route.paramNames.forEach((name, index) => {
+      mockRequest.pathParams[name] = decodeURIComponent(match?.[index + 1] || '');
+    });
+
+    return this.toTransportResponse(await route.handler(mockRequest));
+  }
+
+  private takeFault(request: MockRequest): ActiveFault | undefined {
+    const fault = this.faults.find(item =>
+      item.remaining > 0 &&
+      (!item.method || item.method === request.method) &&
+      (!item.pattern || item.pattern.test(request.path)) &&
+      Math.random() < (item.probability ?? 1)
+    );
+
+    if (fault) {
+      fault.remaining--;
+      if (fault.remaining <= 0) {
+        this.faults = this.faults.filter(item => item !== fault);
+      }
+    }
+    return fault;
+  }
+
+  private toMockRequest(request: TransportRequest): MockRequest {
+    const url = new URL(request.url);
+    const query: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => {
+      query[key] = value;
+    });
+
+    let path = url.pathname;
+    if (this.basePath && path.startsWith(this.basePath)) {
+      path = path.substring(this.basePath.length) || '/';
+    }
+
+    let body: any = request.body;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // 非JSON请求体原样保留
+      }
+    }
+
+    return {
+      method: request.method,
+      url: request.url,
+      path,
+      pathParams: {},
+      query,
+      headers: { ...request.headers },
+      body,
+    };
+  }
+
+  private toTransportResponse(response: MockResponse): TransportResponse {
+    const status = response.status ?? 200;
+    const headers = Object.entries(response.headers || {}).reduce<Record<string, string>>(
+      (result, [name, value]) => ({ ...result, [name.toLowerCase()]: value }),
+      {}
+    );
+    const responseHeaders: ResponseHeaders = {
+      get: (name: string) => headers[name.toLowerCase()] ?? null,
+      forEach: callback => Object.entries(headers).forEach(([name, value]) => callback(value, name)),
+    };
+
+    return {
+      status,
+      statusText: status < 400 ? 'OK' : 'Mock Error',
+      headers: responseHeaders,
+      body: response.rawBody ?? (response.body === undefined ? '' : JSON.stringify(response.body)),
+    };
+  }
+
+  private record(request: RecordedRequest): void {
+    this.requests.push(request);
+    if (this.requests.length > MAX_RECORDED_REQUESTS) {
+      this.requests.shift();
+    }
+  }
+
+  // 等待指定时间，期间调用方取消则以'Request cancelled'结束
+  private wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Request cancelled'));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('Request cancelled'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+}
+
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const source = path
+    .split(/(\{\w+\})/)
+    .map(part => {
+      const param = part.match(/^\{(\w+)\}$/);
+      if (param) {
+        paramNames.push(param[1]);
+        return '([^/]+)';
+      }
+      return part.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return { pattern: new RegExp(`^${source}/?$`), paramNames };
+}
+
+function isMockResponse(value: any): value is MockResponse {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    ('status' in value || 'rawBody' in value) &&
+    Object.keys(value).every(key => ['status', 'headers', 'body', 'rawBody'].includes(key))
+  );
+}
@@ -0,0 +1,453 @@
+import { ApiError, HttpMethod } from '@/types/api';
+import { TransportRequest, TransportResponse, ResponseHeaders } from './HttpTransport';
+import { StorageService } from './StorageService';
+import { APP_CONFIG, STORAGE_KEYS } from '@/utils/Constants';
+import { logger } from '@/utils';
+
+// 脱敏规则：名称匹配的请求头、查询参数和JSON字段的值会被替换
+export interface RedactionRule {
+  pattern: RegExp;
+  replacement?: string; // 默认'[REDACTED]'
+}
+
+export interface NetworkRecorderConfig {
+  maxEntries: number; // 环形缓冲区容量，超出后丢弃最早的记录
+  captureBodies: boolean; // 关闭时只记录请求行、状态和耗时
+  maxBodyLength: number; // 单个请求体/响应体保留的最大字符数
+  redactionRules: RedactionRule[];
+}
+
+// 一次HTTP尝试，重试时一个请求有多次尝试
+export interface RecordedAttempt {
+  startedAt: number;
+  duration: number;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  status?: number; // 未得到响应（超时、网络错误、取消）时为空
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  error?: string;
+}
+
+export interface HttpRecord {
+  type: 'http';
+  id: string;
+  method: HttpMethod;
+  url: string;
+  startedAt: number;
+  duration?: number; // 进行中时为空
+  attempts: RecordedAttempt[];
+  status?: number;
+  error?: { code: string; message: string };
+}
+
+export interface WebSocketFrameRecord {
+  type: 'websocket';
+  id: string;
+  direction: 'sent' | 'received';
+  transport: string; // websocket或long_polling
+  url: string;
+  event?: string;
+  data: string;
+  size: number;
+  timestamp: number;
+}
+
+export type NetworkRecord = HttpRecord | WebSocketFrameRecord;
+
+export type NetworkRecorderListener = (records: NetworkRecord[]) => void;
+
+const DEFAULT_REPLACEMENT = '[REDACTED]';
+
+const DEFAULT_CONFIG: NetworkRecorderConfig = {
+  maxEntries: 200,
+  captureBodies: true,
+  maxBodyLength: 16 * 1024,
+  redactionRules: [
+    { pattern: /^authorization$/i },
+    { pattern: /cookie/i },
+    { pattern: /password/i },
+    { pattern: /token/i },
+    { pattern: /secret/i },
+  ],
+};
+
+// 网络调试记录：默认关闭，开启后将ApiClient的请求（含每次重试）和WebSocketService的收发帧
+// 保存在内存环形缓冲区中，可导出为HAR。敏感内容在写入缓冲区前按规则脱敏
+export class NetworkRecorder {
+  private static instance: NetworkRecorder;
+  private storageService: StorageService;
+  private config: NetworkRecorderConfig = DEFAULT_CONFIG;
+  private enabled = false;
+  private records: NetworkRecord[] = [];
+  private listeners: Set<NetworkRecorderListener> = new Set();
+  private sequence = 0;
+
+  private constructor() {
+    this.storageService = StorageService.getInstance();
+  }
+
+  public static getInstance(): NetworkRecorder {
+    if (!NetworkRecorder.instance) {
+      NetworkRecorder.instance = new NetworkRecorder();
+    }
+    return NetworkRecorder.instance;
+  }
+
+  // 恢复上次保存的开关状态
+  public async initialize(): Promise<void> {
+    const enabled = await this.storageService.getItem<boolean>(STORAGE_KEYS.NETWORK_RECORDER_ENABLED, false);
+    this.enabled = enabled === true;
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public async setEnabled(enabled: boolean): Promise<void> {
+    this.enabled = enabled;
+    await this.storageService.setItem(STORAGE_KEYS.NETWORK_RECORDER_ENABLED, enabled);
+    logger.info('NetworkRecorder', enabled ? 'Recording enabled' : 'Recording disabled');
+  }
+
+  public configure(config: Partial<NetworkRecorderConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.trim();
+  }
+
+  public getConfig(): NetworkRecorderConfig {
+    return { ...this.config };
+  }
+
+  public getRecords(): NetworkRecord[] {
+    return [...this.records];
+  }
+
+  public clear(): void {
+    this.records = [];
+    this.notify();
+  }
+
+  public addListener(listener: NetworkRecorderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // 开始记录一个HTTP请求，未开启时返回null，后续调用传入null时不做任何事
+  public beginRequest(method: HttpMethod, url: string): string | null {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const record: HttpRecord = {
+      type: 'http',
+      id: this.nextId(),
+      method,
+      url: this.redactUrl(url),
+      startedAt: Date.now(),
+      attempts: [],
+    };
+    this.push(record);
+    return record.id;
+  }
+
+  // 记录一次实际发出的请求及其响应或错误
+  public recordAttempt(
+    id: string | null,
+    request: TransportRequest,
+    startedAt: number,
+    result: { response?: TransportResponse; error?: any }
+  ): void {
+    const { response, error } = result;
+    const attempt: RecordedAttempt = {
+      startedAt,
+      duration: Date.now() - startedAt,
+      requestHeaders: this.redactHeaders(request.headers),
+      requestBody: this.formatBody(request.body),
+      status: response?.status,
+      statusText: response?.statusText,
+      responseHeaders: response ? this.redactHeaders(readHeaders(response.headers)) : undefined,
+      responseBody: response ? this.formatBody(response.body) : undefined,
+      error: error ? error.message || String(error) : undefined,
+    };
+    this.updateHttpRecord(id, record => ({ ...record, attempts: [...record.attempts, attempt] }));
+  }
+
+  // 请求结束（成功或重试用尽后失败）
+  public finishRequest(id: string | null, outcome: { status?: number; error?: ApiError }): void {
+    this.updateHttpRecord(id, record => ({
+      ...record,
+      duration: Date.now() - record.startedAt,
+      status: outcome.status ?? record.attempts[record.attempts.length - 1]?.status,
+      error: outcome.error ? { code: outcome.error.code, message: outcome.error.message } : undefined,
+    }));
+  }
+
+  public recordFrame(direction: 'sent' | 'received', transport: string, url: string, frame: any): void {
+    if (!this.enabled) return;
+
+    const data = typeof frame === 'string'
+      ? this.formatBody(frame) || ''
+      : this.truncate(JSON.stringify(this.redactValue(frame)));
+
+    this.push({
+      type: 'websocket',
+      id: this.nextId(),
+      direction,
+      transport,
+      url: this.redactUrl(url),
+      event: typeof frame === 'object' && frame !== null ? frame.event : undefined,
+      data,
+      size: data.length,
+      timestamp: Date.now(),
+    });
+  }
+
+  // 导出为HAR 1.2。重试记录在_attempts中，WebSocket帧按连接地址合并为_webSocketMessages
+  public exportHar(): string {
+    const httpEntries = this.records
+      .filter((record): record is HttpRecord => record.type === 'http')
+      .map(record => this.toHarEntry(record));
+
+    const frames = this.records.filter((record): record is WebSocketFrameRecord => record.type === 'websocket');
+    const socketEntries = Array.from(groupBy(frames, frame => `${frame.transport} ${frame.url}`).values())
+      .map(group => this.toHarSocketEntry(group));
+
+    const entries = [...httpEntries, ...socketEntries]
+      .sort((a, b) => Date.parse(a.startedDateTime) - Date.parse(b.startedDateTime));
+
+    return JSON.stringify({
+      log: {
+        version: '1.2',
+        creator: { name: APP_CONFIG.APP_NAME, version: APP_CONFIG.APP_VERSION },
+        entries,
+      },
+    }, null, 2);
+  }
+
+  private toHarEntry(record: HttpRecord): Record<string, any> {
+    const last = record.attempts[record.attempts.length - 1];
+    const url = new URL(record.url);
+    const queryString: { name: string; value: string }[] = [];
+    url.searchParams.forEach((value, name) => queryString.push({ name, value }));
+    const time = record.duration ?? Date.now() - record.startedAt;
+
+    return {
+      startedDateTime: new Date(record.startedAt).toISOString(),
+      time,
+      request: {
+        method: record.method,
+        url: record.url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toHarHeaders(last?.requestHeaders),
+        queryString,
+        postData: last?.requestBody !== undefined
+          ? { mimeType: last.requestHeaders['Content-Type'] || 'application/json', text: last.requestBody }
+          : undefined,
+        headersSize: -1,
+        bodySize: last?.requestBody?.length ?? 0,
+      },
+      response: {
+        status: last?.status ?? 0,
+        statusText: last?.statusText ?? record.error?.message ?? '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toHarHeaders(last?.responseHeaders),
+        content: {
+          size: last?.responseBody?.length ?? 0,
+          mimeType: last?.responseHeaders?.['content-type'] || 'application/json',
+          text: last?.responseBody,
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: last?.responseBody?.length ?? -1,
+      },
+      cache: {},
+      timings: { send: 0, wait: last?.duration ?? time, receive: 0 },
+      _attempts: record.attempts.map(attempt => ({
+        startedDateTime: new Date(attempt.startedAt).toISOString(),
+        time: attempt.duration,
+        status: attempt.status,
+        error: attempt.error,
+      })),
+      _error: record.error,
+    };
+  }
+
+  private toHarSocketEntry(frames: WebSocketFrameRecord[]): Record<string, any> {
+    const first = frames[0];
+    const last = frames[frames.length - 1];
+
+    return {
+      startedDateTime: new Date(first.timestamp).toISOString(),
+      time: last.timestamp - first.timestamp,
+      request: {
+        method: HttpMethod.GET,
+        url: first.url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: [],
+        queryString: [],
+        headersSize: -1,
+        bodySize: 0,
+      },
+      response: {
+        status: 101,
+        statusText: 'Switching Protocols',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: [],
+        content: { size: 0, mimeType: '' },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: 0,
+      },
+      cache: {},
+      timings: { send: 0, wait: 0, receive: 0 },
+      _resourceType: 'websocket',
+      _transport: first.transport,
+      _webSocketMessages: frames.map(frame => ({
+        type: frame.direction === 'sent' ? 'send' : 'receive',
+        time: frame.timestamp / 1000,
+        opcode: 1,
+        data: frame.data,
+      })),
+    };
+  }
+
+  // 记录不可变地替换，列表组件据此判断哪些条目需要重新渲染；已被环形缓冲区丢弃的记录忽略
+  private updateHttpRecord(id: string | null, update: (record: HttpRecord) => HttpRecord): void {
+    if (!id) return;
+
+    const index = this.records.findIndex(item => item.id === id);
+    const record = this.records[index];
+    if (record?.type !== 'http') return;
+
+    this.records[index] = update(record);
+    this.notify();
+  }
+
+  private push(record: NetworkRecord): void {
+    this.records.push(record);
+    this.trim();
+    this.notify();
+  }
+
+  private trim(): void {
+    if (this.records.length > this.config.maxEntries) {
+      this.records.splice(0, this.records.length - this.config.maxEntries);
+    }
+  }
+
+  private notify(): void {
+    const records = this.getRecords();
+    this.listeners.forEach(listener => {
+      try {
+        listener(records);
+      } catch (error) {
+        logger.error('NetworkRecorder', 'Listener error', error);
+      }
+    });
+  }
+
+  private nextId(): string {
+    return `net_${Date.now()}_${++this.sequence}`;
+  }
+
+  private findRule(name: string): RedactionRule | undefined {
+    return this.config.redactionRules.find(rule => {
+      rule.pattern.lastIndex = 0;
+      return rule.pattern.test(name);
+    });
+  }
+
+  private redactHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.entries(headers).reduce<Record<string, string>>((result, [name, value]) => {
+      const rule = this.findRule(name);
+      result[name] = rule ? rule.replacement ?? DEFAULT_REPLACEMENT : value;
+      return result;
+    }, {});
+  }
+
+  private redactUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      let changed = false;
+      parsed.searchParams.forEach((_value, name) => {
+        const rule = this.findRule(name);
+        if (rule) {
+          parsed.searchParams.set(name, rule.replacement ?? DEFAULT_REPLACEMENT);
+          changed = true;
+        }
+      });
+      return changed ? parsed.toString() : url;
+    } catch {
+      return url;
+    }
+  }
+
+  // 递归替换名称匹配规则的字段
+  private redactValue(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item));
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    return Object.entries(value).reduce<Record<string, any>>((result, [key, item]) => {
+      const rule = this.findRule(key);
+      result[key] = rule ? rule.replacement ?? DEFAULT_REPLACEMENT : this.redactValue(item);
+      return result;
+    }, {});
+  }
+
+  // 请求体/响应体转为可保存的文本：JSON脱敏后保留，二进制只记录类型和大小
+  private formatBody(body: string | FormData | Blob | undefined): string | undefined {
+    if (!this.config.captureBodies || body === undefined || body === '') {
+      return undefined;
+    }
+    if (body instanceof FormData) {
+      return '[FormData]';
+    }
+    if (typeof body !== 'string') {
+      return `[Blob ${body.size} bytes]`;
+    }
+
+    try {
+      return this.truncate(JSON.stringify(this.redactValue(JSON.parse(body))));
+    } catch {
+      return this.truncate(body);
+    }
+  }
+
+  private truncate(text: string): string {
+    const limit = this.config.maxBodyLength;
+    return text.length > limit ? `${text.substring(0, limit)}…[已截断${text.length - limit}字符]` : text;
+  }
+}
+
+function readHeaders(headers: ResponseHeaders): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach?.((value, name) => {
+    result[name.toLowerCase()] = value;
+  });
+  return result;
+}
+
+function toHarHeaders(headers?: Record<string, string>): { name: string; value: string }[] {
+  return Object.entries(headers || {}).map(([name, value]) => ({ name, value }));
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = getKey(item);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return groups;
+}
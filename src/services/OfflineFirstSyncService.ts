@@ -6,14 +6,15 @@ import {
   SyncConflict,
   ConflictType,
   SyncChangesRequest,
-  SyncChangesResponse,
   UploadChangesRequest,
-  UploadChangesResponse,
 } from '@/types/api';
 import { ApiClient } from './ApiClient';
-import { DatabaseService } from './DatabaseService';
+import { createAuthenticatedApiClient } from './AuthenticatedApiClient';
+import { API_ENDPOINTS, callEndpoint } from './ApiEndpoints';
+import { DatabaseService, OutboxEntry, OutboxStatus } from './DatabaseService';
 import { StorageService } from './StorageService';
 import { NetworkManager } from '@/utils/NetworkManager';
+import { mergeThreeWay, getDataTimestamp } from './ConflictMerger';
 import { logger } from '@/utils';
 
 // 同步状态
@@ -41,6 +42,7 @@ export interface SyncConfig {
   syncInterval: number;
   retryAttempts: number;
   retryDelay: number;
+  maxChangeAttempts: number; // 单条更改的最大上传次数，超过后进入dead状态
   conflictResolution: ConflictResolutionStrategy;
 }
 
@@ -57,10 +59,22 @@ export enum SyncEvent {
   SYNC_COMPLETED = 'sync_completed',
   SYNC_FAILED = 'sync_failed',
   CONFLICT_DETECTED = 'conflict_detected',
+  CONFLICT_RESOLVED = 'conflict_resolved',
   DATA_CHANGED = 'data_changed',
   ONLINE_STATUS_CHANGED = 'online_status_changed',
 }
 
+// 等待手动解决的冲突
+export interface PendingConflict extends SyncConflict {
+  dataType: SyncDataType;
+  detectedAt: number;
+}
+
+// 手动解决方式：保留本地 / 采用服务器 / 使用编辑后的合并数据
+export type ManualResolution = 'client' | 'server' | 'merged';
+
+const CONFLICT_KEY_PREFIX = 'conflict_';
+
 export type SyncEventListener = (event: SyncEvent, data?: any) => void;
 
 export class OfflineFirstSyncService {
@@ -75,9 +89,10 @@ export class OfflineFirstSyncService {
   private eventListeners: Map<SyncEvent, SyncEventListener[]> = new Map();
   private syncTimer: any = null;
   private networkUnsubscribe: (() => void) | null = null;
+  private activeSync: Promise<void> | null = null;
 
   private constructor() {
-    this.apiClient = new ApiClient();
+    this.apiClient = createAuthenticatedApiClient();
     this.dbService = DatabaseService.getInstance();
     this.storageService = StorageService.getInstance();
     this.networkManager = NetworkManager.getInstance();
@@ -96,6 +111,7 @@ export class OfflineFirstSyncService {
       syncInterval: 30000, // 30秒
       retryAttempts: 3,
       retryDelay: 5000,
+      maxChangeAttempts: 10,
       conflictResolution: ConflictResolutionStrategy.SERVER_WINS,
     };
   }
@@ -126,12 +142,17 @@ export class OfflineFirstSyncService {
         this.emitEvent(SyncEvent.ONLINE_STATUS_CHANGED, { isOnline: networkInfo.isConnected });
       });
 
+      // 迁移旧版AsyncStorage中的本地更改，并恢复上次未完成的上传
+      await this.migrateLegacyLocalChanges();
+      await this.dbService.resetInFlightOutboxEntries();
+
       // 加载上次同步时间
       const lastSyncTime = await this.storageService.getItem<number>('last_sync_time') || 0;
       this.syncState.lastSyncTime = lastSyncTime;
 
-      // 统计待同步的更改
+      // 统计待同步的更改和待处理的冲突
       await this.updatePendingChangesCount();
+      await this.updateConflictCount();
 
       // 如果在线，开始同步
       if (this.syncState.isOnline) {
@@ -160,6 +181,18 @@ export class OfflineFirstSyncService {
       return;
     }
 
+    const sync = this.performSync();
+    this.activeSync = sync;
+    try {
+      await sync;
+    } finally {
+      if (this.activeSync === sync) {
+        this.activeSync = null;
+      }
+    }
+  }
+
+  private async performSync(): Promise<void> {
     try {
       this.syncState.isSyncing = true;
       this.emitEvent(SyncEvent.SYNC_STARTED);
@@ -201,17 +234,36 @@ export class OfflineFirstSyncService {
   ): Promise<string> {
     try {
       const clientId = id || this.generateClientId();
-      
+
+      // 删除操作只需要实体id
+      if (action === SyncAction.DELETE && typeof data === 'string') {
+        data = { id: data };
+      }
+
+      // 记录更改所基于的服务器版本，用于冲突时三方合并
+      const snapshot = data?.id ? await this.dbService.getSyncSnapshot(type, data.id) : null;
+
+      if (action === SyncAction.DELETE && data?.id) {
+        const neverUploaded = await this.prepareLocalDelete(type, data.id, snapshot?.version ?? 0);
+        if (neverUploaded) {
+          // 实体从未上传到服务器，无需再上传删除
+          await this.updatePendingChangesCount();
+          logger.debug('OfflineFirstSyncService', 'Local create and delete collapsed', { type, id: data.id });
+          return clientId;
+        }
+      }
+
       const localChange: LocalChange = {
         type,
         action,
         data,
         clientId,
         timestamp: new Date().toISOString(),
+        baseVersion: snapshot?.version,
       };
 
       // 保存到本地数据库
-      await this.saveLocalChange(localChange);
+      await this.saveLocalChange(localChange, snapshot?.data);
 
       // 更新待同步计数
       await this.updatePendingChangesCount();
@@ -231,33 +283,67 @@ export class OfflineFirstSyncService {
     }
   }
 
+  // 本地删除前的准备：写入墓碑并移除被删除覆盖的排队更改。
+  // 返回实体是否从未上传过（其创建仍在队列中且未尝试过）
+  private async prepareLocalDelete(type: SyncDataType, entityId: string, version: number): Promise<boolean> {
+    await this.dbService.saveSyncTombstone({ type, entityId, version, deletedAt: Date.now() });
+    await this.dbService.removeSyncSnapshot(type, entityId);
+
+    const queued = (await this.dbService.getQueuedOutboxEntries(type))
+      .filter(entry => entry.data?.id === entityId && entry.action !== SyncAction.DELETE);
+    await this.dbService.removeOutboxEntries(queued.map(entry => entry.clientId));
+
+    return queued.some(entry =>
+      entry.action === SyncAction.CREATE && entry.status === OutboxStatus.PENDING && entry.attempts === 0
+    );
+  }
+
   // 上传本地更改
   private async uploadLocalChanges(): Promise<void> {
     try {
-      const localChanges = await this.getLocalChanges();
-      if (localChanges.length === 0) {
-        logger.debug('OfflineFirstSyncService', 'No local changes to upload');
-        return;
-      }
+      let uploaded = 0;
+
+      // 按写入顺序逐批上传，某一批未全部完成时停止，避免后续更改先于前面的更改到达服务器
+      while (true) {
+        const batch = await this.dbService.getReadyOutboxEntries(this.config.batchSize);
+        if (batch.length === 0) {
+          break;
+        }
 
-      logger.info('OfflineFirstSyncService', `Uploading ${localChanges.length} local changes`);
+        const completed = await this.uploadBatch(batch);
+        uploaded += batch.length;
 
-      // 分批上传
-      const batches = this.chunkArray(localChanges, this.config.batchSize);
-      
-      for (const batch of batches) {
-        await this.uploadBatch(batch);
+        if (!completed) {
+          break;
+        }
+      }
+
+      if (uploaded === 0) {
+        logger.debug('OfflineFirstSyncService', 'No local changes to upload');
+        return;
       }
 
-      logger.info('OfflineFirstSyncService', 'All local changes uploaded successfully');
+      logger.info('OfflineFirstSyncService', `Uploaded ${uploaded} local changes`);
     } catch (error) {
       logger.error('OfflineFirstSyncService', 'Failed to upload local changes', error);
       throw error;
     }
   }
 
-  // 上传一批更改
-  private async uploadBatch(changes: LocalChange[]): Promise<void> {
+  // 上传一批更改，返回是否全部被服务器确认
+  private async uploadBatch(entries: OutboxEntry[]): Promise<boolean> {
+    const clientIds = entries.map(entry => entry.clientId);
+    const changes: LocalChange[] = entries.map(({ type, action, data, clientId, timestamp, baseVersion }) => ({
+      type,
+      action,
+      data,
+      clientId,
+      timestamp,
+      baseVersion,
+    }));
+
+    await this.dbService.markOutboxInFlight(clientIds);
+
     let attempt = 0;
     
     while (attempt < this.config.retryAttempts) {
@@ -267,28 +353,40 @@ export class OfflineFirstSyncService {
           deviceId: await this.getDeviceId(),
         };
 
-        const response = await this.apiClient.post<UploadChangesResponse>('/sync/upload', request);
-        
-        if (response.success && response.data) {
-          const { conflicts, processed } = response.data;
+        const { conflicts, processed } = await callEndpoint(this.apiClient, API_ENDPOINTS.sync.upload, request);
 
-          // 处理冲突
-          if (conflicts.length > 0) {
-            await this.handleUploadConflicts(conflicts);
-          }
+        // 删除已处理的本地更改
+        await this.removeProcessedChanges(processed);
 
-          // 删除已处理的本地更改
-          await this.removeProcessedChanges(processed);
+        // 处理冲突
+        if (conflicts.length > 0) {
+          await this.handleUploadConflicts(conflicts);
+        }
 
-          logger.debug('OfflineFirstSyncService', `Batch uploaded: ${processed.length} processed, ${conflicts.length} conflicts`);
+        // 服务器未确认的更改稍后重试
+        const unacknowledged = await this.getInFlightClientIds(clientIds);
+        if (unacknowledged.length > 0) {
+          await this.dbService.markOutboxFailed(
+            unacknowledged,
+            'Change not acknowledged by server',
+            this.config.maxChangeAttempts,
+            this.config.retryDelay
+          );
         }
 
-        return; // 成功，退出重试循环
-      } catch (error) {
+        logger.debug('OfflineFirstSyncService', `Batch uploaded: ${processed.length} processed, ${conflicts.length} conflicts`);
+        return unacknowledged.length === 0;
+      } catch (error: any) {
         attempt++;
         
         if (attempt >= this.config.retryAttempts) {
           logger.error('OfflineFirstSyncService', `Upload batch failed after ${attempt} attempts`, error);
+          await this.dbService.markOutboxFailed(
+            clientIds,
+            error?.message || String(error),
+            this.config.maxChangeAttempts,
+            this.config.retryDelay
+          );
           throw error;
         }
 
@@ -296,6 +394,20 @@ export class OfflineFirstSyncService {
         await this.sleep(this.config.retryDelay * attempt);
       }
     }
+
+    return false;
+  }
+
+  // 找出仍处于上传中状态的更改
+  private async getInFlightClientIds(clientIds: string[]): Promise<string[]> {
+    const result: string[] = [];
+    for (const clientId of clientIds) {
+      const entry = await this.dbService.getOutboxEntry(clientId);
+      if (entry && entry.status === OutboxStatus.IN_FLIGHT) {
+        result.push(clientId);
+      }
+    }
+    return result;
   }
 
   // 下载服务器更改
@@ -313,25 +425,22 @@ export class OfflineFirstSyncService {
         const request: SyncChangesRequest = {
           since,
           types,
+          nextToken,
         };
 
-        const response = await this.apiClient.get<SyncChangesResponse>('/sync/changes', {
-          params: { ...request, nextToken }
-        });
+        const { changes, hasMore: moreChanges, nextToken: token } = await callEndpoint(
+          this.apiClient,
+          API_ENDPOINTS.sync.changes,
+          request
+        );
 
-        if (response.success && response.data) {
-          const { changes, hasMore: moreChanges, nextToken: token } = response.data;
-
-          if (changes.length > 0) {
-            await this.applyServerChanges(changes);
-            logger.debug('OfflineFirstSyncService', `Applied ${changes.length} server changes`);
-          }
-
-          hasMore = moreChanges;
-          nextToken = token;
-        } else {
-          break;
+        if (changes.length > 0) {
+          await this.applyServerChanges(changes);
+          logger.debug('OfflineFirstSyncService', `Applied ${changes.length} server changes`);
         }
+
+        hasMore = moreChanges;
+        nextToken = token;
       }
 
       logger.info('OfflineFirstSyncService', 'Server changes downloaded successfully');
@@ -356,7 +465,17 @@ export class OfflineFirstSyncService {
 
   // 应用单个服务器更改
   private async applyServerChange(change: SyncChange): Promise<void> {
-    const { type, action, data, id } = change;
+    const { type, action, data } = change;
+    const id = data?.id || change.id;
+
+    // 已删除的实体不会被版本更早的创建/更新复活
+    if (action !== SyncAction.DELETE) {
+      const tombstone = await this.dbService.getSyncTombstone(type, id);
+      if (tombstone && tombstone.version >= change.version) {
+        logger.debug('OfflineFirstSyncService', `Skip change for deleted ${type}: ${id}`);
+        return;
+      }
+    }
 
     switch (type) {
       case SyncDataType.MESSAGES:
@@ -373,6 +492,32 @@ export class OfflineFirstSyncService {
         break;
       default:
         logger.warn('OfflineFirstSyncService', `Unknown change type: ${type}`);
+        return;
+    }
+
+    await this.updateSyncSnapshot(change);
+  }
+
+  // 保存服务器版本快照，作为后续本地更改的合并基准；删除时改为记录墓碑
+  private async updateSyncSnapshot(change: SyncChange): Promise<void> {
+    const entityId = change.data?.id || change.id;
+
+    if (change.action === SyncAction.DELETE) {
+      await this.dbService.removeSyncSnapshot(change.type, entityId);
+      await this.dbService.saveSyncTombstone({
+        type: change.type,
+        entityId,
+        version: change.version,
+        deletedAt: Date.now(),
+      });
+    } else {
+      await this.dbService.removeSyncTombstone(change.type, entityId);
+      await this.dbService.saveSyncSnapshot({
+        type: change.type,
+        entityId,
+        version: change.version,
+        data: change.data,
+      });
     }
   }
 
@@ -384,7 +529,7 @@ export class OfflineFirstSyncService {
         await this.dbService.saveMessage(data);
         break;
       case SyncAction.DELETE:
-        // 实现消息删除逻辑
+        await this.dbService.deleteMessage(id);
         logger.debug('OfflineFirstSyncService', `Delete message: ${id}`);
         break;
     }
@@ -398,7 +543,7 @@ export class OfflineFirstSyncService {
         await this.dbService.saveChat(data);
         break;
       case SyncAction.DELETE:
-        // 实现聊天删除逻辑
+        await this.dbService.deleteChat(id);
         logger.debug('OfflineFirstSyncService', `Delete chat: ${id}`);
         break;
     }
@@ -412,7 +557,7 @@ export class OfflineFirstSyncService {
         await this.dbService.saveUser(data);
         break;
       case SyncAction.DELETE:
-        // 实现用户删除逻辑
+        await this.dbService.deleteUser(id);
         logger.debug('OfflineFirstSyncService', `Delete user: ${id}`);
         break;
     }
@@ -420,8 +565,16 @@ export class OfflineFirstSyncService {
 
   // 应用部门更改
   private async applyDepartmentChange(action: SyncAction, data: any, id: string): Promise<void> {
-    // 实现部门更改逻辑
-    logger.debug('OfflineFirstSyncService', `Apply department change: ${action} ${id}`);
+    switch (action) {
+      case SyncAction.CREATE:
+      case SyncAction.UPDATE:
+        await this.dbService.saveDepartment(data);
+        break;
+      case SyncAction.DELETE:
+        await this.dbService.deleteDepartment(id);
+        logger.debug('OfflineFirstSyncService', `Delete department: ${id}`);
+        break;
+    }
   }
 
   // 处理上传冲突
@@ -438,7 +591,7 @@ export class OfflineFirstSyncService {
 
   // 解决冲突
   private async resolveConflict(conflict: SyncConflict): Promise<void> {
-    const { clientId, type, serverData, localData } = conflict;
+    const { clientId, type, serverData } = conflict;
 
     logger.info('OfflineFirstSyncService', 'Resolving conflict', { clientId, type });
 
@@ -455,20 +608,23 @@ export class OfflineFirstSyncService {
       case ConflictResolutionStrategy.MANUAL:
         // 保存冲突供用户手动解决
         await this.saveConflictForManualResolution(conflict);
-        this.syncState.conflictCount++;
-        this.emitEvent(SyncEvent.CONFLICT_DETECTED, conflict);
         break;
 
       case ConflictResolutionStrategy.MERGE:
         // 尝试合并数据
-        const mergedData = await this.mergeConflictData(serverData, localData);
+        const mergedData = await this.mergeConflictData(conflict);
         if (mergedData) {
-          await this.updateLocalChange(clientId, mergedData);
+          await this.dbService.rebaseOutboxEntry(
+            clientId,
+            mergedData,
+            serverData,
+            conflict.serverVersion ?? serverData?.version,
+            this.config.maxChangeAttempts
+          );
+          logger.info('OfflineFirstSyncService', 'Conflict merged automatically', { clientId });
         } else {
           // 合并失败，降级为手动解决
           await this.saveConflictForManualResolution(conflict);
-          this.syncState.conflictCount++;
-          this.emitEvent(SyncEvent.CONFLICT_DETECTED, conflict);
         }
         break;
     }
@@ -476,76 +632,87 @@ export class OfflineFirstSyncService {
 
   // 解决冲突
   private async resolveConflicts(): Promise<void> {
-    // 获取待解决的冲突
-    const conflicts = await this.getUnresolvedConflicts();
-    
-    if (conflicts.length > 0) {
-      logger.info('OfflineFirstSyncService', `Resolving ${conflicts.length} conflicts`);
-      
-      for (const conflict of conflicts) {
-        await this.resolveConflict(conflict);
-      }
+    // 已保存的冲突需要用户手动处理，这里只刷新计数
+    await this.updateConflictCount();
+
+    if (this.syncState.conflictCount > 0) {
+      logger.info('OfflineFirstSyncService', `${this.syncState.conflictCount} conflicts awaiting manual resolution`);
     }
   }
 
+  // 更新待处理冲突计数
+  private async updateConflictCount(): Promise<void> {
+    const conflicts = await this.getUnresolvedConflicts();
+    this.syncState.conflictCount = conflicts.length;
+  }
+
   // 保存本地更改
-  private async saveLocalChange(change: LocalChange): Promise<void> {
-    // 实现保存到本地数据库的逻辑
-    const changeData = JSON.stringify(change);
-    await this.storageService.setItem(`local_change_${change.clientId}`, changeData);
+  private async saveLocalChange(change: LocalChange, baseData?: any): Promise<void> {
+    await this.dbService.enqueueOutboxChange(change, baseData);
   }
 
-  // 获取本地更改
-  private async getLocalChanges(): Promise<LocalChange[]> {
-    const storageInfo = await this.storageService.getStorageInfo();
-    const changeKeys = storageInfo.keys.filter(key => key.startsWith('local_change_'));
-    
+  // 迁移旧版本保存在AsyncStorage中的local_change_*键（只执行一次）
+  private async migrateLegacyLocalChanges(): Promise<void> {
+    const migrated = await this.storageService.getItem<boolean>('local_changes_migrated');
+    if (migrated) {
+      return;
+    }
+
+    const keys = await this.storageService.getAllKeys();
+    const changeKeys = keys.filter(key => key.startsWith('local_change_'));
     const changes: LocalChange[] = [];
+
     for (const key of changeKeys) {
       const changeData = await this.storageService.getItem<string>(key);
       if (changeData) {
         try {
-          const change = JSON.parse(changeData) as LocalChange;
-          changes.push(change);
+          changes.push(JSON.parse(changeData) as LocalChange);
         } catch (error) {
           logger.warn('OfflineFirstSyncService', `Invalid change data: ${key}`, error);
         }
       }
     }
 
-    return changes.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    changes.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    for (const change of changes) {
+      await this.dbService.enqueueOutboxChange(change);
+    }
+
+    for (const key of changeKeys) {
+      await this.storageService.removeItem(key);
+    }
+
+    await this.storageService.setItem('local_changes_migrated', true);
+
+    if (changeKeys.length > 0) {
+      logger.info('OfflineFirstSyncService', `Migrated ${changes.length} legacy local changes to outbox`);
+    }
   }
 
   // 删除已处理的更改
   private async removeProcessedChanges(clientIds: string[]): Promise<void> {
-    for (const clientId of clientIds) {
-      await this.removeLocalChange(clientId);
-    }
+    await this.dbService.removeOutboxEntries(clientIds);
   }
 
   // 删除本地更改
   private async removeLocalChange(clientId: string): Promise<void> {
-    await this.storageService.removeItem(`local_change_${clientId}`);
+    await this.dbService.removeOutboxEntries([clientId]);
   }
 
   // 更新本地更改
   private async updateLocalChange(clientId: string, newData: any): Promise<void> {
-    const changeData = await this.storageService.getItem<string>(`local_change_${clientId}`);
-    if (changeData) {
-      try {
-        const change = JSON.parse(changeData) as LocalChange;
-        change.data = newData;
-        await this.storageService.setItem(`local_change_${clientId}`, JSON.stringify(change));
-      } catch (error) {
-        logger.error('OfflineFirstSyncService', `Failed to update local change: ${clientId}`, error);
-      }
+    try {
+      await this.dbService.updateOutboxData(clientId, newData);
+    } catch (error) {
+      logger.error('OfflineFirstSyncService', `Failed to update local change: ${clientId}`, error);
     }
   }
 
-  // 更新待同步更改计数
+  // 更新待同步更改计数（不包含已放弃的更改）
   private async updatePendingChangesCount(): Promise<void> {
-    const changes = await this.getLocalChanges();
-    this.syncState.pendingChanges = changes.length;
+    const stats = await this.dbService.getOutboxStats();
+    this.syncState.pendingChanges =
+      stats[OutboxStatus.PENDING] + stats[OutboxStatus.IN_FLIGHT] + stats[OutboxStatus.FAILED];
   }
 
   // 启动定时同步
@@ -572,15 +739,6 @@ export class OfflineFirstSyncService {
     return `local_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
   }
 
-  // 分块数组
-  private chunkArray<T>(array: T[], size: number): T[][] {
-    const chunks: T[][] = [];
-    for (let i = 0; i < array.length; i += size) {
-      chunks.push(array.slice(i, i + size));
-    }
-    return chunks;
-  }
-
   // 延迟函数
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
@@ -650,15 +808,87 @@ export class OfflineFirstSyncService {
     }
   }
 
+  // 获取待手动解决的冲突，按发现时间排序
+  public async getUnresolvedConflicts(): Promise<PendingConflict[]> {
+    const keys = await this.storageService.getAllKeys();
+    const conflicts: PendingConflict[] = [];
+
+    for (const key of keys.filter(key => key.startsWith(CONFLICT_KEY_PREFIX))) {
+      const conflict = await this.storageService.getItem<PendingConflict>(key);
+      if (conflict) {
+        conflicts.push(conflict);
+      }
+    }
+
+    return conflicts.sort((a, b) => a.detectedAt - b.detectedAt);
+  }
+
   // 手动解决冲突
   public async resolveManualConflict(
-    conflictId: string, 
-    resolution: 'server' | 'client' | 'merged',
+    conflictId: string,
+    resolution: ManualResolution,
     mergedData?: any
   ): Promise<void> {
-    // 实现手动冲突解决逻辑
+    const conflict = await this.storageService.getItem<PendingConflict>(`${CONFLICT_KEY_PREFIX}${conflictId}`);
+    if (!conflict) {
+      throw new Error(`Conflict not found: ${conflictId}`);
+    }
+
     logger.info('OfflineFirstSyncService', `Manual conflict resolution: ${conflictId} -> ${resolution}`);
-    this.syncState.conflictCount = Math.max(0, this.syncState.conflictCount - 1);
+
+    switch (resolution) {
+      case 'server':
+        // 丢弃本地更改，本地数据恢复为服务器版本
+        await this.removeLocalChange(conflictId);
+        await this.applyResolvedData(conflict, conflict.serverData);
+        break;
+
+      case 'client':
+        // 以服务器版本为基准重新上传本地数据
+        await this.requeueResolvedChange(conflict, conflict.localData);
+        break;
+
+      case 'merged':
+        if (mergedData === undefined || mergedData === null) {
+          throw new Error('Merged data is required');
+        }
+        await this.applyResolvedData(conflict, mergedData);
+        await this.requeueResolvedChange(conflict, mergedData);
+        break;
+    }
+
+    await this.finishConflict(conflict, resolution);
+  }
+
+  // 放弃冲突：删除冲突记录和对应的本地更改，本地数据保持不变
+  public async discardConflict(conflictId: string): Promise<void> {
+    const conflict = await this.storageService.getItem<PendingConflict>(`${CONFLICT_KEY_PREFIX}${conflictId}`);
+    if (!conflict) {
+      return;
+    }
+
+    await this.removeLocalChange(conflictId);
+    await this.finishConflict(conflict, 'discarded');
+  }
+
+  // 查看发件箱中的更改
+  public async getOutboxEntries(status?: OutboxStatus): Promise<OutboxEntry[]> {
+    return this.dbService.getOutboxEntries(status);
+  }
+
+  // 重新上传已放弃的更改
+  public async retryDeadChanges(): Promise<void> {
+    // 等待手动解决冲突的更改不参与重试
+    const conflicts = await this.getUnresolvedConflicts();
+    const conflictIds = new Set(conflicts.map(conflict => conflict.clientId));
+    const deadEntries = (await this.dbService.getOutboxEntries(OutboxStatus.DEAD))
+      .filter(entry => !conflictIds.has(entry.clientId));
+    await this.dbService.requeueOutboxEntries(deadEntries.map(entry => entry.clientId));
+    await this.updatePendingChangesCount();
+
+    if (deadEntries.length > 0 && this.syncState.isOnline && !this.syncState.isSyncing) {
+      this.startSync();
+    }
   }
 
   // 清除同步错误
@@ -671,6 +901,35 @@ export class OfflineFirstSyncService {
     await this.startSync(true);
   }
 
+  // 是否已初始化并在定时同步
+  public isRunning(): boolean {
+    return this.syncTimer !== null;
+  }
+
+  // 停止同步并等待进行中的同步结束（切换账户前调用），事件监听保留
+  public async stop(): Promise<void> {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+
+    if (this.networkUnsubscribe) {
+      this.networkUnsubscribe();
+      this.networkUnsubscribe = null;
+    }
+
+    await this.activeSync;
+
+    this.syncState = {
+      ...this.syncState,
+      lastSyncTime: 0,
+      pendingChanges: 0,
+      conflictCount: 0,
+      errors: [],
+    };
+    logger.info('OfflineFirstSyncService', 'Sync service stopped');
+  }
+
   // 销毁服务
   public destroy(): void {
     if (this.syncTimer) {
@@ -687,22 +946,106 @@ export class OfflineFirstSyncService {
     logger.info('OfflineFirstSyncService', 'Service destroyed');
   }
 
-  // 以下是一些占位方法，需要根据具体需求实现
+  // 冲突记录
 
   private async saveConflictForManualResolution(conflict: SyncConflict): Promise<void> {
-    // 保存冲突到本地存储，供用户手动解决
-    await this.storageService.setItem(`conflict_${conflict.clientId}`, conflict);
+    const entry = await this.dbService.getOutboxEntry(conflict.clientId);
+    const pending: PendingConflict = {
+      ...conflict,
+      localData: conflict.localData ?? entry?.data,
+      dataType: entry?.type ?? SyncDataType.MESSAGES,
+      detectedAt: Date.now(),
+    };
+
+    // 保存冲突到本地存储，供用户手动解决；对应的更改在解决前暂停上传
+    await this.storageService.setItem(`${CONFLICT_KEY_PREFIX}${conflict.clientId}`, pending);
+    if (entry) {
+      await this.dbService.holdOutboxEntry(conflict.clientId, 'Awaiting manual conflict resolution');
+    }
+
+    await this.updateConflictCount();
+    this.emitEvent(SyncEvent.CONFLICT_DETECTED, pending);
+  }
+
+  // 将解决后的数据写入本地数据库
+  private async applyResolvedData(conflict: PendingConflict, data: any): Promise<void> {
+    const id = data?.id || conflict.localData?.id || conflict.clientId;
+
+    if (conflict.type === ConflictType.DELETED_ON_SERVER && data === conflict.serverData) {
+      await this.applyServerChange({
+        type: conflict.dataType,
+        action: SyncAction.DELETE,
+        data: null,
+        id,
+        timestamp: new Date().toISOString(),
+        version: conflict.serverVersion ?? 0,
+      });
+    } else if (data) {
+      await this.applyServerChange({
+        type: conflict.dataType,
+        action: SyncAction.UPDATE,
+        data,
+        id,
+        timestamp: new Date().toISOString(),
+        version: conflict.serverVersion ?? data.version ?? 0,
+      });
+    }
+  }
+
+  // 以服务器版本为基准重新上传
+  private async requeueResolvedChange(conflict: PendingConflict, data: any): Promise<void> {
+    const entry = await this.dbService.getOutboxEntry(conflict.clientId);
+
+    if (entry) {
+      await this.dbService.rebaseOutboxEntry(
+        conflict.clientId,
+        data,
+        conflict.serverData,
+        conflict.serverVersion ?? conflict.serverData?.version,
+        this.config.maxChangeAttempts
+      );
+      await this.dbService.requeueOutboxEntries([conflict.clientId]);
+    } else {
+      // 对应的更改已不存在时重新记录
+      await this.saveLocalChange({
+        type: conflict.dataType,
+        action: conflict.type === ConflictType.DELETED_ON_SERVER ? SyncAction.CREATE : SyncAction.UPDATE,
+        data,
+        clientId: conflict.clientId,
+        timestamp: new Date().toISOString(),
+        baseVersion: conflict.serverVersion,
+      }, conflict.serverData);
+    }
   }
 
-  private async getUnresolvedConflicts(): Promise<SyncConflict[]> {
-    // 获取未解决的冲突
-    return [];
+  // 删除冲突记录并更新状态
+  private async finishConflict(conflict: PendingConflict, resolution: ManualResolution | 'discarded'): Promise<void> {
+    await this.storageService.removeItem(`${CONFLICT_KEY_PREFIX}${conflict.clientId}`);
+    await this.updateConflictCount();
+    await this.updatePendingChangesCount();
+
+    this.emitEvent(SyncEvent.CONFLICT_RESOLVED, { conflict, resolution });
+
+    if (this.syncState.isOnline && !this.syncState.isSyncing) {
+      this.startSync();
+    }
   }
 
-  private async mergeConflictData(serverData: any, localData: any): Promise<any | null> {
-    // 实现数据合并逻辑
-    // 这里需要根据具体的数据类型来实现合并策略
-    return null;
+  // 以本地更改产生时的服务器版本为基准做三方合并，无法合并时返回null
+  private async mergeConflictData(conflict: SyncConflict): Promise<any | null> {
+    if (conflict.type !== ConflictType.VERSION_CONFLICT) {
+      return null;
+    }
+
+    const entry = await this.dbService.getOutboxEntry(conflict.clientId);
+    if (!entry || entry.action !== SyncAction.UPDATE) {
+      return null;
+    }
+
+    return mergeThreeWay(entry.type, entry.baseData, conflict.localData ?? entry.data, conflict.serverData, {
+      localTimestamp: new Date(entry.timestamp).getTime(),
+      serverTimestamp: getDataTimestamp(conflict.serverData),
+    });
   }
 }
 
@@ -0,0 +1,50 @@
+// 时钟抽象，测试时可替换为可手动推进的假时钟
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, delay: number): any;
+  clearTimeout(handle: any): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: handle => clearTimeout(handle),
+};
+
+// 重连策略：根据第几次重连（从1开始）返回等待时间，返回null表示放弃重连
+export interface ReconnectPolicy {
+  nextDelay(attempt: number): number | null;
+}
+
+export interface ExponentialBackoffOptions {
+  initialDelay: number;
+  maxDelay: number;
+  multiplier?: number;
+  maxAttempts?: number; // 默认不限次数
+  random?: () => number; // 返回[0, 1)的随机数，测试时可固定
+}
+
+// 指数退避 + 全抖动：等待时间在[0, min(maxDelay, initialDelay * multiplier^(attempt-1))]内随机
+export class ExponentialBackoffPolicy implements ReconnectPolicy {
+  private options: Required<ExponentialBackoffOptions>;
+
+  constructor(options: ExponentialBackoffOptions) {
+    this.options = {
+      multiplier: 2,
+      maxAttempts: Infinity,
+      random: Math.random,
+      ...options,
+    };
+  }
+
+  public nextDelay(attempt: number): number | null {
+    const { initialDelay, maxDelay, multiplier, maxAttempts, random } = this.options;
+
+    if (attempt > maxAttempts) {
+      return null;
+    }
+
+    const ceiling = Math.min(maxDelay, initialDelay * Math.pow(multiplier, Math.max(0, attempt - 1)));
+    return Math.floor(random() * ceiling);
+  }
+}
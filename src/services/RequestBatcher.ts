@@ -0,0 +1,224 @@
+import { HttpMethod, BatchRequest, BatchResponseItem } from '@/types/api';
+import { HttpTransport, TransportRequest, TransportResponse } from './HttpTransport';
+import { logger } from '@/utils';
+
+export const BATCH_PATH = '/batch';
+
+export interface BatchOptions {
+  baseURL: string;
+  window: number; // 收集请求的时间窗口（毫秒）
+  maxBatchSize: number; // 达到该数量时立即发送
+}
+
+// 等待合并发送的请求
+interface QueuedRequest {
+  id: string;
+  request: TransportRequest;
+  settled: boolean;
+  resolve: (response: TransportResponse) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+// 将时间窗口内的请求合并为一个POST /batch，按id把各项响应分发给对应的请求。
+// 对ApiClient而言与普通传输一致：每个请求得到自己的状态码、响应头和响应体，
+// 重试、熔断和错误转换仍按单个请求进行。服务器不支持批量接口时退回单独发送
+export class RequestBatcher implements HttpTransport {
+  private getOptions: () => BatchOptions;
+  private getTransport: () => HttpTransport;
+  private queue: QueuedRequest[] = [];
+  private timer: any = null;
+  private sequence = 0;
+  private unsupported = false;
+
+  constructor(getOptions: () => BatchOptions, getTransport: () => HttpTransport) {
+    this.getOptions = getOptions;
+    this.getTransport = getTransport;
+  }
+
+  public send(request: TransportRequest): Promise<TransportResponse> {
+    // 二进制请求体无法放进JSON批量请求
+    if (this.unsupported || (request.body !== undefined && typeof request.body !== 'string')) {
+      return this.getTransport().send(request);
+    }
+
+    return new Promise((resolve, reject) => {
+      const { signal } = request;
+      if (signal?.aborted) {
+        reject(new Error('Request cancelled'));
+        return;
+      }
+
+      const item: QueuedRequest = {
+        id: String(++this.sequence),
+        request,
+        settled: false,
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      };
+
+      // 未发送时移出队列；已发送时只结束这个调用方的等待
+      const onAbort = () => {
+        this.queue = this.queue.filter(queued => queued !== item);
+        this.settle(item, () => reject(new Error('Request cancelled')));
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      this.queue.push(item);
+      if (this.queue.length >= this.getOptions().maxBatchSize) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.getOptions().window);
+      }
+    });
+  }
+
+  private flush(): void {
+    clearTimeout(this.timer);
+    this.timer = null;
+
+    const { maxBatchSize, window } = this.getOptions();
+    const items = this.queue.splice(0, maxBatchSize);
+    if (this.queue.length > 0) {
+      this.timer = setTimeout(() => this.flush(), window);
+    }
+
+    // 只有一个请求时没有必要包装
+    if (items.length === 1) {
+      this.forward(items[0]);
+    } else if (items.length > 1) {
+      this.sendBatch(items);
+    }
+  }
+
+  private forward(item: QueuedRequest): void {
+    this.getTransport().send(item.request).then(
+      response => this.settle(item, () => item.resolve(response)),
+      error => this.settle(item, () => item.reject(error))
+    );
+  }
+
+  private async sendBatch(items: QueuedRequest[]): Promise<void> {
+    const { baseURL } = this.getOptions();
+    const sharedHeaders = getSharedHeaders(items.map(item => item.request.headers));
+    const controller = new AbortController();
+
+    // 所有调用方都已取消时中止批量请求
+    items.forEach(item => item.request.signal?.addEventListener('abort', () => {
+      if (items.every(queued => queued.settled)) {
+        controller.abort();
+      }
+    }));
+
+    let batch: BatchRequest;
+    try {
+      batch = {
+        requests: items.map(item => ({
+          id: item.id,
+          method: item.request.method,
+          path: toRelativePath(item.request.url, baseURL),
+          headers: omitHeaders(item.request.headers, sharedHeaders),
+          body: typeof item.request.body === 'string' ? JSON.parse(item.request.body) : undefined,
+        })),
+      };
+    } catch {
+      // 请求体不是JSON时无法合并
+      items.forEach(item => this.forward(item));
+      return;
+    }
+
+    let response: TransportResponse;
+    try {
+      response = await this.getTransport().send({
+        method: HttpMethod.POST,
+        url: `${baseURL}${BATCH_PATH}`,
+        headers: { ...sharedHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify(batch),
+        timeout: Math.max(...items.map(item => item.request.timeout)),
+        signal: controller.signal,
+      });
+    } catch (error: any) {
+      items.forEach(item => this.settle(item, () => item.reject(error)));
+      return;
+    }
+
+    if (response.status === 404 || response.status === 405) {
+      logger.warn('RequestBatcher', `Batch endpoint unavailable (HTTP ${response.status}), sending requests individually`);
+      this.unsupported = true;
+      items.forEach(item => this.forward(item));
+      return;
+    }
+
+    // 批量请求整体失败（如5xx、429）时，每个请求都得到这个响应，由ApiClient按各自的策略重试
+    if (response.status < 200 || response.status >= 300) {
+      items.forEach(item => this.settle(item, () => item.resolve(response)));
+      return;
+    }
+
+    const results = parseBatchResponse(response.body);
+    items.forEach(item => {
+      const result = results?.get(item.id);
+      this.settle(item, () =>
+        result ? item.resolve(toTransportResponse(result)) : item.reject(new Error('Invalid response format'))
+      );
+    });
+
+    logger.debug('RequestBatcher', `Batch of ${items.length} requests completed`);
+  }
+
+  // 每个请求只结束一次（取消后到达的响应被忽略）
+  private settle(item: QueuedRequest, finish: () => void): void {
+    if (item.settled) return;
+    item.settled = true;
+    item.cleanup();
+    finish();
+  }
+}
+
+// 所有请求都相同的请求头（如Authorization）放在批量请求上，其余的随各项发送
+function getSharedHeaders(headerSets: Record<string, string>[]): Record<string, string> {
+  const [first, ...rest] = headerSets;
+  return Object.entries(first || {}).reduce<Record<string, string>>((shared, [name, value]) => {
+    if (rest.every(headers => headers[name] === value)) {
+      shared[name] = value;
+    }
+    return shared;
+  }, {});
+}
+
+function omitHeaders(headers: Record<string, string>, omitted: Record<string, string>): Record<string, string> | undefined {
+  const remaining = Object.entries(headers).filter(([name]) => !(name in omitted));
+  return remaining.length > 0 ? Object.fromEntries(remaining) : undefined;
+}
+
+function toRelativePath(url: string, baseURL: string): string {
+  return url.startsWith(baseURL) ? url.substring(baseURL.length) || '/' : url;
+}
+
+function parseBatchResponse(body: string): Map<string, BatchResponseItem> | null {
+  try {
+    const parsed = JSON.parse(body);
+    const responses: BatchResponseItem[] | undefined = parsed?.data?.responses;
+    return Array.isArray(responses) ? new Map(responses.map(item => [String(item.id), item])) : null;
+  } catch {
+    return null;
+  }
+}
+
+function toTransportResponse(result: BatchResponseItem): TransportResponse {
+  const headers = Object.entries(result.headers || {}).reduce<Record<string, string>>(
+    (lower, [name, value]) => ({ ...lower, [name.toLowerCase()]: value }),
+    {}
+  );
+
+  return {
+    status: result.status,
+    statusText: '',
+    headers: {
+      get: (name: string) => headers[name.toLowerCase()] ?? null,
+      forEach: callback => Object.entries(headers).forEach(([name, value]) => callback(value, name)),
+    },
+    body: result.body === undefined ? '' : JSON.stringify(result.body),
+  };
+}
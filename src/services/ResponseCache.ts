@@ -0,0 +1,269 @@
+import { CacheItem, CacheValidators } from '@/types/api';
+import { StorageService } from './StorageService';
+import { logger } from '@/utils';
+
+// 持久化条目的索引信息，用于淘汰和按标签清理时不必读取数据本身
+interface CacheIndexEntry {
+  size: number;
+  timestamp: number;
+  ttl: number;
+  tags: string[];
+  lastAccess: number;
+}
+
+export interface CacheSetOptions {
+  ttl: number; // 秒
+  tags?: string[];
+  validators?: CacheValidators;
+  generation?: number; // 发起请求时的getGeneration()，之后缓存被reset（如切换账户）则不再写入
+}
+
+const ITEM_KEY_PREFIX = 'api_cache:';
+const INDEX_STORAGE_KEY = 'api_cache_index';
+const MEMORY_MAX_SIZE = 2 * 1024 * 1024; // 内存层上限，超过后按最近最少使用淘汰
+
+// API响应缓存：内存 + AsyncStorage两级，持久层总大小不超过AppConfig.cacheMaxSize
+export class ResponseCache {
+  private static instance: ResponseCache;
+  private storageService: StorageService;
+  private memory: Map<string, { item: CacheItem; size: number }> = new Map();
+  private memorySize = 0;
+  private index: Record<string, CacheIndexEntry> | null = null;
+  private indexLoading: Promise<Record<string, CacheIndexEntry>> | null = null;
+  private generation = 0;
+
+  private constructor() {
+    this.storageService = StorageService.getInstance();
+  }
+
+  public static getInstance(): ResponseCache {
+    if (!ResponseCache.instance) {
+      ResponseCache.instance = new ResponseCache();
+    }
+    return ResponseCache.instance;
+  }
+
+  // 每次reset后递增，用于丢弃reset之前发起的写入
+  public getGeneration(): number {
+    return this.generation;
+  }
+
+  // 读取缓存（不论是否过期），由调用方判断新鲜度
+  public async get<T>(key: string): Promise<CacheItem<T> | null> {
+    const generation = this.generation;
+    const cached = this.memory.get(key);
+    if (cached) {
+      // 重新插入以保持Map中的最近使用顺序
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+      this.touch(key);
+      return cached.item as CacheItem<T>;
+    }
+
+    const index = await this.loadIndex();
+    if (!index[key]) {
+      return null;
+    }
+
+    const item = await this.storageService.getItem<CacheItem<T>>(ITEM_KEY_PREFIX + key);
+    if (generation !== this.generation) {
+      return null;
+    }
+    if (!item) {
+      delete index[key];
+      this.saveIndex();
+      return null;
+    }
+
+    this.putInMemory(key, item, index[key].size);
+    this.touch(key);
+    return item;
+  }
+
+  public async set<T>(key: string, data: T, options: CacheSetOptions): Promise<void> {
+    const generation = options.generation ?? this.generation;
+    if (generation !== this.generation) {
+      logger.debug('ResponseCache', `Discarding cache entry ${key} from before reset`);
+      return;
+    }
+
+    const item: CacheItem<T> = {
+      data,
+      timestamp: Date.now(),
+      ttl: options.ttl,
+      tags: options.tags || [],
+      validators: options.validators,
+    };
+
+    const size = JSON.stringify(item).length;
+    this.putInMemory(key, item, size);
+
+    try {
+      const index = await this.loadIndex();
+      if (generation !== this.generation) {
+        return;
+      }
+      await this.storageService.setItem(ITEM_KEY_PREFIX + key, item);
+      index[key] = {
+        size,
+        timestamp: item.timestamp,
+        ttl: item.ttl,
+        tags: item.tags,
+        lastAccess: Date.now(),
+      };
+      await this.evictPersistent();
+      this.saveIndex();
+    } catch (error) {
+      logger.warn('ResponseCache', `Failed to persist cache entry ${key}`, error);
+    }
+  }
+
+  // 缓存是否仍在有效期内
+  public isFresh(item: CacheItem): boolean {
+    return Date.now() - item.timestamp < item.ttl * 1000;
+  }
+
+  // 删除带有任一标签的缓存
+  public async invalidateTags(tags: string[]): Promise<void> {
+    if (tags.length === 0) return;
+
+    const keys = new Set<string>();
+    this.memory.forEach(({ item }, key) => {
+      if (item.tags.some(tag => tags.includes(tag))) {
+        keys.add(key);
+      }
+    });
+
+    const index = await this.loadIndex();
+    Object.entries(index).forEach(([key, entry]) => {
+      if (entry.tags.some(tag => tags.includes(tag))) {
+        keys.add(key);
+      }
+    });
+
+    if (keys.size === 0) return;
+
+    logger.debug('ResponseCache', `Invalidating ${keys.size} entries`, { tags });
+    await Promise.all(Array.from(keys).map(key => this.removeEntry(key)));
+    this.saveIndex();
+  }
+
+  public async remove(key: string): Promise<void> {
+    await this.removeEntry(key);
+    this.saveIndex();
+  }
+
+  // 清空所有缓存（如退出登录时）
+  public async clear(): Promise<void> {
+    const index = await this.loadIndex();
+    const keys = Object.keys(index);
+
+    this.memory.clear();
+    this.memorySize = 0;
+    this.index = {};
+
+    await Promise.all(keys.map(key =>
+      this.storageService.removeItem(ITEM_KEY_PREFIX + key).catch(() => undefined)
+    ));
+    await this.storageService.removeItem(INDEX_STORAGE_KEY).catch(() => undefined);
+  }
+
+  // 丢弃内存中的缓存和索引，下次访问时从存储重新读取（切换账户后调用）
+  public reset(): void {
+    this.generation++;
+    this.memory.clear();
+    this.memorySize = 0;
+    this.index = null;
+    this.indexLoading = null;
+  }
+
+  private putInMemory(key: string, item: CacheItem, size: number): void {
+    const existing = this.memory.get(key);
+    if (existing) {
+      this.memorySize -= existing.size;
+      this.memory.delete(key);
+    }
+
+    // 单个条目超过内存层上限时只保存在持久层
+    if (size > MEMORY_MAX_SIZE) return;
+
+    this.memory.set(key, { item, size });
+    this.memorySize += size;
+
+    // Map按插入顺序遍历，最前面的是最久未使用的
+    for (const [oldestKey, oldest] of this.memory) {
+      if (this.memorySize <= MEMORY_MAX_SIZE) break;
+      this.memory.delete(oldestKey);
+      this.memorySize -= oldest.size;
+    }
+  }
+
+  private touch(key: string): void {
+    if (this.index?.[key]) {
+      this.index[key].lastAccess = Date.now();
+    }
+  }
+
+  // 持久层超过cacheMaxSize时淘汰最久未访问的条目
+  private async evictPersistent(): Promise<void> {
+    const index = await this.loadIndex();
+    const { cacheMaxSize } = await this.storageService.getAppConfig();
+
+    let total = Object.values(index).reduce((sum, entry) => sum + entry.size, 0);
+    if (total <= cacheMaxSize) return;
+
+    const entries = Object.entries(index).sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+    for (const [key, entry] of entries) {
+      if (total <= cacheMaxSize) break;
+      await this.removeEntry(key);
+      total -= entry.size;
+    }
+    logger.info('ResponseCache', `Evicted cache entries, ${total} bytes remaining`);
+  }
+
+  private async removeEntry(key: string): Promise<void> {
+    const cached = this.memory.get(key);
+    if (cached) {
+      this.memorySize -= cached.size;
+      this.memory.delete(key);
+    }
+
+    const index = await this.loadIndex();
+    if (index[key]) {
+      delete index[key];
+      await this.storageService.removeItem(ITEM_KEY_PREFIX + key).catch(error => {
+        logger.warn('ResponseCache', `Failed to remove cache entry ${key}`, error);
+      });
+    }
+  }
+
+  private async loadIndex(): Promise<Record<string, CacheIndexEntry>> {
+    if (this.index) {
+      return this.index;
+    }
+
+    if (!this.indexLoading) {
+      const loading: Promise<Record<string, CacheIndexEntry>> = this.storageService
+        .getItem<Record<string, CacheIndexEntry>>(INDEX_STORAGE_KEY)
+        .then(saved => {
+          // 读取期间被reset时不再使用旧账户的索引
+          if (this.indexLoading !== loading) {
+            return this.loadIndex();
+          }
+          this.index = this.index || saved || {};
+          this.indexLoading = null;
+          return this.index;
+        });
+      this.indexLoading = loading;
+    }
+    return this.indexLoading;
+  }
+
+  private saveIndex(): void {
+    if (!this.index) return;
+
+    this.storageService.setItem(INDEX_STORAGE_KEY, this.index).catch(error => {
+      logger.warn('ResponseCache', 'Failed to save cache index', error);
+    });
+  }
+}
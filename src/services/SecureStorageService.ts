@@ -11,8 +11,11 @@ export interface UserCredentials {
   rememberMe: boolean;
 }
 
+const AUTH_TOKENS_KEY = 'auth_tokens';
+
 export class SecureStorageService {
   private static instance: SecureStorageService;
+  private accountId: string | null = null;
 
   private constructor() {}
 
@@ -51,11 +54,21 @@ export class SecureStorageService {
     }
   }
 
+  // 切换当前账户，之后的Token读写都针对该账户
+  public setAccount(accountId: string | null): void {
+    this.accountId = accountId;
+  }
+
+  // 每个账户的Token保存在单独的键下；SecureStore的键只允许字母、数字、"."、"-"和"_"
+  private getAuthTokensKey(accountId: string | null = this.accountId): string {
+    return accountId ? `${AUTH_TOKENS_KEY}_${accountId.replace(/[^\w.-]/g, '_')}` : AUTH_TOKENS_KEY;
+  }
+
   // 认证Token管理
   public async saveAuthTokens(tokens: AuthTokens): Promise<void> {
     try {
       const tokenData = JSON.stringify(tokens);
-      await this.setSecureItem('auth_tokens', tokenData);
+      await this.setSecureItem(this.getAuthTokensKey(), tokenData);
       console.log('Auth tokens saved successfully');
     } catch (error) {
       console.error('Error saving auth tokens:', error);
@@ -65,7 +78,7 @@ export class SecureStorageService {
 
   public async getAuthTokens(): Promise<AuthTokens | null> {
     try {
-      const tokenData = await this.getSecureItem('auth_tokens');
+      const tokenData = await this.getSecureItem(this.getAuthTokensKey());
       if (tokenData) {
         const tokens: AuthTokens = JSON.parse(tokenData);
         
@@ -85,9 +98,10 @@ export class SecureStorageService {
     }
   }
 
-  public async clearAuthTokens(): Promise<void> {
+  // 不指定账户时清除当前账户的Token
+  public async clearAuthTokens(accountId: string | null = this.accountId): Promise<void> {
     try {
-      await this.deleteSecureItem('auth_tokens');
+      await this.deleteSecureItem(this.getAuthTokensKey(accountId));
       console.log('Auth tokens cleared');
     } catch (error) {
       console.error('Error clearing auth tokens:', error);
@@ -100,6 +114,21 @@ export class SecureStorageService {
     return tokens !== null;
   }
 
+  // 将支持多账户之前保存的Token移到指定账户下
+  public async adoptLegacyAuthTokens(accountId: string): Promise<void> {
+    try {
+      const tokenData = await this.getSecureItem(AUTH_TOKENS_KEY);
+      if (!tokenData) return;
+
+      await this.setSecureItem(this.getAuthTokensKey(accountId), tokenData);
+      await this.deleteSecureItem(AUTH_TOKENS_KEY);
+      console.log(`Legacy auth tokens moved to account ${accountId}`);
+    } catch (error) {
+      console.error('Error migrating legacy auth tokens:', error);
+      throw error;
+    }
+  }
+
   // 用户凭据管理（用于记住登录）
   public async saveUserCredentials(credentials: UserCredentials): Promise<void> {
     try {
@@ -178,11 +207,12 @@ export class SecureStorageService {
     await this.setSecureItem('biometric_enabled', enabled.toString());
   }
 
-  // 清理所有安全数据
-  public async clearAllSecureData(): Promise<void> {
+  // 清理所有安全数据，accountIds为需要一并清除Token的账户
+  public async clearAllSecureData(accountIds: string[] = []): Promise<void> {
     try {
       const secureKeys = [
-        'auth_tokens',
+        AUTH_TOKENS_KEY,
+        ...accountIds.map(accountId => this.getAuthTokensKey(accountId)),
         'user_credentials', 
         'device_id',
         'push_token',
@@ -211,7 +241,7 @@ export class SecureStorageService {
     try {
       const backup: { [key: string]: string } = {};
       const secureKeys = [
-        'auth_tokens',
+        this.getAuthTokensKey(),
         'user_credentials',
         'device_id',
         'push_token',
@@ -1,4 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '@/utils/Constants';
 
 export interface UserSettings {
   theme: 'light' | 'dark';
@@ -16,8 +17,25 @@ export interface AppConfig {
   cacheMaxSize: number;
 }
 
+// 设备级的键，所有账户共用；其余键按当前账户加前缀隔离
+const GLOBAL_KEYS: string[] = [
+  STORAGE_KEYS.USER_SETTINGS,
+  STORAGE_KEYS.APP_CONFIG,
+  STORAGE_KEYS.NETWORK_STATUS,
+  STORAGE_KEYS.NETWORK_RECORDER_ENABLED,
+  STORAGE_KEYS.ACCOUNTS,
+  STORAGE_KEYS.ACTIVE_ACCOUNT_ID,
+];
+
+const ACCOUNT_KEY_PREFIX = 'account:';
+
+function getNamespacePrefix(accountId: string): string {
+  return `${ACCOUNT_KEY_PREFIX}${accountId}:`;
+}
+
 export class StorageService {
   private static instance: StorageService;
+  private namespace: string | null = null;
 
   private constructor() {}
 
@@ -28,20 +46,37 @@ export class StorageService {
     return StorageService.instance;
   }
 
+  // 切换账户命名空间，之后的读写都落在该账户下；null表示未登录任何账户
+  public setNamespace(accountId: string | null): void {
+    this.namespace = accountId;
+  }
+
+  public getNamespace(): string | null {
+    return this.namespace;
+  }
+
+  // 键名在调用时解析，切换账户前发起的写入不会落到新账户下
+  private resolveKey(key: string): string {
+    if (!this.namespace || GLOBAL_KEYS.includes(key)) {
+      return key;
+    }
+    return getNamespacePrefix(this.namespace) + key;
+  }
+
   // 通用存储方法
-  private async setItem<T>(key: string, value: T): Promise<void> {
+  public async setItem<T>(key: string, value: T): Promise<void> {
     try {
       const jsonValue = JSON.stringify(value);
-      await AsyncStorage.setItem(key, jsonValue);
+      await AsyncStorage.setItem(this.resolveKey(key), jsonValue);
     } catch (error) {
       console.error(`Error saving ${key}:`, error);
       throw error;
     }
   }
 
-  private async getItem<T>(key: string, defaultValue?: T): Promise<T | null> {
+  public async getItem<T>(key: string, defaultValue?: T): Promise<T | null> {
     try {
-      const jsonValue = await AsyncStorage.getItem(key);
+      const jsonValue = await AsyncStorage.getItem(this.resolveKey(key));
       if (jsonValue != null) {
         return JSON.parse(jsonValue);
       }
@@ -52,9 +87,9 @@ export class StorageService {
     }
   }
 
-  private async removeItem(key: string): Promise<void> {
+  public async removeItem(key: string): Promise<void> {
     try {
-      await AsyncStorage.removeItem(key);
+      await AsyncStorage.removeItem(this.resolveKey(key));
     } catch (error) {
       console.error(`Error removing ${key}:`, error);
       throw error;
@@ -182,21 +217,87 @@ export class StorageService {
     await this.setItem('offline_messages', offlineMessages);
   }
 
+  // 按消息ID移除已送达的离线消息
+  public async removeOfflineMessage(messageId: string): Promise<void> {
+    const offlineMessages = await this.getOfflineMessages();
+    await this.setItem('offline_messages', offlineMessages.filter(message => message.id !== messageId));
+  }
+
   public async clearOfflineMessages(): Promise<void> {
     await this.removeItem('offline_messages');
   }
 
-  // 清理所有数据
+  // 清理当前账户的所有数据，其他账户和设备级的键保留
   public async clearAllData(): Promise<void> {
     try {
-      await AsyncStorage.clear();
-      console.log('All storage data cleared');
+      const namespace = this.namespace;
+      const keys = (await AsyncStorage.getAllKeys()).filter(key =>
+        namespace
+          ? key.startsWith(getNamespacePrefix(namespace))
+          : !key.startsWith(ACCOUNT_KEY_PREFIX) && !GLOBAL_KEYS.includes(key)
+      );
+      await AsyncStorage.multiRemove(keys);
+      console.log(`Storage data cleared: ${keys.length} keys`);
     } catch (error) {
       console.error('Error clearing storage:', error);
       throw error;
     }
   }
 
+  // 获取当前账户的所有存储键名（不含前缀）
+  public async getAllKeys(): Promise<string[]> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      if (!this.namespace) {
+        return keys.filter(key => !key.startsWith(ACCOUNT_KEY_PREFIX));
+      }
+
+      const prefix = getNamespacePrefix(this.namespace);
+      return keys
+        .filter(key => key.startsWith(prefix))
+        .map(key => key.substring(prefix.length));
+    } catch (error) {
+      console.error('Error getting storage keys:', error);
+      return [];
+    }
+  }
+
+  // 删除某个账户的全部数据
+  public async clearNamespace(accountId: string): Promise<void> {
+    try {
+      const prefix = getNamespacePrefix(accountId);
+      const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(prefix));
+      await AsyncStorage.multiRemove(keys);
+      console.log(`Storage cleared for account ${accountId}: ${keys.length} keys`);
+    } catch (error) {
+      console.error(`Error clearing storage for account ${accountId}:`, error);
+      throw error;
+    }
+  }
+
+  // 将支持多账户之前保存的数据（无前缀的账户数据）移入指定账户
+  public async adoptLegacyData(accountId: string): Promise<void> {
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter(key =>
+        !key.startsWith(ACCOUNT_KEY_PREFIX) && !GLOBAL_KEYS.includes(key)
+      );
+      if (keys.length === 0) return;
+
+      const prefix = getNamespacePrefix(accountId);
+      const pairs = await AsyncStorage.multiGet(keys);
+      await AsyncStorage.multiSet(
+        pairs
+          .filter((pair): pair is [string, string] => pair[1] !== null)
+          .map(([key, value]) => [prefix + key, value])
+      );
+      await AsyncStorage.multiRemove(keys);
+      console.log(`Moved ${keys.length} legacy keys to account ${accountId}`);
+    } catch (error) {
+      console.error('Error migrating legacy storage:', error);
+      throw error;
+    }
+  }
+
   // 获取存储使用情况
   public async getStorageInfo(): Promise<{ keys: string[], size: number }> {
     try {
@@ -221,7 +322,7 @@ export class StorageService {
   public async multiSet(keyValuePairs: [string, any][]): Promise<void> {
     try {
       const pairs: [string, string][] = keyValuePairs.map(([key, value]) => [
-        key,
+        this.resolveKey(key),
         JSON.stringify(value)
       ]);
       await AsyncStorage.multiSet(pairs);
@@ -233,15 +334,15 @@ export class StorageService {
 
   public async multiGet(keys: string[]): Promise<{ [key: string]: any }> {
     try {
-      const keyValuePairs = await AsyncStorage.multiGet(keys);
+      const keyValuePairs = await AsyncStorage.multiGet(keys.map(key => this.resolveKey(key)));
       const result: { [key: string]: any } = {};
 
-      keyValuePairs.forEach(([key, value]) => {
+      keyValuePairs.forEach(([, value], index) => {
         if (value) {
           try {
-            result[key] = JSON.parse(value);
+            result[keys[index]] = JSON.parse(value);
           } catch {
-            result[key] = value;
+            result[keys[index]] = value;
           }
         }
       });
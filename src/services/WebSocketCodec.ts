@@ -0,0 +1,56 @@
+import { WebSocketMessage } from '@/types/api';
+import { encodeMessagePack, decodeMessagePack } from '@/utils/MessagePack';
+
+// WebSocket子协议名，握手时通过Sec-WebSocket-Protocol协商
+export const JSON_PROTOCOL = 'xiaoxiang.json.v1';
+export const MSGPACK_PROTOCOL = 'xiaoxiang.msgpack.v1';
+
+// 消息帧编解码器
+export interface WebSocketCodec {
+  protocol: string;
+  encode(frame: WebSocketMessage): string | ArrayBuffer;
+  decode(data: string | ArrayBuffer): any; // 返回未经校验的原始帧
+}
+
+export const jsonCodec: WebSocketCodec = {
+  protocol: JSON_PROTOCOL,
+  encode: frame => JSON.stringify(frame),
+  decode: data => {
+    if (typeof data !== 'string') {
+      throw new Error('JSON codec expects text frames');
+    }
+    return JSON.parse(data);
+  },
+};
+
+export const msgpackCodec: WebSocketCodec = {
+  protocol: MSGPACK_PROTOCOL,
+  encode: frame => {
+    const bytes = encodeMessagePack(frame);
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  },
+  decode: data => {
+    if (typeof data === 'string') {
+      throw new Error('MessagePack codec expects binary frames');
+    }
+    return decodeMessagePack(data);
+  },
+};
+
+const CODECS: Record<string, WebSocketCodec> = {
+  [JSON_PROTOCOL]: jsonCodec,
+  [MSGPACK_PROTOCOL]: msgpackCodec,
+};
+
+// 按优先顺序声明的默认协议
+export const DEFAULT_PROTOCOLS = [MSGPACK_PROTOCOL, JSON_PROTOCOL];
+
+// 根据服务器选定的子协议取得编解码器；服务器未选择或不认识的协议按JSON处理
+export function getCodecForProtocol(protocol: string | undefined | null): WebSocketCodec {
+  return (protocol && CODECS[protocol]) || jsonCodec;
+}
+
+// 按收到的数据类型解码：文本帧为JSON，二进制帧为MessagePack
+export function decodeFrame(data: string | ArrayBuffer): any {
+  return typeof data === 'string' ? jsonCodec.decode(data) : msgpackCodec.decode(data);
+}
@@ -0,0 +1,220 @@
+import { WebSocketMessage, WebSocketEvent } from '@/types/api';
+import { StorageService } from './StorageService';
+import { Clock, systemClock } from './ReconnectPolicy';
+import { logger } from '@/utils';
+
+// 离线时的排队方式
+export enum SendQueueMode {
+  DROP_STALE = 'drop_stale', // 超过有效期未发出则丢弃（如正在输入）
+  COALESCE = 'coalesce', // 同类事件只保留最新一条（如在线状态）
+  PERSIST = 'persist', // 持久化保存，应用重启后继续发送（如消息）
+}
+
+export interface SendQueuePolicy {
+  mode: SendQueueMode;
+  ttl?: number; // DROP_STALE的有效期（毫秒）
+  coalesceKey?: (message: WebSocketMessage) => string;
+}
+
+export const SEND_QUEUE_POLICIES: Record<WebSocketEvent, SendQueuePolicy> = {
+  [WebSocketEvent.NEW_MESSAGE]: { mode: SendQueueMode.PERSIST },
+  [WebSocketEvent.MESSAGE_READ]: { mode: SendQueueMode.PERSIST },
+  [WebSocketEvent.TYPING]: { mode: SendQueueMode.DROP_STALE, ttl: 5000 },
+  [WebSocketEvent.HEARTBEAT]: { mode: SendQueueMode.DROP_STALE, ttl: 0 },
+  [WebSocketEvent.USER_STATUS]: { mode: SendQueueMode.COALESCE },
+  [WebSocketEvent.MESSAGE_ACK]: {
+    mode: SendQueueMode.COALESCE,
+    coalesceKey: message => `${message.event}:${message.data?.chatId}`,
+  },
+  // RPC调用方自行处理断线（如改走HTTP），不排队
+  [WebSocketEvent.RPC_REQUEST]: { mode: SendQueueMode.DROP_STALE, ttl: 0 },
+  [WebSocketEvent.RPC_RESPONSE]: { mode: SendQueueMode.DROP_STALE, ttl: 0 },
+  [WebSocketEvent.ERROR]: { mode: SendQueueMode.DROP_STALE, ttl: 0 },
+};
+
+interface QueuedFrame {
+  message: WebSocketMessage;
+  mode: SendQueueMode;
+  enqueuedAt: number;
+  expiresAt?: number;
+  key?: string;
+  deliveries: { resolve: () => void; reject: (error: Error) => void }[];
+}
+
+// 持久化保存的帧（不含回调）
+interface StoredFrame {
+  message: WebSocketMessage;
+  enqueuedAt: number;
+}
+
+// WebSocket离线发送队列：按事件类型决定丢弃、合并或持久化
+export class WebSocketSendQueue {
+  private frames: QueuedFrame[] = [];
+  private loaded = false;
+  private flushing = false;
+
+  constructor(
+    private storageService: StorageService,
+    private storageKey: string,
+    private clock: Clock = systemClock
+  ) {}
+
+  // 与WebSocketService使用同一个时钟计算有效期
+  public setClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
+  // 恢复上次未发出的持久化帧
+  public async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const stored = await this.storageService.getItem<StoredFrame[]>(this.storageKey);
+      if (!stored || stored.length === 0) return;
+
+      const queuedIds = new Set(this.frames.map(frame => frame.message.requestId));
+      const restored: QueuedFrame[] = stored
+        .filter(item => !queuedIds.has(item.message.requestId))
+        .map(item => ({
+          message: item.message,
+          mode: SendQueueMode.PERSIST,
+          enqueuedAt: item.enqueuedAt,
+          deliveries: [],
+        }));
+
+      this.frames = [...restored, ...this.frames];
+      logger.info('WebSocketSendQueue', `Restored ${restored.length} queued frames`);
+    } catch (error) {
+      logger.error('WebSocketSendQueue', 'Failed to load queued frames', error);
+    }
+  }
+
+  // 加入队列，返回的Promise在帧实际发出或最终失败时结束
+  public enqueue(message: WebSocketMessage): Promise<void> {
+    const policy = SEND_QUEUE_POLICIES[message.event];
+    const now = this.clock.now();
+
+    if (policy.mode === SendQueueMode.DROP_STALE && !policy.ttl) {
+      return Promise.reject(new Error(`Event ${message.event} cannot be sent while disconnected`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const frame: QueuedFrame = {
+        message,
+        mode: policy.mode,
+        enqueuedAt: now,
+        deliveries: [{ resolve, reject }],
+      };
+
+      if (policy.mode === SendQueueMode.DROP_STALE) {
+        frame.expiresAt = now + policy.ttl!;
+        // 过期后即从队列移除，不必等到下次连接
+        this.clock.setTimeout(() => this.expire(frame), policy.ttl!);
+      }
+
+      if (policy.mode === SendQueueMode.COALESCE) {
+        frame.key = policy.coalesceKey ? policy.coalesceKey(message) : message.event;
+        // 被替换的旧帧随新帧一起完成
+        const index = this.frames.findIndex(item => item.key === frame.key);
+        if (index > -1) {
+          frame.deliveries.unshift(...this.frames[index].deliveries);
+          this.frames.splice(index, 1);
+        }
+      }
+
+      this.frames.push(frame);
+
+      if (policy.mode === SendQueueMode.PERSIST) {
+        this.persist();
+      }
+    });
+  }
+
+  // 按顺序逐帧发送，sendFrame完成后该帧才算送达；发送失败时停止，该帧和剩余的帧留待下次连接
+  public async flush(sendFrame: (message: WebSocketMessage) => Promise<void>): Promise<void> {
+    if (this.flushing || this.frames.length === 0) return;
+    this.flushing = true;
+
+    let persistChanged = false;
+    try {
+      while (this.frames.length > 0) {
+        const frame = this.frames[0];
+
+        if (frame.expiresAt !== undefined && frame.expiresAt < this.clock.now()) {
+          this.frames.shift();
+          this.settle(frame, new Error(`Event ${frame.message.event} expired before delivery`));
+          continue;
+        }
+
+        try {
+          await sendFrame(frame.message);
+        } catch (error) {
+          logger.error('WebSocketSendQueue', 'Failed to send queued frame', error);
+          break;
+        }
+
+        // 发送期间该帧可能已被合并或移出队列
+        const index = this.frames.indexOf(frame);
+        if (index > -1) {
+          this.frames.splice(index, 1);
+        }
+        persistChanged = persistChanged || frame.mode === SendQueueMode.PERSIST;
+        this.settle(frame);
+      }
+    } finally {
+      this.flushing = false;
+      if (persistChanged) {
+        this.persist();
+      }
+    }
+  }
+
+  public size(): number {
+    return this.frames.length;
+  }
+
+  // 让所有等待中的发送失败；clearStorage为true时同时删除持久化的帧
+  public rejectAll(error: Error, clearStorage: boolean = false): void {
+    const frames = this.frames;
+    this.frames = [];
+    frames.forEach(frame => this.settle(frame, error));
+
+    if (clearStorage) {
+      this.storageService.removeItem(this.storageKey).catch(storageError => {
+        logger.warn('WebSocketSendQueue', 'Failed to clear queued frames', storageError);
+      });
+    } else {
+      // 持久化的帧仍保留在存储中，下次启动时恢复
+      this.loaded = false;
+    }
+  }
+
+  private expire(frame: QueuedFrame): void {
+    const index = this.frames.indexOf(frame);
+    if (index > -1) {
+      this.frames.splice(index, 1);
+      this.settle(frame, new Error(`Event ${frame.message.event} expired before delivery`));
+    }
+  }
+
+  private settle(frame: QueuedFrame, error?: Error): void {
+    frame.deliveries.forEach(delivery => {
+      if (error) {
+        delivery.reject(error);
+      } else {
+        delivery.resolve();
+      }
+    });
+  }
+
+  private persist(): void {
+    const stored: StoredFrame[] = this.frames
+      .filter(frame => frame.mode === SendQueueMode.PERSIST)
+      .map(frame => ({ message: frame.message, enqueuedAt: frame.enqueuedAt }));
+
+    this.storageService.setItem(this.storageKey, stored).catch(error => {
+      logger.error('WebSocketSendQueue', 'Failed to persist queued frames', error);
+    });
+  }
+}
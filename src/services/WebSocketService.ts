@@ -1,11 +1,36 @@
+import { AppState, AppStateStatus } from 'react-native';
 import {
   WebSocketMessage,
   WebSocketEvent,
   TypingData,
   UserStatusData,
   MessageResponse,
+  MessageAckData,
+  PaginationResponse,
+  UserStatus,
+  WebSocketEventMap,
+  WebSocketErrorData,
+  RpcMethod,
+  RpcMethodMap,
+  RpcRequestData,
+  RpcResponseData,
+  ApiError,
+  ApiErrorCode,
 } from '@/types/api';
+import { Message } from '@/types';
 import { JWTAuthService, AuthEvent } from './JWTAuthService';
+import { ApiClient } from './ApiClient';
+import { createAuthenticatedApiClient } from './AuthenticatedApiClient';
+import { API_ENDPOINTS, callEndpoint } from './ApiEndpoints';
+import { DatabaseService } from './DatabaseService';
+import { StorageService } from './StorageService';
+import { MessageSequenceTracker, ChatSequenceState, SequenceResult } from './MessageSequenceTracker';
+import { validateFrameEnvelope, validateEventPayload, createInvalidMessageError } from './WebSocketValidation';
+import { ReconnectPolicy, ExponentialBackoffPolicy, Clock, systemClock } from './ReconnectPolicy';
+import { WebSocketSendQueue } from './WebSocketSendQueue';
+import { LongPollingTransport } from './LongPollingTransport';
+import { NetworkRecorder } from './NetworkRecorder';
+import { WebSocketCodec, jsonCodec, getCodecForProtocol, decodeFrame, DEFAULT_PROTOCOLS } from './WebSocketCodec';
 import { NetworkManager } from '@/utils/NetworkManager';
 import { logger } from '@/utils';
 import { ENV_CONFIG } from '@/utils/Environment';
@@ -19,24 +44,73 @@ export enum WebSocketState {
   ERROR = 'error',
 }
 
+// 实际使用的传输方式
+export enum WebSocketTransport {
+  WEBSOCKET = 'websocket',
+  LONG_POLLING = 'long_polling',
+}
+
+export interface WebSocketConnectionState {
+  state: WebSocketState;
+  transport: WebSocketTransport;
+}
+
 // WebSocket配置
 export interface WebSocketConfig {
   url: string;
-  reconnectInterval: number;
+  reconnectInterval: number; // 首次重连的最大等待时间
+  maxReconnectDelay: number;
   maxReconnectAttempts: number;
+  stableConnectionTime: number; // 连接保持这么久后重置重连计数
   heartbeatInterval: number;
   connectionTimeout: number;
-  protocols?: string[];
+  protocols?: string[]; // 按优先顺序提供的子协议，决定消息编码（JSON或MessagePack）
+  reconnectPolicy?: ReconnectPolicy; // 不指定时使用指数退避
+  rpcTimeout: number; // RPC调用的默认超时时间
+  longPollingFallback: boolean; // WebSocket连续无法建立时改用HTTP长轮询
+  fallbackAfterFailures: number; // 连续多少次无法建立WebSocket后切换
+  pollTimeout: number;
+  upgradeCheckInterval: number; // 长轮询期间每隔多久尝试切回WebSocket
+}
+
+export interface RpcOptions {
+  timeout?: number; // 覆盖默认超时时间
+}
+
+// 等待响应的RPC调用
+interface PendingRpcCall {
+  method: RpcMethod;
+  resolve: (result: any) => void;
+  reject: (error: ApiError) => void;
+  timer: any;
 }
 
 // WebSocket事件监听器
 export type WebSocketEventListener<T = any> = (data: T) => void;
 
+// 待发送的消息，data类型由event决定
+export interface WebSocketOutgoingMessage<E extends WebSocketEvent = WebSocketEvent> {
+  type: string;
+  event: E;
+  data: WebSocketEventMap[E];
+}
+
+// once注册的监听器会被包装，保留原监听器以便off移除
+type RegisteredListener = WebSocketEventListener & { original?: WebSocketEventListener };
+
+const SEQUENCE_STORAGE_KEY = 'message_sequences';
+const SEND_QUEUE_STORAGE_KEY = 'ws_send_queue';
+const BACKFILL_PAGE_SIZE = 50;
+
 export class WebSocketService {
   private static instance: WebSocketService;
   private ws: WebSocket | null = null;
   private authService: JWTAuthService;
   private networkManager: NetworkManager;
+  private apiClient: ApiClient;
+  private dbService: DatabaseService;
+  private storageService: StorageService;
+  private recorder: NetworkRecorder;
   
   private config: WebSocketConfig;
   private state: WebSocketState = WebSocketState.DISCONNECTED;
@@ -44,34 +118,82 @@ export class WebSocketService {
   private reconnectTimer: any = null;
   private heartbeatTimer: any = null;
   private connectionTimer: any = null;
+  private stableTimer: any = null;
+  private upgradeTimer: any = null;
+  private upgradeProbe: WebSocket | null = null;
+  private transport: WebSocketTransport = WebSocketTransport.WEBSOCKET;
+  private pollingTransport: LongPollingTransport;
+  private failedOpens = 0; // 自上次连接成功以来未能建立的WebSocket连接数
+  private codec: WebSocketCodec = jsonCodec;
+  private clock: Clock = systemClock;
+  private networkUnsubscribe: (() => void) | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
   
-  private eventListeners: Map<WebSocketEvent, WebSocketEventListener[]> = new Map();
-  private messageQueue: WebSocketMessage[] = [];
-  private requestCallbacks: Map<string, { resolve: (data: any) => void; reject: (error: any) => void }> = new Map();
+  private eventListeners: Map<WebSocketEvent, RegisteredListener[]> = new Map();
+  private sendQueue: WebSocketSendQueue;
+  private pendingCalls: Map<string, PendingRpcCall> = new Map();
+  private sequenceTracker: MessageSequenceTracker | null = null;
+  private backfills: Map<string, Promise<void>> = new Map();
+  private accountController = new AbortController(); // 切换账户时中止仍以旧账户身份运行的任务
 
   private constructor() {
     this.authService = JWTAuthService.getInstance();
     this.networkManager = NetworkManager.getInstance();
-    
+    // 补拉消息的HTTP请求需要认证
+    this.apiClient = createAuthenticatedApiClient();
+    this.dbService = DatabaseService.getInstance();
+    this.storageService = StorageService.getInstance();
+    this.recorder = NetworkRecorder.getInstance();
+    this.sendQueue = new WebSocketSendQueue(this.storageService, SEND_QUEUE_STORAGE_KEY, this.clock);
+
     this.config = {
       url: ENV_CONFIG.wsUrl,
-      reconnectInterval: 5000,
-      maxReconnectAttempts: 5,
+      reconnectInterval: 1000,
+      maxReconnectDelay: 60000,
+      maxReconnectAttempts: Infinity,
+      stableConnectionTime: 30000,
       heartbeatInterval: 30000,
       connectionTimeout: 10000,
+      protocols: DEFAULT_PROTOCOLS,
+      rpcTimeout: 10000,
+      longPollingFallback: true,
+      fallbackAfterFailures: 3,
+      pollTimeout: 25000,
+      upgradeCheckInterval: 60000,
     };
 
+    this.pollingTransport = new LongPollingTransport(
+      { pollTimeout: this.config.pollTimeout },
+      {
+        onOpen: () => this.handleTransportOpen(),
+        onFrame: frame => this.handleFrame(frame),
+        onError: error => {
+          logger.error('WebSocketService', 'Long polling error', error);
+          this.handleConnectionError(error);
+        },
+      }
+    );
+
     // 监听认证状态变化
     this.authService.addEventListener(AuthEvent.LOGOUT, () => {
       this.disconnect();
+      this.resetSequences();
+      this.sendQueue.rejectAll(new Error('Logged out before delivery'), true);
     });
 
-    // 监听网络状态变化
-    this.networkManager.addListener((networkInfo) => {
+    // 监听网络状态变化，网络恢复时立即重连
+    this.networkUnsubscribe = this.networkManager.addListener((networkInfo) => {
       if (!networkInfo.isConnected && this.state === WebSocketState.CONNECTED) {
         this.handleNetworkDisconnect();
-      } else if (networkInfo.isConnected && this.state === WebSocketState.DISCONNECTED) {
-        this.connect();
+      } else if (networkInfo.isConnected) {
+        this.reconnectNow();
+      }
+    });
+
+    // 应用回到前台时立即重连
+    this.appStateSubscription = AppState.addEventListener('change', (appState: AppStateStatus) => {
+      if (appState === 'active') {
+        this.reconnectNow();
       }
     });
   }
@@ -104,15 +226,24 @@ export class WebSocketService {
       this.setState(WebSocketState.CONNECTING);
       logger.info('WebSocketService', 'Connecting to WebSocket server');
 
-      const token = this.authService.getAccessToken();
+      // 恢复上次未发出的消息，连接建立后发送
+      await this.sendQueue.load();
+
+      const token = this.authService.getAccessToken()!;
       const deviceId = await this.getDeviceId();
-      const url = `${this.config.url}?token=${encodeURIComponent(token!)}&deviceId=${encodeURIComponent(deviceId)}`;
 
-      this.ws = new WebSocket(url, this.config.protocols);
+      if (this.transport === WebSocketTransport.LONG_POLLING) {
+        logger.info('WebSocketService', 'Using long polling transport');
+        this.pollingTransport.start({ token, deviceId });
+        return;
+      }
+
+      this.failedOpens++;
+      this.ws = this.createSocket(token, deviceId);
       this.setupWebSocketHandlers();
       
       // 设置连接超时
-      this.connectionTimer = setTimeout(() => {
+      this.connectionTimer = this.clock.setTimeout(() => {
         if (this.state === WebSocketState.CONNECTING) {
           this.handleConnectionTimeout();
         }
@@ -129,56 +260,134 @@ export class WebSocketService {
     logger.info('WebSocketService', 'Disconnecting WebSocket');
     
     this.clearTimers();
+    this.clearReconnectTimer();
     this.reconnectAttempts = 0;
     
     if (this.ws) {
       this.ws.close(1000, 'Client disconnect');
       this.ws = null;
     }
+
+    // 主动断开后下次连接重新尝试WebSocket
+    this.pollingTransport.stop();
+    this.transport = WebSocketTransport.WEBSOCKET;
+    this.failedOpens = 0;
     
     this.setState(WebSocketState.DISCONNECTED);
   }
 
-  // 发送消息
-  public async send<T = any>(message: Omit<WebSocketMessage<T>, 'requestId'>): Promise<T> {
+  // 切换账户前调用：断开连接，中止并等待补拉任务结束，丢弃内存中属于当前账户的状态；
+  // 已持久化的队列和序号留在该账户的存储中
+  public async resetAccountState(): Promise<void> {
+    this.accountController.abort();
+    this.accountController = new AbortController();
+
+    this.disconnect();
+    this.rejectPendingCalls();
+    this.sendQueue.rejectAll(new Error('Account switched before delivery'));
+
+    const running = Array.from(this.backfills.values());
+    this.backfills.clear();
+    this.sequenceTracker = null;
+    await Promise.all(running);
+  }
+
+  // 发送消息，Promise在消息实际发出或最终失败时结束
+  public async send<E extends WebSocketEvent>(message: WebSocketOutgoingMessage<E>): Promise<void> {
     return new Promise((resolve, reject) => {
       const requestId = this.generateRequestId();
-      const fullMessage: WebSocketMessage<T> = {
+      const fullMessage: WebSocketMessage<WebSocketEventMap[E]> = {
         ...message,
         requestId,
       };
 
-      // 如果连接正常，直接发送
-      if (this.state === WebSocketState.CONNECTED && this.ws) {
-        try {
-          this.ws.send(JSON.stringify(fullMessage));
-          
-          // 如果需要响应，设置回调
-          if (this.needsResponse(message.event)) {
-            this.requestCallbacks.set(requestId, { resolve, reject });
-            
-            // 设置请求超时
-            setTimeout(() => {
-              if (this.requestCallbacks.has(requestId)) {
-                this.requestCallbacks.delete(requestId);
-                reject(new Error('Request timeout'));
-              }
-            }, 10000);
-          } else {
-            resolve(undefined as T);
-          }
-        } catch (error) {
-          reject(error);
-        }
-      } else {
-        // 连接不可用，加入队列
-        this.messageQueue.push(fullMessage);
+      // 连接不可用时加入发送队列，按事件类型丢弃、合并或持久化
+      const enqueue = () => {
         logger.debug('WebSocketService', 'Message queued for later sending', { event: message.event });
-        resolve(undefined as T);
+        this.sendQueue.enqueue(fullMessage).then(resolve, reject);
+      };
+
+      // WebSocket已连接且没有排队的帧时直接发送；否则排在已有的帧之后，保证发送顺序。
+      // 长轮询的每次发送是一个独立的HTTP请求，始终经队列逐个发送
+      const canSendDirectly = this.state === WebSocketState.CONNECTED &&
+        this.transport === WebSocketTransport.WEBSOCKET &&
+        this.sendQueue.size() === 0;
+
+      if (canSendDirectly) {
+        this.transmit(fullMessage).then(resolve, error => {
+          logger.warn('WebSocketService', 'Send failed, queueing message', error);
+          enqueue();
+          this.handleTransmitFailure(error);
+        });
+      } else {
+        enqueue();
+        if (this.state === WebSocketState.CONNECTED) {
+          this.sendQueuedMessages();
+        }
+      }
+    });
+  }
+
+  // 调用服务器方法，按requestId匹配响应；未连接时直接失败，由调用方决定是否改走HTTP
+  public rpc<M extends RpcMethod>(
+    method: M,
+    params: RpcMethodMap[M]['params'],
+    options: RpcOptions = {}
+  ): Promise<RpcMethodMap[M]['result']> {
+    return new Promise((resolve, reject) => {
+      const requestId = this.generateRequestId();
+
+      if (this.state !== WebSocketState.CONNECTED) {
+        reject(this.createRpcError(ApiErrorCode.NETWORK_ERROR, '网络连接失败，请检查网络设置', requestId));
+        return;
       }
+
+      const frame: WebSocketMessage<RpcRequestData> = {
+        type: 'rpc',
+        event: WebSocketEvent.RPC_REQUEST,
+        data: { method, params },
+        requestId,
+      };
+
+      this.transmit(frame).catch(error => {
+        if (this.pendingCalls.has(requestId)) {
+          logger.warn('WebSocketService', `RPC ${method} send failed`, error);
+          this.settleCallWithError(requestId, ApiErrorCode.NETWORK_ERROR, '网络连接失败，请检查网络设置');
+        }
+      });
+
+      const timeout = options.timeout ?? this.config.rpcTimeout;
+      const timer = this.clock.setTimeout(() => {
+        if (this.pendingCalls.has(requestId)) {
+          logger.warn('WebSocketService', `RPC ${method} timed out after ${timeout}ms`);
+          this.settleCallWithError(requestId, ApiErrorCode.TIMEOUT_ERROR, '请求超时，请检查网络连接');
+        }
+      }, timeout);
+
+      this.pendingCalls.set(requestId, { method, resolve, reject, timer });
     });
   }
 
+  // 通过当前传输方式发出一帧
+  private transmit(frame: WebSocketMessage): Promise<void> {
+    this.recorder.recordFrame('sent', this.transport, this.config.url, frame);
+
+    if (this.transport === WebSocketTransport.LONG_POLLING) {
+      return this.pollingTransport.send(frame);
+    }
+
+    if (!this.ws) {
+      return Promise.reject(new Error('WebSocket is not connected'));
+    }
+
+    try {
+      this.ws.send(this.codec.encode(frame));
+      return Promise.resolve();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
   // 发送心跳
   private sendHeartbeat(): void {
     this.send({
@@ -192,42 +401,133 @@ export class WebSocketService {
 
   // 处理接收到的消息
   private handleMessage(event: MessageEvent): void {
+    let frame: any;
     try {
-      const message: WebSocketMessage = JSON.parse(event.data);
-      
-      logger.debug('WebSocketService', 'Received message', { 
-        type: message.type, 
-        event: message.event 
-      });
+      frame = decodeFrame(event.data);
+    } catch (error) {
+      this.recorder.recordFrame('received', this.transport, this.config.url, String(event.data));
+      this.emitInvalidMessage(createInvalidMessageError('frame could not be decoded'));
+      return;
+    }
 
-      // 处理响应消息
-      if (message.requestId && this.requestCallbacks.has(message.requestId)) {
-        const callback = this.requestCallbacks.get(message.requestId)!;
-        this.requestCallbacks.delete(message.requestId);
-        callback.resolve(message.data);
-        return;
-      }
+    this.handleFrame(frame);
+  }
 
-      // 处理事件消息
-      this.handleEventMessage(message);
-    } catch (error) {
-      logger.error('WebSocketService', 'Failed to parse message', error);
+  // 处理已解析的消息帧（WebSocket和长轮询共用）
+  private handleFrame(frame: any): void {
+    this.recorder.recordFrame('received', this.transport, this.config.url, frame);
+
+    const envelopeError = validateFrameEnvelope(frame);
+    if (envelopeError) {
+      this.emitInvalidMessage(envelopeError);
+      return;
+    }
+
+    const message: WebSocketMessage = frame;
+    logger.debug('WebSocketService', 'Received message', { 
+      type: message.type, 
+      event: message.event 
+    });
+
+    // RPC响应交给对应的调用，不分发给监听器
+    if (message.event === WebSocketEvent.RPC_RESPONSE) {
+      this.handleRpcResponse(message);
+      return;
     }
+
+    // 数据格式不符的事件不分发给监听器
+    const payloadError = validateEventPayload(message);
+    if (payloadError) {
+      this.emitInvalidMessage(payloadError);
+      return;
+    }
+
+    // 处理事件消息
+    this.handleEventMessage(message);
+  }
+
+  // 按requestId结束等待中的RPC调用，服务器返回的错误转换为ApiError
+  private handleRpcResponse(message: WebSocketMessage<RpcResponseData>): void {
+    const requestId = message.requestId;
+    const call = requestId ? this.pendingCalls.get(requestId) : undefined;
+    if (!requestId || !call) {
+      logger.debug('WebSocketService', 'Ignoring RPC response without pending call', { requestId });
+      return;
+    }
+
+    this.pendingCalls.delete(requestId);
+    this.clock.clearTimeout(call.timer);
+
+    const payloadError = validateEventPayload(message);
+    if (payloadError) {
+      this.emitInvalidMessage(payloadError);
+      call.reject(this.toApiError(payloadError, requestId));
+      return;
+    }
+
+    if (message.data.error) {
+      logger.warn('WebSocketService', `RPC ${call.method} failed`, message.data.error);
+      call.reject(this.toApiError(message.data.error, requestId));
+    } else {
+      call.resolve(message.data.result);
+    }
+  }
+
+  private settleCallWithError(requestId: string, code: ApiErrorCode, message: string): void {
+    const call = this.pendingCalls.get(requestId);
+    if (!call) return;
+
+    this.pendingCalls.delete(requestId);
+    this.clock.clearTimeout(call.timer);
+    call.reject(this.createRpcError(code, message, requestId));
+  }
+
+  // 连接断开时让所有等待中的RPC调用失败
+  private rejectPendingCalls(): void {
+    if (this.pendingCalls.size === 0) return;
+
+    const calls = Array.from(this.pendingCalls.entries());
+    this.pendingCalls.clear();
+
+    logger.info('WebSocketService', `Rejecting ${calls.length} pending RPC calls`);
+    calls.forEach(([requestId, call]) => {
+      this.clock.clearTimeout(call.timer);
+      call.reject(this.createRpcError(ApiErrorCode.NETWORK_ERROR, '网络连接失败，请检查网络设置', requestId));
+    });
+  }
+
+  private toApiError(error: WebSocketErrorData, requestId: string): ApiError {
+    return {
+      code: error.code,
+      message: error.message,
+      details: Array.isArray(error.details) ? error.details : [],
+      requestId,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private createRpcError(code: ApiErrorCode, message: string, requestId: string): ApiError {
+    return this.toApiError({ code, message }, requestId);
+  }
+
+  // 收到格式错误的消息时，以ERROR事件通知监听器
+  private emitInvalidMessage(error: WebSocketErrorData): void {
+    logger.warn('WebSocketService', 'Invalid message received', error.details);
+    this.dispatchEvent(WebSocketEvent.ERROR, error);
   }
 
   // 处理事件消息
   private handleEventMessage(message: WebSocketMessage): void {
-    const listeners = this.eventListeners.get(message.event);
-    if (listeners) {
-      listeners.forEach(listener => {
-        try {
-          listener(message.data);
-        } catch (error) {
-          logger.error('WebSocketService', 'Event listener error', { event: message.event, error });
-        }
+    // 新消息需要先检查序列号，再分发给监听器
+    if (message.event === WebSocketEvent.NEW_MESSAGE) {
+      this.handleNewMessage(message.data).catch(error => {
+        logger.error('WebSocketService', 'Failed to handle new message', error);
       });
+      return;
     }
 
+    this.dispatchEvent(message.event, message.data);
+
     // 处理特殊事件
     switch (message.event) {
       case WebSocketEvent.HEARTBEAT:
@@ -239,28 +539,226 @@ export class WebSocketService {
     }
   }
 
+  // 分发事件给监听器
+  private dispatchEvent<E extends WebSocketEvent>(event: E, data: WebSocketEventMap[E]): void {
+    const listeners = this.eventListeners.get(event);
+    if (listeners) {
+      // 复制一份，once监听器在回调中移除自身不影响遍历
+      [...listeners].forEach(listener => {
+        try {
+          listener(data);
+        } catch (error) {
+          logger.error('WebSocketService', 'Event listener error', { event, error });
+        }
+      });
+    }
+  }
+
+  // 处理新消息：丢弃重复消息，发现缺口时补拉
+  private async handleNewMessage(data: MessageResponse): Promise<void> {
+    if (typeof data?.seq !== 'number' || !data.chatId) {
+      await this.deliverMessage(data);
+      return;
+    }
+
+    const { signal } = this.accountController;
+    const tracker = await this.getSequenceTracker();
+    if (signal.aborted) {
+      return;
+    }
+    const check = tracker.accept(data.chatId, data.seq, data.id);
+
+    if (check.result === SequenceResult.DUPLICATE) {
+      logger.debug('WebSocketService', 'Duplicate message ignored', { chatId: data.chatId, seq: data.seq });
+      this.sendAck(data.chatId);
+      return;
+    }
+
+    await this.deliverMessage(data);
+    this.saveSequences();
+    this.sendAck(data.chatId);
+
+    if (check.result === SequenceResult.GAP) {
+      logger.warn('WebSocketService', `Message gap detected in ${data.chatId}: ${check.missingFrom}-${check.missingTo}`);
+      this.backfillChat(data.chatId);
+    }
+  }
+
+  // 保存消息到本地数据库并通知监听器（按消息ID覆盖写入，重复保存无副作用）
+  private async deliverMessage(data: MessageResponse): Promise<void> {
+    try {
+      await this.dbService.saveMessage(this.toLocalMessage(data));
+    } catch (error) {
+      logger.error('WebSocketService', 'Failed to save message', { id: data?.id, error });
+    }
+
+    this.dispatchEvent(WebSocketEvent.NEW_MESSAGE, data);
+  }
+
+  // 补拉会话中缺失的消息，同一会话同时只有一个补拉任务
+  public backfillChat(chatId: string): Promise<void> {
+    const running = this.backfills.get(chatId);
+    if (running) {
+      return running;
+    }
+
+    const task: Promise<void> = this.runBackfill(chatId).finally(() => {
+      // 切换账户后同一会话可能已有新账户的补拉任务
+      if (this.backfills.get(chatId) === task) {
+        this.backfills.delete(chatId);
+      }
+    });
+    this.backfills.set(chatId, task);
+    return task;
+  }
+
+  private async runBackfill(chatId: string): Promise<void> {
+    const { signal } = this.accountController;
+    const tracker = await this.getSequenceTracker();
+    let recovered = 0;
+
+    try {
+      while (!signal.aborted) {
+        const after = tracker.getState(chatId)?.lastMessageId;
+        if (!after) {
+          break;
+        }
+
+        const page = await callEndpoint(this.apiClient, API_ENDPOINTS.messages.list, {
+          chatId,
+          after,
+          limit: BACKFILL_PAGE_SIZE,
+        }, { signal });
+
+        const items = [...page.items].sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+        for (const item of items) {
+          // 已切换账户时不能再写入数据库，此时打开的是新账户的数据库
+          if (signal.aborted) {
+            return;
+          }
+          const isDuplicate = typeof item.seq === 'number' &&
+            tracker.accept(chatId, item.seq, item.id).result === SequenceResult.DUPLICATE;
+          if (!isDuplicate) {
+            await this.deliverMessage(item);
+            recovered++;
+          }
+        }
+
+        // 没有更多数据，或本页未能推进位置时停止
+        if (!page.hasNext || tracker.getState(chatId)?.lastMessageId === after) {
+          break;
+        }
+      }
+
+      if (signal.aborted) {
+        return;
+      }
+      this.saveSequences();
+      this.sendAck(chatId);
+
+      if (recovered > 0) {
+        logger.info('WebSocketService', `Backfilled ${recovered} messages for ${chatId}`);
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        logger.error('WebSocketService', `Failed to backfill messages for ${chatId}`, error);
+      }
+    }
+  }
+
+  // 连接建立后补拉所有已跟踪会话在断线期间的消息
+  private async backfillAllChats(): Promise<void> {
+    const tracker = await this.getSequenceTracker();
+    for (const chatId of tracker.getChatIds()) {
+      await this.backfillChat(chatId);
+    }
+  }
+
+  // 确认该会话已连续收到的消息
+  private sendAck(chatId: string): void {
+    const state = this.sequenceTracker?.getState(chatId);
+    if (!state?.lastMessageId) {
+      return;
+    }
+
+    const data: MessageAckData = {
+      chatId,
+      seq: state.lastSeq,
+      messageId: state.lastMessageId,
+    };
+
+    this.send({
+      type: 'ack',
+      event: WebSocketEvent.MESSAGE_ACK,
+      data,
+    }).catch(error => {
+      logger.warn('WebSocketService', 'Failed to send ack', error);
+    });
+  }
+
+  private async getSequenceTracker(): Promise<MessageSequenceTracker> {
+    if (!this.sequenceTracker) {
+      const { signal } = this.accountController;
+      const saved = await this.storageService.getItem<Record<string, ChatSequenceState>>(SEQUENCE_STORAGE_KEY);
+      // 读取期间切换了账户，旧账户的序号不能留给新账户使用
+      if (signal.aborted) {
+        return new MessageSequenceTracker(saved);
+      }
+      this.sequenceTracker = this.sequenceTracker || new MessageSequenceTracker(saved);
+    }
+    return this.sequenceTracker;
+  }
+
+  private saveSequences(): void {
+    if (!this.sequenceTracker) return;
+
+    this.storageService.setItem(SEQUENCE_STORAGE_KEY, this.sequenceTracker.toJSON()).catch(error => {
+      logger.warn('WebSocketService', 'Failed to save message sequences', error);
+    });
+  }
+
+  private resetSequences(): void {
+    this.sequenceTracker?.clear();
+    this.storageService.removeItem(SEQUENCE_STORAGE_KEY).catch(error => {
+      logger.warn('WebSocketService', 'Failed to clear message sequences', error);
+    });
+  }
+
+  private toLocalMessage(data: MessageResponse): Message {
+    return {
+      id: data.id,
+      chatId: data.chatId,
+      senderId: data.senderId,
+      receiverId: '',
+      content: data.content,
+      type: data.type as Message['type'],
+      timestamp: new Date(data.timestamp),
+      isRead: false,
+      replyTo: data.replyTo,
+      status: data.status,
+    };
+  }
+
   // 设置WebSocket事件处理器
   private setupWebSocketHandlers(): void {
     if (!this.ws) return;
+    const socket = this.ws;
+
+    socket.onopen = () => {
+      if (this.ws !== socket) return;
 
-    this.ws.onopen = () => {
       logger.info('WebSocketService', 'WebSocket connected');
-      this.clearTimers();
-      this.setState(WebSocketState.CONNECTED);
-      this.reconnectAttempts = 0;
-      
-      // 发送队列中的消息
-      this.sendQueuedMessages();
-      
-      // 开始心跳
-      this.startHeartbeat();
+      this.handleTransportOpen();
     };
 
-    this.ws.onmessage = (event) => {
+    socket.onmessage = (event) => {
+      if (this.ws !== socket) return;
       this.handleMessage(event);
     };
 
-    this.ws.onclose = (event) => {
+    socket.onclose = (event) => {
+      if (this.ws !== socket) return;
+
       logger.info('WebSocketService', 'WebSocket closed', { 
         code: event.code, 
         reason: event.reason 
@@ -275,19 +773,143 @@ export class WebSocketService {
       }
     };
 
-    this.ws.onerror = (event) => {
+    socket.onerror = (event) => {
+      if (this.ws !== socket) return;
       logger.error('WebSocketService', 'WebSocket error', event);
       this.handleConnectionError(new Error('WebSocket connection error'));
     };
   }
 
+  // WebSocket或长轮询连接建立后的处理
+  private handleTransportOpen(): void {
+    this.clearTimers();
+    this.clearReconnectTimer();
+    this.setState(WebSocketState.CONNECTED);
+
+    // 连接稳定一段时间后才重置重连计数，避免连接反复闪断时退避失效
+    this.stableTimer = this.clock.setTimeout(() => {
+      this.stableTimer = null;
+      this.reconnectAttempts = 0;
+    }, this.config.stableConnectionTime);
+
+    // 发送队列中的消息
+    this.sendQueuedMessages();
+
+    if (this.transport === WebSocketTransport.WEBSOCKET) {
+      this.failedOpens = 0;
+      // 使用服务器在握手中选定的编码
+      this.codec = getCodecForProtocol(this.ws?.protocol);
+      logger.debug('WebSocketService', `Using ${this.codec.protocol} encoding`);
+      // 开始心跳
+      this.startHeartbeat();
+    } else {
+      // 长轮询期间定期尝试切回WebSocket
+      this.scheduleUpgradeCheck();
+    }
+
+    // 补拉断线期间遗漏的消息
+    this.backfillAllChats().catch(error => {
+      logger.error('WebSocketService', 'Failed to backfill messages', error);
+    });
+  }
+
   // 处理连接错误
   private handleConnectionError(_error: any): void {
     this.clearTimers();
+    this.pollingTransport.stop();
     this.setState(WebSocketState.ERROR);
     this.attemptReconnect();
   }
 
+  // 连续多次无法建立WebSocket（如代理剥离了Upgrade请求头）时改用长轮询
+  private shouldFallBackToPolling(): boolean {
+    return this.config.longPollingFallback &&
+      this.transport === WebSocketTransport.WEBSOCKET &&
+      this.failedOpens >= this.config.fallbackAfterFailures;
+  }
+
+  private scheduleUpgradeCheck(): void {
+    if (this.upgradeTimer) return;
+
+    this.upgradeTimer = this.clock.setTimeout(() => {
+      this.upgradeTimer = null;
+      this.probeWebSocket().catch(error => {
+        logger.warn('WebSocketService', 'WebSocket upgrade probe failed', error);
+      });
+    }, this.config.upgradeCheckInterval);
+  }
+
+  // 在长轮询保持工作的同时尝试建立WebSocket，成功后切换过去
+  private async probeWebSocket(): Promise<void> {
+    if (this.transport !== WebSocketTransport.LONG_POLLING || this.state !== WebSocketState.CONNECTED) {
+      return;
+    }
+
+    const token = this.authService.getAccessToken();
+    if (!token) return;
+
+    const deviceId = await this.getDeviceId();
+    const probe = this.createSocket(token, deviceId);
+    this.upgradeProbe = probe;
+
+    const fail = () => {
+      if (this.upgradeProbe !== probe) return;
+      this.stopUpgradeProbe();
+      if (this.transport === WebSocketTransport.LONG_POLLING && this.state === WebSocketState.CONNECTED) {
+        this.scheduleUpgradeCheck();
+      }
+    };
+
+    const timer = this.clock.setTimeout(fail, this.config.connectionTimeout);
+
+    probe.onopen = () => {
+      this.clock.clearTimeout(timer);
+      if (this.upgradeProbe !== probe) return;
+      this.upgradeProbe = null;
+      this.upgradeToWebSocket(probe);
+    };
+    probe.onerror = () => {
+      this.clock.clearTimeout(timer);
+      fail();
+    };
+    probe.onclose = () => {
+      this.clock.clearTimeout(timer);
+      fail();
+    };
+  }
+
+  // 切回WebSocket：停止轮询，接管已建立的连接
+  private upgradeToWebSocket(socket: WebSocket): void {
+    logger.info('WebSocketService', 'Upgraded from long polling to WebSocket');
+    this.pollingTransport.stop();
+    this.transport = WebSocketTransport.WEBSOCKET;
+    this.ws = socket;
+    this.setupWebSocketHandlers();
+    this.handleTransportOpen();
+  }
+
+  private stopUpgradeProbe(): void {
+    if (this.upgradeProbe) {
+      const probe = this.upgradeProbe;
+      this.upgradeProbe = null;
+      probe.onopen = null;
+      probe.onerror = null;
+      probe.onclose = null;
+      probe.close();
+    }
+  }
+
+  // 连接状态仍为已连接但发送失败（如长轮询的POST请求失败），按连接错误处理并重连
+  private handleTransmitFailure(error: any): void {
+    if (this.state !== WebSocketState.CONNECTED) return;
+
+    logger.warn('WebSocketService', 'Transport send failed, reconnecting', error);
+    if (this.ws) {
+      this.ws.close();
+    }
+    this.handleConnectionError(error);
+  }
+
   // 处理连接超时
   private handleConnectionTimeout(): void {
     logger.warn('WebSocketService', 'Connection timeout');
@@ -301,14 +923,14 @@ export class WebSocketService {
   private handleNetworkDisconnect(): void {
     logger.info('WebSocketService', 'Network disconnected');
     this.clearTimers();
+    this.pollingTransport.stop();
     this.setState(WebSocketState.DISCONNECTED);
   }
 
   // 尝试重连
   private attemptReconnect(): void {
-    if (this.reconnectAttempts >= this.config.maxReconnectAttempts) {
-      logger.error('WebSocketService', 'Max reconnect attempts reached');
-      this.setState(WebSocketState.ERROR);
+    // 已经安排了重连（错误和关闭事件可能先后到达）
+    if (this.reconnectTimer) {
       return;
     }
 
@@ -317,37 +939,81 @@ export class WebSocketService {
       return;
     }
 
+    if (this.shouldFallBackToPolling()) {
+      logger.warn('WebSocketService', `WebSocket failed ${this.failedOpens} times, falling back to long polling`);
+      this.transport = WebSocketTransport.LONG_POLLING;
+      this.reconnectAttempts = 0;
+      this.ws = null;
+      this.setState(WebSocketState.DISCONNECTED);
+      this.connect();
+      return;
+    }
+
+    const delay = this.getReconnectPolicy().nextDelay(this.reconnectAttempts + 1);
+    if (delay === null) {
+      logger.error('WebSocketService', 'Max reconnect attempts reached');
+      this.setState(WebSocketState.ERROR);
+      return;
+    }
+
     this.reconnectAttempts++;
     this.setState(WebSocketState.RECONNECTING);
     
-    const delay = Math.min(this.config.reconnectInterval * Math.pow(2, this.reconnectAttempts - 1), 30000);
-    
     logger.info('WebSocketService', `Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
     
-    this.reconnectTimer = setTimeout(() => {
+    this.reconnectTimer = this.clock.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.setState(WebSocketState.DISCONNECTED);
       this.connect();
     }, delay);
   }
 
+  // 立即重连并重置退避（网络恢复、应用回到前台）
+  public reconnectNow(): void {
+    if (this.state === WebSocketState.CONNECTED || this.state === WebSocketState.CONNECTING) {
+      return;
+    }
+
+    if (!this.authService.isAuthenticated()) {
+      return;
+    }
+
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+    this.setState(WebSocketState.DISCONNECTED);
+    this.connect();
+  }
+
+  private getReconnectPolicy(): ReconnectPolicy {
+    return this.config.reconnectPolicy || new ExponentialBackoffPolicy({
+      initialDelay: this.config.reconnectInterval,
+      maxDelay: this.config.maxReconnectDelay,
+      maxAttempts: this.config.maxReconnectAttempts,
+    });
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      this.clock.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
   // 发送队列中的消息
   private sendQueuedMessages(): void {
-    if (this.messageQueue.length === 0) return;
+    if (this.sendQueue.size() === 0) return;
 
-    logger.info('WebSocketService', `Sending ${this.messageQueue.length} queued messages`);
-    
-    const messages = [...this.messageQueue];
-    this.messageQueue = [];
-    
-    messages.forEach(message => {
-      if (this.ws && this.state === WebSocketState.CONNECTED) {
-        try {
-          this.ws.send(JSON.stringify(message));
-        } catch (error) {
-          logger.error('WebSocketService', 'Failed to send queued message', error);
-          // 重新加入队列
-          this.messageQueue.push(message);
-        }
+    logger.info('WebSocketService', `Sending ${this.sendQueue.size()} queued messages`);
+
+    // 逐帧等待发送结果；发送失败时该帧留在队列中，重连后继续发送
+    this.sendQueue.flush(message => {
+      if (this.state !== WebSocketState.CONNECTED) {
+        return Promise.reject(new Error('WebSocket is not connected'));
       }
+      return this.transmit(message).catch(error => {
+        this.handleTransmitFailure(error);
+        throw error;
+      });
     });
   }
 
@@ -361,19 +1027,26 @@ export class WebSocketService {
   // 清理定时器
   private clearTimers(): void {
     if (this.connectionTimer) {
-      clearTimeout(this.connectionTimer);
+      this.clock.clearTimeout(this.connectionTimer);
       this.connectionTimer = null;
     }
-    
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-      this.reconnectTimer = null;
+
+    if (this.stableTimer) {
+      this.clock.clearTimeout(this.stableTimer);
+      this.stableTimer = null;
     }
     
     if (this.heartbeatTimer) {
       clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
     }
+
+    if (this.upgradeTimer) {
+      this.clock.clearTimeout(this.upgradeTimer);
+      this.upgradeTimer = null;
+    }
+
+    this.stopUpgradeProbe();
   }
 
   // 设置状态
@@ -382,6 +1055,11 @@ export class WebSocketService {
       const oldState = this.state;
       this.state = newState;
       logger.debug('WebSocketService', `State changed: ${oldState} -> ${newState}`);
+
+      // 离开已连接状态后不会再收到响应
+      if (oldState === WebSocketState.CONNECTED) {
+        this.rejectPendingCalls();
+      }
     }
   }
 
@@ -390,6 +1068,16 @@ export class WebSocketService {
     return `ws_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
 
+  private createSocket(token: string, deviceId: string): WebSocket {
+    const socket = new WebSocket(this.buildUrl(token, deviceId), this.config.protocols);
+    socket.binaryType = 'arraybuffer';
+    return socket;
+  }
+
+  private buildUrl(token: string, deviceId: string): string {
+    return `${this.config.url}?token=${encodeURIComponent(token)}&deviceId=${encodeURIComponent(deviceId)}`;
+  }
+
   // 获取WebSocket URL (已移至ENV_CONFIG)
   private getWebSocketUrl(): string {
     return ENV_CONFIG.wsUrl;
@@ -401,29 +1089,60 @@ export class WebSocketService {
     return 'device_placeholder';
   }
 
-  // 判断是否需要响应
-  private needsResponse(_event: WebSocketEvent): boolean {
-    // 大部分事件不需要响应，只有特定的命令需要
-    return false;
-  }
-
   // 公共方法
 
-  // 添加事件监听器
-  public addEventListener<T = any>(event: WebSocketEvent, listener: WebSocketEventListener<T>): () => void {
+  // 添加事件监听器，返回取消监听的函数
+  public on<E extends WebSocketEvent>(
+    event: E,
+    listener: WebSocketEventListener<WebSocketEventMap[E]>
+  ): () => void {
     if (!this.eventListeners.has(event)) {
       this.eventListeners.set(event, []);
     }
-    
-    const listeners = this.eventListeners.get(event)!;
-    listeners.push(listener);
 
-    return () => {
-      const index = listeners.indexOf(listener);
-      if (index > -1) {
-        listeners.splice(index, 1);
-      }
+    this.eventListeners.get(event)!.push(listener);
+    return () => this.off(event, listener);
+  }
+
+  // 移除事件监听器
+  public off<E extends WebSocketEvent>(
+    event: E,
+    listener: WebSocketEventListener<WebSocketEventMap[E]>
+  ): void {
+    const listeners = this.eventListeners.get(event);
+    if (!listeners) return;
+
+    const index = listeners.findIndex(item => item === listener || item.original === listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  // 只监听一次
+  public once<E extends WebSocketEvent>(
+    event: E,
+    listener: WebSocketEventListener<WebSocketEventMap[E]>
+  ): () => void {
+    const wrapper: RegisteredListener = (data: WebSocketEventMap[E]) => {
+      this.off(event, listener);
+      listener(data);
     };
+    wrapper.original = listener;
+
+    if (!this.eventListeners.has(event)) {
+      this.eventListeners.set(event, []);
+    }
+
+    this.eventListeners.get(event)!.push(wrapper);
+    return () => this.off(event, listener);
+  }
+
+  // 添加事件监听器（on的别名）
+  public addEventListener<E extends WebSocketEvent>(
+    event: E,
+    listener: WebSocketEventListener<WebSocketEventMap[E]>
+  ): () => void {
+    return this.on(event, listener);
   }
 
   // 获取当前状态
@@ -431,6 +1150,11 @@ export class WebSocketService {
     return this.state;
   }
 
+  // 获取连接状态及当前传输方式
+  public getConnectionState(): WebSocketConnectionState {
+    return { state: this.state, transport: this.transport };
+  }
+
   // 获取连接状态
   public isConnected(): boolean {
     return this.state === WebSocketState.CONNECTED;
@@ -441,6 +1165,12 @@ export class WebSocketService {
     this.config = { ...this.config, ...config };
   }
 
+  // 替换时钟（测试中使用假时钟控制重连、超时和发送队列的有效期）
+  public setClock(clock: Clock): void {
+    this.clock = clock;
+    this.sendQueue.setClock(clock);
+  }
+
   // 便捷方法：发送新消息事件
   public async sendNewMessage(message: MessageResponse): Promise<void> {
     await this.send({
@@ -466,10 +1196,10 @@ export class WebSocketService {
   }
 
   // 便捷方法：发送用户状态更新
-  public async sendUserStatus(status: string): Promise<void> {
+  public async sendUserStatus(status: UserStatus): Promise<void> {
     const data: UserStatusData = {
       userId: this.authService.getCurrentUser()?.id || '',
-      status: status as any,
+      status,
       lastSeen: new Date().toISOString(),
     };
     
@@ -483,9 +1213,19 @@ export class WebSocketService {
   // 销毁服务
   public destroy(): void {
     this.disconnect();
+
+    if (this.networkUnsubscribe) {
+      this.networkUnsubscribe();
+      this.networkUnsubscribe = null;
+    }
+
+    if (this.appStateSubscription) {
+      this.appStateSubscription.remove();
+      this.appStateSubscription = null;
+    }
+
     this.eventListeners.clear();
-    this.messageQueue = [];
-    this.requestCallbacks.clear();
+    this.sendQueue.rejectAll(new Error('WebSocket service destroyed'));
     logger.info('WebSocketService', 'Service destroyed');
   }
 }
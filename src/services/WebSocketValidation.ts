@@ -0,0 +1,124 @@
+import {
+  WebSocketEvent,
+  WebSocketMessage,
+  WebSocketErrorData,
+  MessageType,
+  MessageStatus,
+  UserStatus,
+} from '@/types/api';
+import { ERROR_CODES, ERROR_MESSAGES } from '@/utils/Constants';
+
+// 返回不合法的原因，合法时返回null
+type PayloadValidator = (data: any) => string | null;
+
+const WEBSOCKET_EVENTS = Object.values(WebSocketEvent) as string[];
+
+const isObject = (value: any): boolean =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: any): boolean => typeof value === 'string' && value.length > 0;
+
+const isOneOf = (value: any, values: object): boolean =>
+  (Object.values(values) as readonly unknown[]).includes(value);
+
+// 依次检查字段，返回第一个不合法的字段说明
+const checkFields = (data: any, checks: [string, (value: any) => boolean, boolean?][]): string | null => {
+  if (!isObject(data)) {
+    return 'data must be an object';
+  }
+
+  for (const [field, check, optional] of checks) {
+    const value = data[field];
+    if (optional && (value === undefined || value === null)) {
+      continue;
+    }
+    if (!check(value)) {
+      return `invalid field "${field}"`;
+    }
+  }
+  return null;
+};
+
+const PAYLOAD_VALIDATORS: Record<WebSocketEvent, PayloadValidator> = {
+  [WebSocketEvent.NEW_MESSAGE]: data => checkFields(data, [
+    ['id', isString],
+    ['chatId', isString],
+    ['senderId', isString],
+    ['type', value => isOneOf(value, MessageType)],
+    ['content', value => typeof value === 'string'],
+    ['timestamp', isString],
+    ['status', value => isOneOf(value, MessageStatus), true],
+    ['readBy', Array.isArray, true],
+    ['seq', Number.isInteger, true],
+  ]),
+  [WebSocketEvent.MESSAGE_READ]: data => checkFields(data, [
+    ['chatId', isString],
+    ['messageIds', value => Array.isArray(value) && value.every(isString)],
+    ['userId', isString],
+    ['readAt', isString],
+  ]),
+  [WebSocketEvent.USER_STATUS]: data => checkFields(data, [
+    ['userId', isString],
+    ['status', value => isOneOf(value, UserStatus)],
+    ['lastSeen', isString, true],
+  ]),
+  [WebSocketEvent.TYPING]: data => checkFields(data, [
+    ['chatId', isString],
+    ['userId', isString],
+    ['isTyping', value => typeof value === 'boolean'],
+  ]),
+  [WebSocketEvent.HEARTBEAT]: data => checkFields(data, [
+    ['timestamp', Number.isFinite],
+  ]),
+  [WebSocketEvent.MESSAGE_ACK]: data => checkFields(data, [
+    ['chatId', isString],
+    ['seq', Number.isInteger],
+    ['messageId', isString],
+  ]),
+  [WebSocketEvent.RPC_REQUEST]: data => checkFields(data, [
+    ['method', isString],
+  ]),
+  [WebSocketEvent.RPC_RESPONSE]: data => checkFields(data, [
+    ['error', value => isObject(value) && isString(value.code) && typeof value.message === 'string', true],
+  ]),
+  [WebSocketEvent.ERROR]: data => checkFields(data, [
+    ['code', isString],
+    ['message', value => typeof value === 'string'],
+  ]),
+};
+
+// 生成格式错误的结构化描述
+export function createInvalidMessageError(reason: string, frame?: any): WebSocketErrorData {
+  return {
+    code: ERROR_CODES.INVALID_MESSAGE,
+    message: ERROR_MESSAGES[ERROR_CODES.INVALID_MESSAGE],
+    details: {
+      reason,
+      event: isObject(frame) ? frame.event : undefined,
+      requestId: isObject(frame) ? frame.requestId : undefined,
+    },
+  };
+}
+
+// 检查消息外层结构（type/event/requestId）
+export function validateFrameEnvelope(frame: any): WebSocketErrorData | null {
+  if (!isObject(frame)) {
+    return createInvalidMessageError('frame must be an object', frame);
+  }
+  if (typeof frame.type !== 'string') {
+    return createInvalidMessageError('invalid field "type"', frame);
+  }
+  if (!WEBSOCKET_EVENTS.includes(frame.event)) {
+    return createInvalidMessageError(`unknown event "${frame.event}"`, frame);
+  }
+  if (frame.requestId !== undefined && typeof frame.requestId !== 'string') {
+    return createInvalidMessageError('invalid field "requestId"', frame);
+  }
+  return null;
+}
+
+// 检查事件数据是否符合该事件的类型定义
+export function validateEventPayload(message: WebSocketMessage): WebSocketErrorData | null {
+  const reason = PAYLOAD_VALIDATORS[message.event](message.data);
+  return reason ? createInvalidMessageError(reason, message) : null;
+}
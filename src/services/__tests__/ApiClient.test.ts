@@ -0,0 +1,115 @@
+import { ApiClient } from '../ApiClient';
+import { ResponseCache } from '../ResponseCache';
+import { HttpTransport, TransportRequest, TransportResponse } from '../HttpTransport';
+import { ApiErrorCode } from '@/types/api';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const noHeaders = { get: () => null };
+
+const ok = (data: any): TransportResponse => ({
+  status: 200,
+  statusText: 'OK',
+  headers: noHeaders,
+  body: JSON.stringify({ success: true, data }),
+});
+
+const notModified: TransportResponse = { status: 304, statusText: 'Not Modified', headers: noHeaders, body: '' };
+
+// 按顺序返回预设的响应，并记录收到的请求
+function createTransport(...responses: TransportResponse[]): HttpTransport & { requests: TransportRequest[] } {
+  const requests: TransportRequest[] = [];
+  return {
+    requests,
+    send: async request => {
+      requests.push(request);
+      const response = responses.shift();
+      if (!response) {
+        throw new Error('Network request failed');
+      }
+      return response;
+    },
+  };
+}
+
+describe('ApiClient', () => {
+  beforeEach(async () => {
+    await ResponseCache.getInstance().clear();
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createClient = (transport: HttpTransport) =>
+    new ApiClient({ baseURL: 'https://api.test', transport, maxRetries: 0, circuitBreaker: false });
+
+  describe('304 without a cached response', () => {
+    it('refetches once without validators', async () => {
+      const transport = createTransport(notModified, ok({ id: 'chat_1' }));
+      const client = createClient(transport);
+
+      const response = await client.get('/chats/chat_1', { headers: { 'If-None-Match': '"v1"' } });
+
+      expect(response.data).toEqual({ id: 'chat_1' });
+      expect(transport.requests).toHaveLength(2);
+      expect(transport.requests[0].headers['If-None-Match']).toBe('"v1"');
+      expect(transport.requests[1].headers).not.toHaveProperty('If-None-Match');
+    });
+
+    it('fails with an ApiError when the refetch is not modified either', async () => {
+      const client = createClient(createTransport(notModified, notModified));
+
+      await expect(client.get('/chats/chat_1', { headers: { 'If-None-Match': '"v1"' } }))
+        .rejects.toEqual(expect.objectContaining({ code: ApiErrorCode.SERVER_ERROR }));
+    });
+  });
+
+  describe('concurrent GETs', () => {
+    it('share one request when headers and cache config match', async () => {
+      const transport = createTransport(ok({ id: 'chat_1' }));
+      const client = createClient(transport);
+      const config = { headers: { Accept: 'application/json' }, cache: { ttl: 60, tags: ['chats'] } };
+
+      const [first, second] = await Promise.all([
+        client.get('/chats/chat_1', config),
+        client.get('/chats/chat_1', { headers: { accept: 'application/json' }, cache: { tags: ['chats'], ttl: 60 } }),
+      ]);
+
+      expect(transport.requests).toHaveLength(1);
+      expect(second.data).toEqual(first.data);
+    });
+
+    it('send separate requests when headers differ', async () => {
+      const transport = createTransport(ok({ id: 'chat_1', lang: 'zh' }), ok({ id: 'chat_1', lang: 'en' }));
+      const client = createClient(transport);
+
+      const [zh, en] = await Promise.all([
+        client.get('/chats/chat_1', { headers: { 'Accept-Language': 'zh-CN' } }),
+        client.get('/chats/chat_1', { headers: { 'Accept-Language': 'en-US' } }),
+      ]);
+
+      expect(transport.requests).toHaveLength(2);
+      expect(zh.data.lang).toBe('zh');
+      expect(en.data.lang).toBe('en');
+    });
+
+    it('send separate requests when cache config differs', async () => {
+      const transport = createTransport(ok({ id: 'chat_1' }), ok({ id: 'chat_1' }));
+      const client = createClient(transport);
+
+      await Promise.all([
+        client.get('/chats/chat_1', { cache: { ttl: 60, tags: ['chats'] } }),
+        client.get('/chats/chat_1', { cache: { ttl: 60, tags: ['chat_1'] } }),
+      ]);
+
+      expect(transport.requests).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import * as fs from 'fs';
+import * as SQLite from 'expo-sqlite';
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { DatabaseService } from '../DatabaseService';
+import { DATABASE_MIGRATIONS } from '../DatabaseMigrations';
+import { APP_CONFIG } from '@/utils/Constants';
+import { tokenizeForIndex } from '@/utils/SearchTokenizer';
+
+// 使用包含FTS5的sql.js构建，与设备上的SQLite一致
+const initSqlJs: (config: { wasmBinary: Buffer }) => Promise<SqlJsStatic> = require('sql.js-fts5');
+
+// openDatabase按文件名返回测试准备好的数据库
+const mockDatabases = new Map<string, SQLite.WebSQLDatabase>();
+
+jest.mock('expo-sqlite', () => ({
+  openDatabase: (name: string) => {
+    const db = mockDatabases.get(name);
+    if (!db) {
+      throw new Error(`No test database registered for ${name}`);
+    }
+    return db;
+  },
+}));
+
+type StatementCallback = SQLite.SQLStatementCallback | undefined;
+type StatementErrorCallback = SQLite.SQLStatementErrorCallback | undefined;
+
+interface QueuedStatement {
+  sql: string;
+  args: SqlValue[];
+  success: StatementCallback;
+  error: StatementErrorCallback;
+}
+
+// 按expo-sqlite的WebSQL语义包装sql.js：语句排队执行，回调中可以继续追加语句，
+// 任一语句失败且错误回调未返回false时回滚整个事务
+function createWebSQLDatabase(db: Database): SQLite.WebSQLDatabase {
+  const run = (
+    callback: SQLite.SQLTransactionCallback,
+    errorCallback?: SQLite.SQLTransactionErrorCallback,
+    successCallback?: () => void
+  ) => {
+    const queue: QueuedStatement[] = [];
+    const tx = {
+      executeSql: (sql: string, args: SqlValue[] = [], success?: StatementCallback, error?: StatementErrorCallback) => {
+        queue.push({ sql, args, success, error });
+      },
+    } as SQLite.SQLTransaction;
+
+    Promise.resolve().then(() => {
+      db.run('BEGIN');
+      try {
+        callback(tx);
+
+        while (queue.length > 0) {
+          const statement = queue.shift()!;
+          let resultSet: SQLite.SQLResultSet;
+
+          try {
+            const rows = queryRows(db, statement.sql, statement.args);
+            resultSet = {
+              insertId: Number(db.exec('SELECT last_insert_rowid()')[0].values[0][0]),
+              rowsAffected: db.getRowsModified(),
+              rows: { length: rows.length, item: (index: number) => rows[index], _array: rows },
+            };
+          } catch (error) {
+            if (statement.error?.(tx, error as SQLite.SQLError) === false) {
+              continue;
+            }
+            throw error;
+          }
+
+          statement.success?.(tx, resultSet);
+        }
+
+        db.run('COMMIT');
+      } catch (error) {
+        db.run('ROLLBACK');
+        errorCallback?.(error as SQLite.SQLError);
+        return;
+      }
+      successCallback?.();
+    });
+  };
+
+  return {
+    transaction: run,
+    readTransaction: run,
+    closeAsync: () => undefined,
+    deleteAsync: async () => undefined,
+  } as unknown as SQLite.WebSQLDatabase;
+}
+
+function queryRows(db: Database, sql: string, args: SqlValue[] = []): Record<string, any>[] {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(args);
+    const rows: Record<string, any>[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+function getColumns(db: Database, table: string): string[] {
+  return queryRows(db, `PRAGMA table_info(${table})`).map(row => row.name);
+}
+
+function getTables(db: Database): string[] {
+  return queryRows(db, "SELECT name FROM sqlite_master WHERE type = 'table'").map(row => row.name);
+}
+
+// 只执行迁移1，得到第一个发布版本的数据库，并写入一些已有数据
+async function createV1Fixture(SQL: SqlJsStatic): Promise<Database> {
+  const db = new SQL.Database();
+  const webSqlDb = createWebSQLDatabase(db);
+
+  await new Promise<void>((resolve, reject) => {
+    webSqlDb.transaction(tx => {
+      DATABASE_MIGRATIONS[0].up(tx);
+      tx.executeSql('PRAGMA user_version = 1');
+    }, reject, resolve);
+  });
+
+  db.run("INSERT INTO users (id, name, email) VALUES ('u1', 'Alice', 'alice@example.com')");
+  db.run("INSERT INTO chats (id, type, name) VALUES ('c1', 'private', 'Alice')");
+  db.run(
+    `INSERT INTO messages (id, chat_id, sender_id, content, type, timestamp) VALUES
+     ('m1', 'c1', 'u1', 'Quarterly report is ready', 'text', 1000),
+     ('m2', 'c1', 'u1', '明天下午开会讨论预算', 'text', 2000)`
+  );
+
+  return db;
+}
+
+describe('DatabaseService migrations', () => {
+  let SQL: SqlJsStatic;
+  const dbService = DatabaseService.getInstance();
+
+  // 把数据库注册为应用使用的数据库文件并打开
+  const open = (db: Database): Promise<void> => {
+    mockDatabases.set(APP_CONFIG.DATABASE_NAME, createWebSQLDatabase(db));
+    return dbService.initialize();
+  };
+
+  // 表名及各表的列，用于比较两个数据库的结构
+  const describeSchema = (db: Database): Record<string, string[]> =>
+    Object.fromEntries(getTables(db).sort().map(table => [table, getColumns(db, table)]));
+
+  beforeAll(async () => {
+    SQL = await initSqlJs({
+      wasmBinary: fs.readFileSync(require.resolve('sql.js-fts5/dist/sql-wasm.wasm')),
+    });
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    mockDatabases.clear();
+    jest.restoreAllMocks();
+  });
+
+  it('defines one migration per version up to DATABASE_VERSION', () => {
+    expect(DATABASE_MIGRATIONS.map(migration => migration.version)).toEqual(
+      Array.from({ length: APP_CONFIG.DATABASE_VERSION }, (_, index) => index + 1)
+    );
+  });
+
+  it('creates the latest schema for a new database', async () => {
+    const db = new SQL.Database();
+
+    await open(db);
+
+    expect(await dbService.getSchemaVersion()).toBe(APP_CONFIG.DATABASE_VERSION);
+    expect(getTables(db)).toEqual(expect.arrayContaining(['users', 'chats', 'chat_participants', 'messages']));
+  });
+
+  it('upgrades a v1 database to the same schema as a new database', async () => {
+    const fresh = new SQL.Database();
+    await open(fresh);
+
+    const db = await createV1Fixture(SQL);
+    await open(db);
+
+    expect(await dbService.getSchemaVersion()).toBe(APP_CONFIG.DATABASE_VERSION);
+    expect(getColumns(db, 'messages')).toEqual(expect.arrayContaining(['reply_to', 'status', 'edited_at']));
+    expect(describeSchema(db)).toEqual(describeSchema(fresh));
+  });
+
+  it('keeps existing data when upgrading a v1 database', async () => {
+    const db = await createV1Fixture(SQL);
+
+    await open(db);
+
+    // 新增列使用默认值
+    expect(queryRows(db, 'SELECT id, status, reply_to FROM messages ORDER BY id')).toEqual([
+      { id: 'm1', status: 'sent', reply_to: null },
+      { id: 'm2', status: 'sent', reply_to: null },
+    ]);
+    expect(await dbService.getUser('u1')).toEqual(expect.objectContaining({ name: 'Alice' }));
+  });
+
+  it('backfills the full-text index for messages that existed before version 3', async () => {
+    const db = await createV1Fixture(SQL);
+
+    await open(db);
+
+    const messages = queryRows(db, 'SELECT rowid, content FROM messages ORDER BY rowid');
+    expect(queryRows(db, 'SELECT rowid, terms, chars FROM messages_fts ORDER BY rowid')).toEqual(
+      messages.map(message => ({ rowid: message.rowid, ...tokenizeForIndex(message.content) }))
+    );
+
+    const english = await dbService.searchMessages('report');
+    expect(english.results.map(message => message.id)).toEqual(['m1']);
+
+    const chinese = await dbService.searchMessages('开会');
+    expect(chinese.results.map(message => message.id)).toEqual(['m2']);
+  });
+
+  it('does not rerun migrations on a database that is already up to date', async () => {
+    const db = new SQL.Database();
+    await open(db);
+    db.run("INSERT INTO users (id, name) VALUES ('u2', 'Bob')");
+
+    await open(db);
+
+    expect(await dbService.getSchemaVersion()).toBe(APP_CONFIG.DATABASE_VERSION);
+    expect(queryRows(db, 'SELECT id FROM users')).toEqual([{ id: 'u2' }]);
+  });
+
+  it('refuses to open a database created by a newer app version', async () => {
+    const db = await createV1Fixture(SQL);
+    const newerVersion = APP_CONFIG.DATABASE_VERSION + 1;
+    db.run(`PRAGMA user_version = ${newerVersion}`);
+
+    await expect(open(db)).rejects.toThrow(
+      `Database version ${newerVersion} is newer than supported version ${APP_CONFIG.DATABASE_VERSION}`
+    );
+
+    // 没有执行任何迁移
+    expect(getColumns(db, 'messages')).not.toContain('reply_to');
+  });
+});
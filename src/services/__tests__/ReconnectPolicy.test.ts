@@ -0,0 +1,72 @@
+import { ExponentialBackoffPolicy } from '../ReconnectPolicy';
+
+describe('ExponentialBackoffPolicy', () => {
+  // random返回接近1时得到每次的等待上限
+  const maxRandom = () => 0.999999;
+
+  it('doubles the delay ceiling on each attempt', () => {
+    const policy = new ExponentialBackoffPolicy({ initialDelay: 1000, maxDelay: 60000, random: maxRandom });
+
+    expect([1, 2, 3, 4, 5].map(attempt => policy.nextDelay(attempt))).toEqual([999, 1999, 3999, 7999, 15999]);
+  });
+
+  it('uses a custom multiplier', () => {
+    const policy = new ExponentialBackoffPolicy({
+      initialDelay: 100,
+      maxDelay: 60000,
+      multiplier: 3,
+      random: maxRandom,
+    });
+
+    expect([1, 2, 3].map(attempt => policy.nextDelay(attempt))).toEqual([99, 299, 899]);
+  });
+
+  it('caps the delay at maxDelay', () => {
+    const policy = new ExponentialBackoffPolicy({ initialDelay: 1000, maxDelay: 5000, random: maxRandom });
+
+    expect([3, 4, 10, 100].map(attempt => policy.nextDelay(attempt))).toEqual([3999, 4999, 4999, 4999]);
+  });
+
+  it('applies full jitter between zero and the ceiling', () => {
+    const samples = [0, 0.25, 0.5, 0.75];
+    let next = 0;
+    const policy = new ExponentialBackoffPolicy({
+      initialDelay: 1000,
+      maxDelay: 60000,
+      random: () => samples[next++],
+    });
+
+    // 第3次重连的上限为4000ms
+    expect(samples.map(() => policy.nextDelay(3))).toEqual([0, 1000, 2000, 3000]);
+  });
+
+  it('keeps random delays within bounds', () => {
+    const policy = new ExponentialBackoffPolicy({ initialDelay: 500, maxDelay: 8000 });
+
+    for (let attempt = 1; attempt <= 20; attempt++) {
+      const ceiling = Math.min(8000, 500 * Math.pow(2, attempt - 1));
+      const delay = policy.nextDelay(attempt);
+
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(ceiling);
+    }
+  });
+
+  it('gives up after maxAttempts', () => {
+    const policy = new ExponentialBackoffPolicy({
+      initialDelay: 1000,
+      maxDelay: 60000,
+      maxAttempts: 3,
+      random: maxRandom,
+    });
+
+    expect(policy.nextDelay(3)).toBe(3999);
+    expect(policy.nextDelay(4)).toBeNull();
+  });
+
+  it('retries indefinitely by default', () => {
+    const policy = new ExponentialBackoffPolicy({ initialDelay: 1000, maxDelay: 60000, random: maxRandom });
+
+    expect(policy.nextDelay(1000)).toBe(59999);
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  WebSocketCodec,
+  jsonCodec,
+  msgpackCodec,
+  decodeFrame,
+  getCodecForProtocol,
+  JSON_PROTOCOL,
+  MSGPACK_PROTOCOL,
+} from '../WebSocketCodec';
+import { validateFrameEnvelope, validateEventPayload } from '../WebSocketValidation';
+import {
+  WebSocketEvent,
+  WebSocketEventMap,
+  WebSocketMessage,
+  MessageType,
+  MessageStatus,
+  UserStatus,
+} from '@/types/api';
+
+// 每个事件一份有代表性的数据；新增事件时这里缺少对应数据会导致类型检查失败
+const PAYLOADS: { [E in WebSocketEvent]: WebSocketEventMap[E] } = {
+  [WebSocketEvent.NEW_MESSAGE]: {
+    id: 'msg_1',
+    chatId: 'chat_1',
+    senderId: 'user_1',
+    type: MessageType.TEXT,
+    content: '你好，world 👋 "quoted" \\ backslash\nnew line',
+    timestamp: '2024-01-15T08:30:00.000Z',
+    status: MessageStatus.SENT,
+    readBy: [{ userId: 'user_2', readAt: '2024-01-15T08:31:00.000Z' }],
+    replyTo: undefined,
+    metadata: { clientId: 'client_1', size: 1.5, tags: [], nested: { empty: null } },
+    seq: 2 ** 40,
+  },
+  [WebSocketEvent.MESSAGE_READ]: {
+    chatId: 'chat_1',
+    messageIds: ['msg_1', 'msg_2', 'msg_3'],
+    userId: 'user_2',
+    readAt: '2024-01-15T08:31:00.000Z',
+  },
+  [WebSocketEvent.USER_STATUS]: {
+    userId: 'user_2',
+    status: UserStatus.ONLINE,
+    lastSeen: '2024-01-15T08:31:00.000Z',
+  },
+  [WebSocketEvent.TYPING]: {
+    chatId: 'chat_1',
+    userId: 'user_1',
+    isTyping: true,
+  },
+  [WebSocketEvent.HEARTBEAT]: {
+    timestamp: 1705307400000,
+  },
+  [WebSocketEvent.MESSAGE_ACK]: {
+    chatId: 'chat_1',
+    seq: 42,
+    messageId: 'msg_42',
+  },
+  [WebSocketEvent.RPC_REQUEST]: {
+    method: 'messages.send',
+    params: { chatId: 'chat_1', content: 'hi', type: MessageType.TEXT, offsets: [-1, 0, 127, 128, -129, 65536] },
+  },
+  [WebSocketEvent.RPC_RESPONSE]: {
+    error: { code: 'RATE_LIMITED', message: 'Too many requests', details: { retryAfter: 0.25 } },
+  },
+  [WebSocketEvent.ERROR]: {
+    code: 'INVALID_MESSAGE',
+    message: 'Invalid message',
+    details: { reason: 'unknown event', event: null },
+  },
+};
+
+const CODECS: WebSocketCodec[] = [jsonCodec, msgpackCodec];
+
+function createFrame<E extends WebSocketEvent>(event: E): WebSocketMessage<WebSocketEventMap[E]> {
+  return { type: event, event, data: PAYLOADS[event], requestId: `req_${event}` };
+}
+
+// JSON.stringify的结果作为两种编码都应得到的标准形式（如省略undefined字段）
+function normalize(value: any): any {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe('WebSocket codecs', () => {
+  it('has a payload for every WebSocketEvent', () => {
+    expect(Object.keys(PAYLOADS).sort()).toEqual(Object.values(WebSocketEvent).sort());
+  });
+
+  describe.each(CODECS.map(codec => [codec.protocol, codec] as const))('%s', (_, codec) => {
+    it.each(Object.values(WebSocketEvent))('round-trips %s frames', event => {
+      const frame = createFrame(event);
+      const decoded = codec.decode(codec.encode(frame));
+
+      expect(decoded).toStrictEqual(normalize(frame));
+      expect(validateFrameEnvelope(decoded)).toBeNull();
+      expect(validateEventPayload(decoded)).toBeNull();
+    });
+
+    it('round-trips frames with an unknown event and leaves rejecting them to validation', () => {
+      const frame = { type: 'future', event: 'future_event', data: { anything: [1, 'two', false] } };
+      const decoded = codec.decode(codec.encode(frame as unknown as WebSocketMessage));
+
+      expect(decoded).toStrictEqual(frame);
+      expect(validateFrameEnvelope(decoded)).toEqual(expect.objectContaining({
+        details: expect.objectContaining({ reason: 'unknown event "future_event"' }),
+      }));
+    });
+
+    it('is resolved from its negotiated protocol', () => {
+      expect(getCodecForProtocol(codec.protocol)).toBe(codec);
+    });
+  });
+
+  it('encodes JSON as text frames and MessagePack as binary frames', () => {
+    const frame = createFrame(WebSocketEvent.TYPING);
+
+    expect(typeof jsonCodec.encode(frame)).toBe('string');
+    expect(msgpackCodec.encode(frame)).toBeInstanceOf(ArrayBuffer);
+  });
+
+  it('produces smaller MessagePack frames for typing and presence traffic', () => {
+    [WebSocketEvent.TYPING, WebSocketEvent.USER_STATUS].forEach(event => {
+      const frame = createFrame(event);
+      const json = jsonCodec.encode(frame) as string;
+      const binary = msgpackCodec.encode(frame) as ArrayBuffer;
+
+      expect(binary.byteLength).toBeLessThan(new TextEncoder().encode(json).length);
+    });
+  });
+
+  it('round-trips binary fields through MessagePack', () => {
+    const thumbnail = new Uint8Array([0, 1, 2, 254, 255]);
+    const frame = {
+      type: 'message',
+      event: WebSocketEvent.NEW_MESSAGE,
+      data: { ...PAYLOADS[WebSocketEvent.NEW_MESSAGE], metadata: { thumbnail } },
+    };
+
+    const decoded = msgpackCodec.decode(msgpackCodec.encode(frame));
+
+    expect(decoded.data.metadata.thumbnail).toEqual(thumbnail);
+    expect(validateEventPayload(decoded)).toBeNull();
+  });
+
+  it('decodes frames by their data type', () => {
+    const frame = createFrame(WebSocketEvent.MESSAGE_ACK);
+
+    expect(decodeFrame(jsonCodec.encode(frame))).toStrictEqual(normalize(frame));
+    expect(decodeFrame(msgpackCodec.encode(frame))).toStrictEqual(normalize(frame));
+  });
+
+  it('rejects frames of the wrong data type', () => {
+    const frame = createFrame(WebSocketEvent.HEARTBEAT);
+
+    expect(() => jsonCodec.decode(msgpackCodec.encode(frame))).toThrow('JSON codec expects text frames');
+    expect(() => msgpackCodec.decode(jsonCodec.encode(frame))).toThrow('MessagePack codec expects binary frames');
+  });
+
+  it('rejects truncated MessagePack frames', () => {
+    const binary = msgpackCodec.encode(createFrame(WebSocketEvent.NEW_MESSAGE)) as ArrayBuffer;
+
+    expect(() => msgpackCodec.decode(binary.slice(0, binary.byteLength - 1))).toThrow();
+  });
+
+  it('falls back to JSON when the server selects no or an unknown protocol', () => {
+    expect(getCodecForProtocol(undefined)).toBe(jsonCodec);
+    expect(getCodecForProtocol('')).toBe(jsonCodec);
+    expect(getCodecForProtocol('xiaoxiang.cbor.v1')).toBe(jsonCodec);
+    expect(getCodecForProtocol(JSON_PROTOCOL)).toBe(jsonCodec);
+    expect(getCodecForProtocol(MSGPACK_PROTOCOL)).toBe(msgpackCodec);
+  });
+});
@@ -0,0 +1,83 @@
+import { WebSocketSendQueue } from '../WebSocketSendQueue';
+import { StorageService } from '../StorageService';
+import { Clock } from '../ReconnectPolicy';
+import { WebSocketEvent, WebSocketMessage } from '@/types/api';
+
+// 只在advance时触发到期的定时器
+class FakeClock implements Clock {
+  private time = 0;
+  private timers: { at: number; callback: () => void }[] = [];
+
+  public now(): number {
+    return this.time;
+  }
+
+  public setTimeout(callback: () => void, delay: number): number {
+    return this.timers.push({ at: this.time + delay, callback });
+  }
+
+  public clearTimeout(): void {}
+
+  public advance(ms: number): void {
+    this.time += ms;
+    const due = this.timers.filter(timer => timer.at <= this.time);
+    this.timers = this.timers.filter(timer => timer.at > this.time);
+    due.forEach(timer => timer.callback());
+  }
+}
+
+const typing = (isTyping: boolean): WebSocketMessage => ({
+  type: 'typing',
+  event: WebSocketEvent.TYPING,
+  data: { chatId: 'chat_1', userId: 'user_1', isTyping },
+});
+
+describe('WebSocketSendQueue', () => {
+  const storageService = {
+    getItem: async () => null,
+    setItem: async () => undefined,
+    removeItem: async () => undefined,
+  } as unknown as StorageService;
+
+  let clock: FakeClock;
+  let queue: WebSocketSendQueue;
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    queue = new WebSocketSendQueue(storageService, 'ws_send_queue', clock);
+  });
+
+  it('drops typing events once their ttl has elapsed on the injected clock', async () => {
+    const delivery = queue.enqueue(typing(true));
+
+    clock.advance(4999);
+    expect(queue.size()).toBe(1);
+
+    clock.advance(1);
+    expect(queue.size()).toBe(0);
+    await expect(delivery).rejects.toThrow('Event typing expired before delivery');
+  });
+
+  it('sends typing events flushed before they expire', async () => {
+    const delivery = queue.enqueue(typing(true));
+    const sendFrame = jest.fn(async () => undefined);
+
+    clock.advance(3000);
+    await queue.flush(sendFrame);
+
+    await expect(delivery).resolves.toBeUndefined();
+    expect(sendFrame).toHaveBeenCalledWith(typing(true));
+  });
+
+  it('follows a clock replaced after construction', async () => {
+    const replacement = new FakeClock();
+    queue.setClock(replacement);
+    const delivery = queue.enqueue(typing(false));
+
+    clock.advance(5000);
+    expect(queue.size()).toBe(1);
+
+    replacement.advance(5000);
+    await expect(delivery).rejects.toThrow('expired before delivery');
+  });
+});
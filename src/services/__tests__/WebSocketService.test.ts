@@ -0,0 +1,273 @@
+import { WebSocketService, WebSocketState } from '../WebSocketService';
+import { Clock } from '../ReconnectPolicy';
+import { WebSocketEvent } from '@/types/api';
+
+jest.mock('../JWTAuthService', () => {
+  const authService = {
+    isAuthenticated: () => true,
+    getAccessToken: () => 'access_token',
+    getCurrentUser: () => null,
+    addEventListener: jest.fn(),
+  };
+  return {
+    JWTAuthService: { getInstance: () => authService },
+    AuthEvent: { LOGOUT: 'logout' },
+  };
+});
+
+jest.mock('../StorageService', () => {
+  const storageService = {
+    getItem: async () => null,
+    setItem: async () => undefined,
+    removeItem: async () => undefined,
+  };
+  return { StorageService: { getInstance: () => storageService } };
+});
+
+jest.mock('@/utils/NetworkManager', () => {
+  const networkManager = {
+    isConnected: () => true,
+    addListener: () => () => undefined,
+  };
+  return { NetworkManager: { getInstance: () => networkManager } };
+});
+
+// 只在advance时触发到期的定时器
+class FakeClock implements Clock {
+  private time = 0;
+  private nextId = 1;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+
+  public now(): number {
+    return this.time;
+  }
+
+  public setTimeout(callback: () => void, delay: number): number {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + delay, callback });
+    return id;
+  }
+
+  public clearTimeout(handle: number): void {
+    this.timers.delete(handle);
+  }
+
+  public advance(ms: number): void {
+    const target = this.time + ms;
+
+    while (true) {
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= target)
+        .sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) break;
+
+      const [id, timer] = due;
+      this.timers.delete(id);
+      this.time = timer.at;
+      timer.callback();
+    }
+
+    this.time = target;
+  }
+}
+
+// 记录创建的连接，由测试决定何时打开或关闭
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  public binaryType = 'blob';
+  public protocol = '';
+  public readyState = 0;
+  public onopen: (() => void) | null = null;
+  public onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  public onerror: ((event: unknown) => void) | null = null;
+  public onmessage: ((event: unknown) => void) | null = null;
+  public sent: string[] = [];
+  public failSends = false;
+
+  constructor(public url: string, public protocols?: string[]) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  public send(data: string): void {
+    if (this.failSends) {
+      throw new Error('send failed');
+    }
+    this.sent.push(data);
+  }
+
+  public close(): void {
+    this.readyState = 3;
+  }
+
+  public open(): void {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  public drop(): void {
+    this.readyState = 3;
+    this.onclose?.({ code: 1006, reason: 'abnormal closure' });
+  }
+}
+
+// connect()在创建连接前有异步的准备工作
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('WebSocketService reconnect schedule', () => {
+  const originalWebSocket = global.WebSocket;
+  const service = WebSocketService.getInstance();
+  let clock: FakeClock;
+
+  const latestSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+  // 推进时间直到发起下一次连接，返回实际等待的时间
+  const waitForReconnect = async (): Promise<number> => {
+    const count = FakeWebSocket.instances.length;
+    const start = clock.now();
+
+    for (let elapsed = 0; elapsed < 120000; elapsed += 100) {
+      clock.advance(100);
+      await flushPromises();
+      if (FakeWebSocket.instances.length > count) {
+        return clock.now() - start;
+      }
+    }
+    throw new Error('No reconnect scheduled');
+  };
+
+  beforeAll(() => {
+    global.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+  });
+
+  afterAll(() => {
+    global.WebSocket = originalWebSocket;
+  });
+
+  beforeEach(async () => {
+    // 固定抖动，每次等待上限的一半
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    FakeWebSocket.instances = [];
+    clock = new FakeClock();
+    service.setClock(clock);
+    service.updateConfig({
+      reconnectInterval: 1000,
+      maxReconnectDelay: 8000,
+      maxReconnectAttempts: Infinity,
+      stableConnectionTime: 30000,
+      connectionTimeout: 10000,
+      longPollingFallback: false,
+    });
+
+    await service.connect();
+  });
+
+  afterEach(() => {
+    service.disconnect();
+    jest.restoreAllMocks();
+  });
+
+  it('backs off exponentially up to the maximum delay', async () => {
+    const delays: number[] = [];
+
+    for (let i = 0; i < 5; i++) {
+      latestSocket().drop();
+      expect(service.getState()).toBe(WebSocketState.RECONNECTING);
+      delays.push(await waitForReconnect());
+    }
+
+    expect(delays).toEqual([500, 1000, 2000, 4000, 4000]);
+  });
+
+  it('does not reconnect before the delay has elapsed', async () => {
+    latestSocket().drop();
+    clock.advance(499);
+    await flushPromises();
+    expect(FakeWebSocket.instances).toHaveLength(1);
+
+    clock.advance(1);
+    await flushPromises();
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it('schedules one reconnect when error and close both fire', async () => {
+    const socket = latestSocket();
+    socket.onerror?.(new Event('error'));
+    socket.drop();
+
+    expect(await waitForReconnect()).toBe(500);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it('reconnects after a connection timeout', async () => {
+    clock.advance(10000);
+    expect(service.getState()).toBe(WebSocketState.RECONNECTING);
+
+    expect(await waitForReconnect()).toBe(500);
+  });
+
+  it('keeps backing off when connections drop before they are stable', async () => {
+    latestSocket().drop();
+    await waitForReconnect();
+    latestSocket().open();
+    clock.advance(29900);
+
+    latestSocket().drop();
+    expect(await waitForReconnect()).toBe(1000);
+  });
+
+  it('resets the backoff once a connection stays up', async () => {
+    latestSocket().drop();
+    await waitForReconnect();
+    latestSocket().drop();
+    await waitForReconnect();
+    latestSocket().open();
+    clock.advance(30000);
+
+    latestSocket().drop();
+    expect(await waitForReconnect()).toBe(500);
+  });
+
+  it('reconnects immediately and resets the backoff on reconnectNow', async () => {
+    latestSocket().drop();
+    await waitForReconnect();
+    latestSocket().drop();
+
+    service.reconnectNow();
+    await flushPromises();
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    latestSocket().drop();
+    expect(await waitForReconnect()).toBe(500);
+  });
+
+  describe('when a send fails while connected', () => {
+    const sendTyping = (chatId: string) => service.send({
+      type: 'typing',
+      event: WebSocketEvent.TYPING,
+      data: { chatId, userId: 'user_1', isTyping: true },
+    });
+
+    const sentChatIds = (socket: FakeWebSocket) => socket.sent.map(data => JSON.parse(data).data.chatId);
+
+    it('reconnects and delivers the failed frame before later sends', async () => {
+      latestSocket().open();
+      latestSocket().failSends = true;
+
+      const first = sendTyping('chat_1');
+      await flushPromises();
+      expect(service.getState()).toBe(WebSocketState.RECONNECTING);
+
+      const second = sendTyping('chat_2');
+      await waitForReconnect();
+      latestSocket().open();
+      await Promise.all([first, second]);
+
+      expect(sentChatIds(latestSocket())).toEqual(['chat_1', 'chat_2']);
+    });
+  });
+});
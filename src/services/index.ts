@@ -1,5 +1,6 @@
 // 主要数据服务
 export { DataService } from './DataService';
+export { AccountService } from './AccountService';
 
 // 底层存储服务
 export { DatabaseService } from './DatabaseService';
@@ -8,31 +9,64 @@ export { SecureStorageService } from './SecureStorageService';
 
 // 网络和认证服务
 export { ApiClient } from './ApiClient';
+export { createAuthenticatedApiClient } from './AuthenticatedApiClient';
+export { ApiService } from './ApiService';
+export { API_ENDPOINTS, callEndpoint, getNextPageRequest, toApiError } from './ApiEndpoints';
 export { JWTAuthService } from './JWTAuthService';
 export { WebSocketService } from './WebSocketService';
-export { OfflineFirstSyncService } from './OfflineFirstSyncService';
+export { MessageTransport, TransportChannel } from './MessageTransport';
+export { CircuitBreakerRegistry, CircuitState } from './CircuitBreaker';
+export { LatestRequest, isCancelledError } from './LatestRequest';
+export { FileUploadService, UploadTask, UploadStatus } from './FileUploadService';
+export { DownloadManager } from './DownloadManager';
+export { FetchTransport, getDefaultTransport, setDefaultTransport } from './HttpTransport';
+export { MockTransport, MockFaultType, mockSuccess, mockError } from './MockTransport';
+export { NetworkRecorder } from './NetworkRecorder';
+export { OfflineFirstSyncService, SyncEvent } from './OfflineFirstSyncService';
 
 // 类型定义
 export type { UserSettings, AppConfig } from './StorageService';
+export type { AccountProfile } from './AccountService';
 export type { AuthTokens, UserCredentials } from './SecureStorageService';
+export type { SyncState, PendingConflict, ManualResolution } from './OfflineFirstSyncService';
+export type { CircuitStateChange, CircuitBreakerConfig } from './CircuitBreaker';
+export type { UploadProgress, UploadOptions } from './FileUploadService';
+export type { DownloadProgress, DownloadOptions } from './DownloadManager';
+export type { Endpoint, EndpointRequest, EndpointResponse } from './ApiEndpoints';
+export type { HttpTransport, TransportRequest, TransportResponse } from './HttpTransport';
+export type { MockRequest, MockResponse, MockFixture, MockFault, RecordedRequest } from './MockTransport';
+export type {
+  NetworkRecord,
+  HttpRecord,
+  WebSocketFrameRecord,
+  RecordedAttempt,
+  RedactionRule,
+  NetworkRecorderConfig,
+} from './NetworkRecorder';
 export type { ApiResponse, ApiError } from '@/types/api';
 
 // 导入类来创建单例实例
 import { DataService } from './DataService';
+import { AccountService } from './AccountService';
 import { DatabaseService } from './DatabaseService';
 import { StorageService } from './StorageService';
 import { SecureStorageService } from './SecureStorageService';
 import { ApiClient } from './ApiClient';
+import { ApiService } from './ApiService';
 import { JWTAuthService } from './JWTAuthService';
 import { WebSocketService } from './WebSocketService';
 import { OfflineFirstSyncService } from './OfflineFirstSyncService';
+import { NetworkRecorder } from './NetworkRecorder';
 
 // 便捷的单例访问
 export const dataService = DataService.getInstance();
+export const accountService = AccountService.getInstance();
 export const databaseService = DatabaseService.getInstance();
 export const storageService = StorageService.getInstance();
 export const secureStorageService = SecureStorageService.getInstance();
 export const apiClient = new ApiClient();
+export const apiService = ApiService.getInstance();
 export const jwtAuthService = JWTAuthService.getInstance();
 export const webSocketService = WebSocketService.getInstance();
-export const offlineFirstSyncService = OfflineFirstSyncService.getInstance();
\ No newline at end of file
+export const offlineFirstSyncService = OfflineFirstSyncService.getInstance();
+export const networkRecorder = NetworkRecorder.getInstance();
\ No newline at end of file
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
 import { User, Chat, Message } from '@/types';
 import { dataService } from '@/services';
+import { installMockApi } from '@/mocks';
+import { ENV_CONFIG } from '@/utils/Environment';
 
 // 应用状态接口
 export interface AppState {
@@ -51,6 +53,7 @@ export type AppAction =
   | { type: 'SET_NOTIFICATIONS'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'CLEAR_ERROR' }
+  | { type: 'SWITCH_ACCOUNT'; payload: User }
   | { type: 'LOGOUT' };
 
 // Reducer函数
@@ -106,6 +109,18 @@ function appReducer(state: AppState, action: AppAction): AppState {
     case 'CLEAR_ERROR':
       return { ...state, error: null };
     
+    // 切换账户时丢弃上一个账户的会话和消息
+    case 'SWITCH_ACCOUNT':
+      return {
+        ...initialState,
+        isLoading: state.isLoading,
+        currentUser: action.payload,
+        isAuthenticated: true,
+        networkStatus: state.networkStatus,
+        theme: state.theme,
+        notifications: state.notifications,
+      };
+    
     case 'LOGOUT':
       return {
         ...initialState,
@@ -141,6 +156,7 @@ interface AppContextType {
   
   // 业务方法
   login: (email: string, password: string, rememberMe?: boolean) => Promise<void>;
+  switchAccount: (accountId: string) => Promise<void>;
   sendMessage: (chatId: string, content: string, type?: 'text' | 'image' | 'file') => Promise<void>;
   loadChats: () => Promise<void>;
   loadMessages: (chatId: string) => Promise<void>;
@@ -214,7 +230,14 @@ export function AppProvider({ children }: AppProviderProps) {
     try {
       setLoading(true);
       await dataService.logout();
-      dispatch({ type: 'LOGOUT' });
+
+      // 还有其他已登录的账户时切换到最近使用的一个
+      const [nextAccount] = dataService.getAccounts();
+      if (nextAccount) {
+        await switchAccount(nextAccount.id);
+      } else {
+        dispatch({ type: 'LOGOUT' });
+      }
     } catch (error) {
       setError(error instanceof Error ? error.message : '登出失败');
     } finally {
@@ -228,9 +251,9 @@ export function AppProvider({ children }: AppProviderProps) {
       setLoading(true);
       clearError();
       
+      // 已登录时再登录其他用户即添加账户，上一个账户的状态一并清除
       const user = await dataService.login(email, password, rememberMe);
-      setUser(user);
-      setAuthenticated(true);
+      dispatch({ type: 'SWITCH_ACCOUNT', payload: user });
       
       // 登录成功后加载用户数据
       await loadChats();
@@ -242,6 +265,27 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   };
 
+  const switchAccount = async (accountId: string) => {
+    try {
+      setLoading(true);
+      clearError();
+
+      const user = await dataService.switchAccount(accountId);
+      if (user) {
+        dispatch({ type: 'SWITCH_ACCOUNT', payload: user });
+        await loadChats();
+      } else {
+        // 该账户的登录已过期，回到登录页
+        dispatch({ type: 'LOGOUT' });
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : '切换账户失败');
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const sendMessage = async (chatId: string, content: string, type: 'text' | 'image' | 'file' = 'text') => {
     try {
       if (!state.currentUser) {
@@ -249,6 +293,7 @@ export function AppProvider({ children }: AppProviderProps) {
       }
 
       const message = await dataService.sendMessage({
+        chatId,
         senderId: state.currentUser.id,
         receiverId: chatId, // 暂时简化处理
         content,
@@ -284,6 +329,11 @@ export function AppProvider({ children }: AppProviderProps) {
   const initializeApp = async () => {
     try {
       setLoading(true);
+
+      // 模拟模式下所有HTTP请求由内存中的模拟数据响应
+      if (ENV_CONFIG.useMockApi) {
+        installMockApi();
+      }
       
       // 初始化数据服务
       await dataService.initialize();
@@ -333,6 +383,7 @@ export function AppProvider({ children }: AppProviderProps) {
     clearError,
     logout,
     login,
+    switchAccount,
     sendMessage,
     loadChats,
     loadMessages,
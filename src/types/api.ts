@@ -6,6 +6,16 @@ export interface ApiResponse<T = any> {
   data?: T;
   meta?: ApiMeta;
   error?: ApiError;
+  cacheInfo?: ResponseCacheInfo; // 客户端附加，服务器不返回
+}
+
+// 响应来源：网络、本地缓存，或服务器返回304后使用的本地缓存
+export type ResponseSource = 'network' | 'cache' | 'not_modified';
+
+export interface ResponseCacheInfo {
+  source: ResponseSource;
+  cachedAt?: number;
+  validators?: CacheValidators;
 }
 
 export interface ApiMeta {
@@ -25,6 +35,7 @@ export interface ApiError {
   details?: ApiErrorDetail[];
   requestId: string;
   timestamp: string;
+  retryAt?: string; // 在此时间之前不应重试（来自Retry-After或熔断）
 }
 
 export interface ApiErrorDetail {
@@ -45,6 +56,8 @@ export enum ApiErrorCode {
   SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE',
   NETWORK_ERROR = 'NETWORK_ERROR',
   TIMEOUT_ERROR = 'TIMEOUT_ERROR',
+  CIRCUIT_OPEN = 'CIRCUIT_OPEN',
+  CANCELLED = 'CANCELLED',
 }
 
 // 认证相关类型
@@ -142,6 +155,7 @@ export interface MessageResponse {
   readBy: MessageReadInfo[];
   replyTo?: string;
   metadata?: MessageMetadata;
+  seq?: number; // 会话内的服务器序列号
 }
 
 export enum MessageStatus {
@@ -164,6 +178,10 @@ export interface GetMessagesRequest {
   after?: string;
 }
 
+export interface MarkMessageReadRequest {
+  messageId: string;
+}
+
 export interface MarkMessagesReadRequest {
   messageIds: string[];
 }
@@ -213,6 +231,10 @@ export interface GetChatsRequest {
   type?: 'all' | 'private' | 'group';
 }
 
+export interface GetChatRequest {
+  chatId: string;
+}
+
 // 组织架构相关类型
 export interface DepartmentResponse {
   id: string;
@@ -244,6 +266,43 @@ export interface GetDepartmentMembersRequest {
 export interface UploadFileRequest {
   file: File | Blob;
   type: FileType;
+  name?: string; // Blob没有文件名时必填
+  uploadId?: string; // 重试同一上传时传入之前的会话ID，服务器据此去重
+}
+
+// multipart上传，body中包含file、type和uploadId字段
+export interface MultipartUploadRequest {
+  body: FormData;
+}
+
+export interface CreateUploadSessionRequest {
+  uploadId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  type: FileType;
+  chunkSize: number;
+}
+
+export interface UploadSessionRequest {
+  uploadId: string;
+}
+
+export interface UploadChunkRequest {
+  uploadId: string;
+  offset: number;
+  body: Blob;
+}
+
+export interface GetFileRequest {
+  fileId: string;
+}
+
+// 分片上传会话
+export interface UploadSessionResponse {
+  uploadId: string;
+  receivedBytes: number; // 服务器已收到的连续字节数，续传从这里开始
+  chunkSize: number;
 }
 
 export enum FileType {
@@ -279,9 +338,19 @@ export enum WebSocketEvent {
   USER_STATUS = 'user_status',
   TYPING = 'typing',
   HEARTBEAT = 'heartbeat',
+  MESSAGE_ACK = 'message_ack',
+  RPC_REQUEST = 'rpc_request',
+  RPC_RESPONSE = 'rpc_response',
   ERROR = 'error',
 }
 
+// 客户端确认：该会话中不大于seq的消息均已收到
+export interface MessageAckData {
+  chatId: string;
+  seq: number;
+  messageId: string;
+}
+
 export interface TypingData {
   chatId: string;
   userId: string;
@@ -294,10 +363,78 @@ export interface UserStatusData {
   lastSeen?: string;
 }
 
+export interface MessageReadData {
+  chatId: string;
+  messageIds: string[];
+  userId: string;
+  readAt: string;
+}
+
+export interface HeartbeatData {
+  timestamp: number;
+}
+
+export interface WebSocketErrorData {
+  code: string;
+  message: string;
+  details?: any;
+}
+
+// RPC请求，服务器以相同的requestId返回RPC_RESPONSE
+export interface RpcRequestData {
+  method: string;
+  params?: any;
+}
+
+// RPC响应，成功时带result，失败时带error
+export interface RpcResponseData {
+  result?: any;
+  error?: WebSocketErrorData;
+}
+
+// 各RPC方法的参数和返回值类型
+export interface RpcMethodMap {
+  'messages.send': { params: SendMessageRequest; result: MessageResponse };
+}
+
+export type RpcMethod = keyof RpcMethodMap;
+
+// 各事件对应的数据类型
+export interface WebSocketEventMap {
+  [WebSocketEvent.NEW_MESSAGE]: MessageResponse;
+  [WebSocketEvent.MESSAGE_READ]: MessageReadData;
+  [WebSocketEvent.USER_STATUS]: UserStatusData;
+  [WebSocketEvent.TYPING]: TypingData;
+  [WebSocketEvent.HEARTBEAT]: HeartbeatData;
+  [WebSocketEvent.MESSAGE_ACK]: MessageAckData;
+  [WebSocketEvent.RPC_REQUEST]: RpcRequestData;
+  [WebSocketEvent.RPC_RESPONSE]: RpcResponseData;
+  [WebSocketEvent.ERROR]: WebSocketErrorData;
+}
+
+// 长轮询相关类型
+export interface RealtimePollRequest {
+  deviceId: string;
+  cursor?: string;
+  wait: number; // 服务器最长挂起时间(ms)，0表示立即返回
+}
+
+// 一批消息及下次轮询的游标
+export interface RealtimePollResponse {
+  messages: any[];
+  cursor?: string;
+}
+
+export interface RealtimeSendRequest {
+  deviceId: string;
+  messages: WebSocketMessage[];
+}
+
 // 数据同步相关类型
 export interface SyncChangesRequest {
   since: string;
   types: SyncDataType[];
+  nextToken?: string; // 上一页返回的nextToken
 }
 
 export enum SyncDataType {
@@ -339,6 +476,7 @@ export interface LocalChange {
   data: any;
   clientId: string;
   timestamp: string;
+  baseVersion?: number; // 本地更改所基于的服务器版本
 }
 
 export interface UploadChangesResponse {
@@ -351,6 +489,7 @@ export interface SyncConflict {
   type: ConflictType;
   serverData: any;
   localData: any;
+  serverVersion?: number;
 }
 
 export enum ConflictType {
@@ -367,6 +506,30 @@ export interface HealthResponse {
   services: Record<string, 'healthy' | 'degraded' | 'unhealthy'>;
 }
 
+// 批量请求相关类型
+export interface BatchRequestItem {
+  id: string; // 批量请求内唯一，响应按id对应
+  method: HttpMethod;
+  path: string; // 相对API根路径，含查询参数，如/chats/chat_1?limit=20
+  headers?: Record<string, string>; // 与批量请求本身不同的请求头
+  body?: any;
+}
+
+export interface BatchRequest {
+  requests: BatchRequestItem[];
+}
+
+export interface BatchResponseItem {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: any; // 与单独请求时的响应体相同，304时为空
+}
+
+export interface BatchResponse {
+  responses: BatchResponseItem[];
+}
+
 // 分页相关类型
 export interface PaginationRequest {
   page?: number;
@@ -431,6 +594,16 @@ export interface RequestConfig {
   retryDelay?: number;
   headers?: Record<string, string>;
   params?: Record<string, any>;
+  cache?: CacheConfig; // 仅对GET生效，不指定时不缓存
+  invalidates?: string[]; // 请求成功后清除带有这些标签的缓存
+  signal?: AbortSignal; // 调用方取消请求
+  batch?: boolean; // 客户端开启请求合并时，设为false则单独发送
+}
+
+// 上传请求配置
+export interface UploadConfig extends RequestConfig {
+  method?: HttpMethod.POST | HttpMethod.PUT;
+  onProgress?: (loaded: number, total: number) => void;
 }
 
 export interface RequestOptions extends RequestConfig {
@@ -450,8 +623,9 @@ export enum HttpMethod {
 // 缓存相关类型
 export interface CacheConfig {
   ttl?: number; // 缓存时间(秒)
-  key: string;
+  key?: string; // 默认由URL和查询参数生成
   tags?: string[]; // 缓存标签，用于批量清理
+  staleWhileRevalidate?: number; // 过期后仍可返回旧数据的时间(秒)，同时在后台刷新
 }
 
 export interface CacheItem<T = any> {
@@ -459,4 +633,21 @@ export interface CacheItem<T = any> {
   timestamp: number;
   ttl: number;
   tags: string[];
+  validators?: CacheValidators;
+}
+
+// 条件请求使用的验证器
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+// 某个请求的缓存状态
+export interface CacheMetadata {
+  key: string;
+  cachedAt: number;
+  ttl: number;
+  tags: string[];
+  validators?: CacheValidators;
+  isFresh: boolean;
 }
\ No newline at end of file
@@ -13,12 +13,16 @@ export interface User {
 // 消息类型定义
 export interface Message {
   id: string;
+  chatId?: string;
   senderId: string;
   receiverId: string;
   content: string;
   type: 'text' | 'image' | 'file';
   timestamp: Date;
   isRead: boolean;
+  replyTo?: string; // 回复的消息ID
+  status?: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+  editedAt?: Date;
 }
 
 // 聊天会话类型定义
@@ -47,6 +51,9 @@ export type RootStackParamList = {
   Main: undefined;
   Chat: { chatId: string; userName: string };
   Profile: { userId: string };
+  Conflicts: undefined;
+  NetworkInspector: undefined;
+  AddAccount: undefined;
 };
 
 export type TabParamList = {
@@ -17,7 +17,7 @@ export const APP_CONFIG = {
   
   // 存储配置
   DATABASE_NAME: 'xiaoxiang_chat.db',
-  DATABASE_VERSION: 1,
+  DATABASE_VERSION: 8,
   CACHE_MAX_SIZE: 100 * 1024 * 1024, // 100MB
   MESSAGE_RETENTION_DAYS: 30,
   
@@ -72,6 +72,8 @@ export const ERROR_CODES = {
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   FILE_TOO_LARGE: 'FILE_TOO_LARGE',
   UNSUPPORTED_FORMAT: 'UNSUPPORTED_FORMAT',
+  INVALID_MESSAGE: 'INVALID_MESSAGE',
+  DOWNLOAD_CANCELLED: 'DOWNLOAD_CANCELLED',
 };
 
 // 错误消息
@@ -84,6 +86,8 @@ export const ERROR_MESSAGES = {
   [ERROR_CODES.VALIDATION_ERROR]: '输入信息有误',
   [ERROR_CODES.FILE_TOO_LARGE]: '文件大小超出限制',
   [ERROR_CODES.UNSUPPORTED_FORMAT]: '不支持的文件格式',
+  [ERROR_CODES.INVALID_MESSAGE]: '收到格式错误的消息',
+  [ERROR_CODES.DOWNLOAD_CANCELLED]: '下载已取消',
 };
 
 // 消息类型
@@ -117,6 +121,9 @@ export const STORAGE_KEYS = {
   ACTIVE_CHATS: 'active_chats',
   NETWORK_STATUS: 'network_status',
   OFFLINE_MESSAGES: 'offline_messages',
+  NETWORK_RECORDER_ENABLED: 'network_recorder_enabled',
+  ACCOUNTS: 'accounts',
+  ACTIVE_ACCOUNT_ID: 'active_account_id',
   
   // 安全存储键名
   AUTH_TOKENS: 'auth_tokens',
@@ -48,6 +48,7 @@ export class DataStorageExample {
       }
 
       const message = await dataService.sendMessage({
+        chatId: 'chat_123',
         senderId: currentUser.id,
         receiverId: 'user_123',
         content: 'Hello, this is a test message!',
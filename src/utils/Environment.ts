@@ -5,6 +5,7 @@ export interface EnvironmentConfig {
   apiBaseUrl: string;
   wsUrl: string;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
+  useMockApi: boolean; // 所有HTTP请求由内存中的模拟数据响应，不访问服务器
 }
 
 // 安全的环境检测
@@ -12,6 +13,7 @@ export function getEnvironmentConfig(): EnvironmentConfig {
   let isDev = false;
   let apiBaseUrl = 'https://api.xiaoxiang.com/v1';
   let wsUrl = 'wss://ws.xiaoxiang.com/ws';
+  let useMockApi = false;
   
   try {
     // 尝试获取Expo配置
@@ -20,6 +22,7 @@ export function getEnvironmentConfig(): EnvironmentConfig {
       isDev = Constants.expoConfig.extra.isDev || false;
       apiBaseUrl = Constants.expoConfig.extra.apiBaseUrl || apiBaseUrl;
       wsUrl = Constants.expoConfig.extra.wsUrl || wsUrl;
+      useMockApi = Constants.expoConfig.extra.useMockApi || false;
     }
   } catch {
     // 如果无法获取，使用默认配置
@@ -36,6 +39,7 @@ export function getEnvironmentConfig(): EnvironmentConfig {
     apiBaseUrl,
     wsUrl,
     logLevel: isDev ? 'debug' : 'info',
+    useMockApi,
   };
 }
 
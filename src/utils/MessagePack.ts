@@ -0,0 +1,430 @@
+// MessagePack编解码（https://msgpack.org），覆盖WebSocket消息用到的类型：
+// nil、布尔、整数、浮点数、字符串、二进制、数组和对象，不支持扩展类型
+
+// 与JSON.stringify保持一致：对象中值为undefined的字段省略，数组中的undefined编码为nil，
+// 带toJSON方法的值（如Date）先调用toJSON
+export function encodeMessagePack(value: any): Uint8Array {
+  const writer = new ByteWriter();
+  writeValue(writer, value);
+  return writer.toBytes();
+}
+
+export function decodeMessagePack(data: ArrayBuffer | Uint8Array): any {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const reader = new ByteReader(bytes);
+  const value = readValue(reader);
+  if (reader.offset !== bytes.length) {
+    throw new Error(`MessagePack: ${bytes.length - reader.offset} trailing bytes`);
+  }
+  return value;
+}
+
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  public uint8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  public uint16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  public uint32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  public int8(value: number): void {
+    this.ensure(1);
+    this.view.setInt8(this.length, value);
+    this.length += 1;
+  }
+
+  public int16(value: number): void {
+    this.ensure(2);
+    this.view.setInt16(this.length, value);
+    this.length += 2;
+  }
+
+  public int32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.length, value);
+    this.length += 4;
+  }
+
+  public float64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  public bytes(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  public toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private ensure(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) {
+      capacity *= 2;
+    }
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+class ByteReader {
+  public offset = 0;
+  private view: DataView;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  public uint8(): number {
+    this.check(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  public uint16(): number {
+    this.check(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  public uint32(): number {
+    this.check(4);
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  // 超过2^53的64位整数会丢失精度
+  public uint64(): number {
+    const high = this.uint32();
+    const low = this.uint32();
+    return high * 0x100000000 + low;
+  }
+
+  public int8(): number {
+    this.check(1);
+    return this.view.getInt8(this.offset++);
+  }
+
+  public int16(): number {
+    this.check(2);
+    const value = this.view.getInt16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  public int32(): number {
+    this.check(4);
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  public int64(): number {
+    const high = this.int32();
+    const low = this.uint32();
+    return high * 0x100000000 + low;
+  }
+
+  public float32(): number {
+    this.check(4);
+    const value = this.view.getFloat32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  public float64(): number {
+    this.check(8);
+    const value = this.view.getFloat64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  public bytes(length: number): Uint8Array {
+    this.check(length);
+    const value = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  private check(size: number): void {
+    if (this.offset + size > this.data.length) {
+      throw new Error('MessagePack: unexpected end of data');
+    }
+  }
+}
+
+function writeValue(writer: ByteWriter, value: any): void {
+  if (value !== null && typeof value === 'object' && typeof value.toJSON === 'function') {
+    value = value.toJSON();
+  }
+
+  if (value === null || value === undefined) {
+    writer.uint8(0xc0);
+  } else if (typeof value === 'boolean') {
+    writer.uint8(value ? 0xc3 : 0xc2);
+  } else if (typeof value === 'number') {
+    writeNumber(writer, value);
+  } else if (typeof value === 'string') {
+    writeString(writer, value);
+  } else if (value instanceof Uint8Array) {
+    writeBinary(writer, value);
+  } else if (value instanceof ArrayBuffer) {
+    writeBinary(writer, new Uint8Array(value));
+  } else if (Array.isArray(value)) {
+    writeArray(writer, value);
+  } else if (typeof value === 'object') {
+    writeMap(writer, value);
+  } else {
+    throw new Error(`MessagePack: unsupported type ${typeof value}`);
+  }
+}
+
+function writeNumber(writer: ByteWriter, value: number): void {
+  if (!Number.isInteger(value) || Object.is(value, -0)) {
+    writer.uint8(0xcb);
+    writer.float64(value);
+  } else if (value >= 0 && value < 0x80) {
+    writer.uint8(value);
+  } else if (value < 0 && value >= -0x20) {
+    writer.int8(value);
+  } else if (value >= 0 && value <= 0xff) {
+    writer.uint8(0xcc);
+    writer.uint8(value);
+  } else if (value >= 0 && value <= 0xffff) {
+    writer.uint8(0xcd);
+    writer.uint16(value);
+  } else if (value >= 0 && value <= 0xffffffff) {
+    writer.uint8(0xce);
+    writer.uint32(value);
+  } else if (value >= -0x80 && value < 0) {
+    writer.uint8(0xd0);
+    writer.int8(value);
+  } else if (value >= -0x8000 && value < 0) {
+    writer.uint8(0xd1);
+    writer.int16(value);
+  } else if (value >= -0x80000000 && value < 0) {
+    writer.uint8(0xd2);
+    writer.int32(value);
+  } else {
+    // 超出32位的整数按float64编码，在2^53以内不丢失精度
+    writer.uint8(0xcb);
+    writer.float64(value);
+  }
+}
+
+function writeString(writer: ByteWriter, value: string): void {
+  const bytes = encodeUtf8(value);
+  const length = bytes.length;
+
+  if (length < 0x20) {
+    writer.uint8(0xa0 | length);
+  } else if (length <= 0xff) {
+    writer.uint8(0xd9);
+    writer.uint8(length);
+  } else if (length <= 0xffff) {
+    writer.uint8(0xda);
+    writer.uint16(length);
+  } else {
+    writer.uint8(0xdb);
+    writer.uint32(length);
+  }
+  writer.bytes(bytes);
+}
+
+function writeBinary(writer: ByteWriter, bytes: Uint8Array): void {
+  const length = bytes.length;
+
+  if (length <= 0xff) {
+    writer.uint8(0xc4);
+    writer.uint8(length);
+  } else if (length <= 0xffff) {
+    writer.uint8(0xc5);
+    writer.uint16(length);
+  } else {
+    writer.uint8(0xc6);
+    writer.uint32(length);
+  }
+  writer.bytes(bytes);
+}
+
+function writeArray(writer: ByteWriter, value: any[]): void {
+  const length = value.length;
+
+  if (length < 0x10) {
+    writer.uint8(0x90 | length);
+  } else if (length <= 0xffff) {
+    writer.uint8(0xdc);
+    writer.uint16(length);
+  } else {
+    writer.uint8(0xdd);
+    writer.uint32(length);
+  }
+  value.forEach(item => writeValue(writer, item));
+}
+
+function writeMap(writer: ByteWriter, value: Record<string, any>): void {
+  const keys = Object.keys(value).filter(key => value[key] !== undefined && typeof value[key] !== 'function');
+  const length = keys.length;
+
+  if (length < 0x10) {
+    writer.uint8(0x80 | length);
+  } else if (length <= 0xffff) {
+    writer.uint8(0xde);
+    writer.uint16(length);
+  } else {
+    writer.uint8(0xdf);
+    writer.uint32(length);
+  }
+  keys.forEach(key => {
+    writeString(writer, key);
+    writeValue(writer, value[key]);
+  });
+}
+
+function readValue(reader: ByteReader): any {
+  const type = reader.uint8();
+
+  // positive fixint / fixmap / fixarray / fixstr / negative fixint
+  if (type < 0x80) return type;
+  if (type < 0x90) return readMap(reader, type & 0x0f);
+  if (type < 0xa0) return readArray(reader, type & 0x0f);
+  if (type < 0xc0) return decodeUtf8(reader.bytes(type & 0x1f));
+  if (type >= 0xe0) return type - 0x100;
+
+  switch (type) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xc4: return reader.bytes(reader.uint8());
+    case 0xc5: return reader.bytes(reader.uint16());
+    case 0xc6: return reader.bytes(reader.uint32());
+    case 0xca: return reader.float32();
+    case 0xcb: return reader.float64();
+    case 0xcc: return reader.uint8();
+    case 0xcd: return reader.uint16();
+    case 0xce: return reader.uint32();
+    case 0xcf: return reader.uint64();
+    case 0xd0: return reader.int8();
+    case 0xd1: return reader.int16();
+    case 0xd2: return reader.int32();
+    case 0xd3: return reader.int64();
+    case 0xd9: return decodeUtf8(reader.bytes(reader.uint8()));
+    case 0xda: return decodeUtf8(reader.bytes(reader.uint16()));
+    case 0xdb: return decodeUtf8(reader.bytes(reader.uint32()));
+    case 0xdc: return readArray(reader, reader.uint16());
+    case 0xdd: return readArray(reader, reader.uint32());
+    case 0xde: return readMap(reader, reader.uint16());
+    case 0xdf: return readMap(reader, reader.uint32());
+    default:
+      throw new Error(`MessagePack: unsupported type 0x${type.toString(16)}`);
+  }
+}
+
+function readArray(reader: ByteReader, length: number): any[] {
+  const result = new Array(length);
+  for (let i = 0; i < length; i++) {
+    result[i] = readValue(reader);
+  }
+  return result;
+}
+
+function readMap(reader: ByteReader, length: number): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (let i = 0; i < length; i++) {
+    const key = readValue(reader);
+    if (typeof key !== 'string' && typeof key !== 'number') {
+      throw new Error('MessagePack: map keys must be strings or numbers');
+    }
+    result[key] = readValue(reader);
+  }
+  return result;
+}
+
+// Hermes不一定提供TextEncoder/TextDecoder，这里手动处理UTF-8
+function encodeUtf8(value: string): Uint8Array {
+  const bytes: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    let code = value.charCodeAt(i);
+
+    // 合并代理对
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < value.length) {
+      const next = value.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  let result = '';
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i++];
+    let code: number;
+
+    if (byte < 0x80) {
+      code = byte;
+    } else if (byte < 0xe0) {
+      code = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (byte < 0xf0) {
+      code = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else {
+      code = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) |
+        ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    }
+
+    if (code >= 0x10000) {
+      code -= 0x10000;
+      result += String.fromCharCode(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+    } else {
+      result += String.fromCharCode(code);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,167 @@
+// 全文检索分词工具
+// SQLite自带的unicode61分词器无法切分中文，这里在写入和查询时统一做字符n-gram切分：
+// - terms列：拉丁词按原样小写保留，中文连续片段切成二元组(bigram)
+// - chars列：中文单字，用于单字查询
+
+export interface IndexedText {
+  terms: string;
+  chars: string;
+}
+
+interface TextSegment {
+  text: string;
+  isCjk: boolean;
+}
+
+export const HIGHLIGHT_START = '<em>';
+export const HIGHLIGHT_END = '</em>';
+
+const CJK_PATTERN = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\u3040-\u30ff\uac00-\ud7af]/;
+const WORD_PATTERN = /[\p{L}\p{N}_]/u;
+
+// 按中文/非中文切分文本片段，标点和空白作为分隔符丢弃
+function splitSegments(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let current = '';
+  let currentIsCjk = false;
+
+  const flush = () => {
+    if (current) {
+      segments.push({ text: current, isCjk: currentIsCjk });
+      current = '';
+    }
+  };
+
+  for (const char of text.toLowerCase()) {
+    if (CJK_PATTERN.test(char)) {
+      if (!currentIsCjk) flush();
+      currentIsCjk = true;
+      current += char;
+    } else if (WORD_PATTERN.test(char)) {
+      if (currentIsCjk) flush();
+      currentIsCjk = false;
+      current += char;
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return segments;
+}
+
+// 中文片段切分为二元组，单字片段保留原字
+function toBigrams(text: string): string[] {
+  const chars = Array.from(text);
+  if (chars.length === 1) {
+    return chars;
+  }
+
+  const bigrams: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    bigrams.push(chars[i] + chars[i + 1]);
+  }
+  return bigrams;
+}
+
+// 生成写入索引的分词结果
+export function tokenizeForIndex(text: string): IndexedText {
+  const terms: string[] = [];
+  const chars: string[] = [];
+
+  splitSegments(text).forEach(segment => {
+    if (segment.isCjk) {
+      terms.push(...toBigrams(segment.text));
+      chars.push(...Array.from(segment.text));
+    } else {
+      terms.push(segment.text);
+    }
+  });
+
+  return { terms: terms.join(' '), chars: chars.join(' ') };
+}
+
+// 将用户输入转换为FTS5 MATCH表达式，无有效词时返回null
+export function buildMatchQuery(query: string): string | null {
+  const clauses = splitSegments(query).map(segment => {
+    if (!segment.isCjk) {
+      return `terms:"${segment.text}"*`;
+    }
+
+    const chars = Array.from(segment.text);
+    if (chars.length === 1) {
+      return `chars:"${segment.text}"`;
+    }
+    return `terms:"${toBigrams(segment.text).join(' ')}"`;
+  });
+
+  return clauses.length > 0 ? clauses.join(' AND ') : null;
+}
+
+// 提取查询中的关键词，用于生成高亮片段
+export function extractQueryTerms(query: string): string[] {
+  return splitSegments(query).map(segment => segment.text);
+}
+
+// 在原文中标记命中的关键词并截取上下文片段
+export function buildHighlightSnippets(
+  content: string,
+  terms: string[],
+  contextLength: number = 20,
+  maxSnippets: number = 3
+): string[] {
+  const lowerContent = content.toLowerCase();
+  const ranges: [number, number][] = [];
+
+  terms.forEach(term => {
+    if (!term) return;
+    let index = lowerContent.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = lowerContent.indexOf(term, index + term.length);
+    }
+  });
+
+  if (ranges.length === 0) {
+    return [];
+  }
+
+  // 合并重叠的命中区间
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  });
+
+  // 距离较近的命中放在同一个片段中
+  const groups: [number, number][][] = [];
+  merged.forEach(range => {
+    const lastGroup = groups[groups.length - 1];
+    if (lastGroup && range[0] - lastGroup[lastGroup.length - 1][1] <= contextLength * 2) {
+      lastGroup.push(range);
+    } else {
+      groups.push([range]);
+    }
+  });
+
+  return groups.slice(0, maxSnippets).map(group => {
+    const snippetStart = Math.max(0, group[0][0] - contextLength);
+    const snippetEnd = Math.min(content.length, group[group.length - 1][1] + contextLength);
+    let snippet = snippetStart > 0 ? '...' : '';
+    let cursor = snippetStart;
+
+    group.forEach(([start, end]) => {
+      snippet += content.substring(cursor, start) +
+        HIGHLIGHT_START + content.substring(start, end) + HIGHLIGHT_END;
+      cursor = end;
+    });
+
+    snippet += content.substring(cursor, snippetEnd);
+    return snippetEnd < content.length ? snippet + '...' : snippet;
+  });
+}
@@ -12,6 +12,11 @@ export { IS_DEV, IS_IOS, IS_ANDROID, IS_WEB } from './Constants';
 export { ENV_CONFIG, getEnvironmentConfig } from './Environment';
 export type { EnvironmentConfig } from './Environment';
 
+export { tokenizeForIndex, buildMatchQuery, buildHighlightSnippets, HIGHLIGHT_START, HIGHLIGHT_END } from './SearchTokenizer';
+export type { IndexedText } from './SearchTokenizer';
+
+export { encodeMessagePack, decodeMessagePack } from './MessagePack';
+
 // 便捷的工具函数
 export const formatDate = (date: Date): string => {
   return date.toLocaleDateString('zh-CN', {